@@ -1,16 +1,42 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveSession, LiveServerMessage, Modality, FunctionDeclaration, Type, GenerateContentResponse } from '@google/genai';
-import { ConversationStatus, Message, SessionRecord, Buddy } from './types';
-import { encode, decode, decodeAudioData, createBlob } from './utils/audio';
+import { FunctionCall, Content, Part, Type } from '@google/genai';
+import { ConversationStatus, Message, SessionRecord, Buddy, AppMode, LearningMode, ProgressState, DailyChallengeState, BrainAttempt, ChildProfile, ModerationFlag, ModerationCategory, ScreenTimeRules, FeedbackPreferenceId, TalkMode, VadSensitivity } from './types';
+import { encode, decode, decodeAudioData } from './utils/audio';
+import { AiProvider, getAiProvider } from './utils/aiProvider';
+import { isSessionActive } from './utils/liveSession';
+import { PAUSE_LENGTH_OPTIONS, VAD_THRESHOLDS } from './utils/vad';
+import { PlaybackState, SLOW_PLAYBACK_RATE, createAudioPlayer } from './utils/audioPlayback';
+import { isMicPermissionError, useLiveSession } from './hooks/useLiveSession';
+import { PROGRESS_KEY, loadProgress, recordProgress, getLevelInfo, getActiveStreak, XP_REWARDS } from './utils/progress';
+import { CHALLENGE_KEY, loadChallengeState, recordChallengeActivity, getChallengeForDay } from './utils/challenges';
+import { HISTORY_KEY, loadHistory, saveSessionToHistory, getResumableSessions, subscribeToHistory, summarizeSession, summarizePendingSessions, importSessions, resolveSessionImages, deleteHistoryImages, applyHistoryLimit } from './utils/history';
+import { getAllTags } from './utils/summaries';
+import { ExportFormat, HistoryImportError, buildJsonExport, buildHtmlExport, buildMarkdownExport, parseHistoryImport, downloadFile } from './utils/historyTransfer';
+import { MAX_RECORDING_CHUNKS, buildStoryWav, getScriptTitle, getStoryFilename } from './utils/storyAudio';
+import { loadQuarantine, discardQuarantined } from './utils/quarantine';
+import { BRAIN_KEY } from './utils/brainChallenges';
+import { SETTINGS_KEY, HISTORY_LIMIT_OPTIONS, loadSettings, saveSettings, loadLegacyBuddyId } from './utils/settings';
+import { StorageError, getStorageError, subscribeToStorageErrors, retryFailedWrites } from './utils/storage';
+import { InstructionSpec, buildSystemInstruction, buildGreeting, toResumeContext, toConversationLines, getPromptContext, describeAudience, READING_LEVELS } from './utils/prompts';
+import { GENERATE_IMAGE_TOOL } from './utils/modeTools';
+import { loadGateState, setMathFallbackEnabled } from './utils/parentGate';
+import { AnalyticsRange, buildSessionAnalytics, getSessionMinutes } from './utils/analytics';
+import { FEEDBACK_PREFERENCES_KEY, FEEDBACK_PREFERENCES, loadFeedbackPreferences, dismissFeedbackPreference, buildReexplainRequest } from './utils/feedback';
+import { ModerationRules, IMAGE_BLOCKED_MESSAGE, loadModerationRules, saveModerationSettings, moderate, moderateText, toModerationFlag, getRedirectMessage, redactPersonalInfo, createModelClassifier } from './utils/moderation';
+import { SCREEN_TIME_KEY, USAGE_KEY, MINUTE_LIMIT_OPTIONS, ScreenTimeStatus, loadScreenTimeRules, saveScreenTimeRules, loadScreenTimeStatus, loadUsage, getUsedMinutes, recordUsage, isWindingDown, getWindDownMessage, isValidTime } from './utils/screenTime';
+import { ensureProfiles, loadProfiles, getActiveProfile, setActiveProfile, createProfile, updateProfile, deleteProfile } from './utils/profiles';
 import { 
     MicrophoneIcon, StopIcon, LoadingSpinner, ThumbsUpIcon, ThumbsDownIcon, ArrowLeftIcon, CameraIcon,
-    FireIcon, SettingsIcon, TextLearningIcon, HomeworkHelperIcon, LearningGamesIcon, ReadLearnIcon, VoiceTutorIcon, BrainChallengesIcon, CreativeStudioIcon, ChallengeMedalIcon, StarIcon 
+    SendIcon, FireIcon, SettingsIcon, TextLearningIcon, HomeworkHelperIcon, LearningGamesIcon, ReadLearnIcon, VoiceTutorIcon, BrainChallengesIcon, CreativeStudioIcon, ChallengeMedalIcon, StarIcon, PlayIcon, PauseIcon 
 } from './components/Icons';
 import { Mascot } from './components/Mascot';
+import { QuizView } from './components/QuizView';
+import { BrainChallengeView } from './components/BrainChallengeView';
+import { ProfilesView } from './components/ProfilesView';
+import { ParentGate } from './components/ParentGate';
+import { StoredImage } from './components/StoredImage';
+import { TimeUpView } from './components/TimeUpView';
 
-export type AppMode = 'homework' | 'free-chat' | 'learning' | 'voice-to-story' | 'read-and-learn';
-const HISTORY_KEY = 'askie-kids-history';
-const SETTINGS_KEY = 'askie-kids-settings';
 
 const BUDDIES: Buddy[] = [
     { id: 'navi', name: 'Navi', voice: 'Zephyr', icon: '☁️' },
@@ -18,28 +44,44 @@ const BUDDIES: Buddy[] = [
     { id: 'sparkle', name: 'Sparkle', voice: 'Kore', icon: '✨' },
 ];
 
-const generateImageForResponse = async (ai: GoogleGenAI, prompt: string, style: string = 'cartoon'): Promise<string | null> => {
-    if (!ai || !prompt) return null;
-    try {
-        const imagePrompt = `A simple, friendly, cute ${style} illustration for a child about: ${prompt}`;
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: imagePrompt }] },
-            config: { responseModalities: [Modality.IMAGE] },
-        });
+const getModeTitle = (mode: AppMode): string => {
+    switch (mode) {
+        case 'homework': return 'Homework Helper';
+        case 'learning': return 'General Learning';
+        case 'free-chat': return 'Free Chat';
+        case 'voice-to-story': return 'Voice-to-Story';
+        case 'read-and-learn': return 'Read & Learn';
+        case 'learning-games': return 'Learning Games';
+        case 'brain-challenges': return 'Brain Challenges';
+        default: return 'Session';
+    }
+};
 
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            }
-        }
-        return null;
+const generateImageForResponse = async (ai: AiProvider, prompt: string, style: string = 'cartoon'): Promise<string | null> => {
+    if (!prompt) return null;
+    try {
+        return await ai.generateImage(`A simple, friendly, cute ${style} illustration for a child about: ${prompt}`);
     } catch (e) {
         console.error('Image generation error:', e);
         return null;
     }
 };
 
+// Screens the prompt first so a blocked drawing never reaches the image model.
+const generateModeratedImage = async (ai: AiProvider, rules: ModerationRules, prompt: string, style?: string): Promise<{ imageUrl: string | null; moderation?: ModerationFlag }> => {
+    const check = await moderate(prompt, 'image-prompt', rules, rules.useModelClassifier ? createModelClassifier(ai) : undefined);
+    if (check.action !== 'allow') return { imageUrl: null, moderation: toModerationFlag(check, 'image-prompt', prompt) };
+    return { imageUrl: await generateImageForResponse(ai, prompt, style) };
+};
+
+// The text a flagged message shows in the chat; the original is kept on the flag for parents.
+const getModeratedText = (flag: ModerationFlag): string => {
+    if (flag.source === 'child') return flag.categories.includes('personal-info') ? redactPersonalInfo(flag.originalText) : flag.originalText;
+    return flag.source === 'image-prompt' ? IMAGE_BLOCKED_MESSAGE : getRedirectMessage(flag);
+};
+
+const IMAGE_BLOCKED_TOOL_RESPONSE = "That picture isn't suitable for a child, so it won't be drawn. Kindly suggest drawing something else.";
+
 // =================================================================
 // SETTINGS COMPONENT
 // =================================================================
@@ -49,9 +91,123 @@ interface SettingsProps {
     onSelectBuddy: (id: string) => void;
     onExit: () => void;
     onSelectParentDashboard: () => void;
+    onChangePin: () => void;
 }
 
-const Settings: React.FC<SettingsProps> = ({ buddies, selectedBuddyId, onSelectBuddy, onExit, onSelectParentDashboard }) => {
+const ScreenTimeSettings: React.FC = () => {
+    const [rules, setRules] = useState<ScreenTimeRules>(loadScreenTimeRules);
+    const usedToday = Math.round(getUsedMinutes(loadUsage()));
+
+    const updateRules = (changes: Partial<ScreenTimeRules>) => {
+        const updated = { ...rules, ...changes };
+        saveScreenTimeRules(updated);
+        setRules(updated);
+    };
+
+    const setModeLimit = (mode: AppMode, minutes: number | null) => {
+        const modeMinutes = { ...rules.modeMinutes };
+        if (minutes === null) delete modeMinutes[mode]; else modeMinutes[mode] = minutes;
+        updateRules({ modeMinutes });
+    };
+
+    const updateWindow = (index: number, field: 'start' | 'end', value: string) => {
+        if (!isValidTime(value)) return;
+        updateRules({ allowedWindows: rules.allowedWindows.map((window, i) => i === index ? { ...window, [field]: value } : window) });
+    };
+
+    const renderLimitSelect = (value: number | null | undefined, onChange: (minutes: number | null) => void, label: string) => (
+        <select
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+            aria-label={label}
+            className="py-2 px-4 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+        >
+            <option value="">No limit</option>
+            {MINUTE_LIMIT_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{formatMinutes(minutes)}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-slate-500">Used today: {formatMinutes(usedToday)}. Your child's buddy gives a warning a few minutes before time runs out.</p>
+            <div className="w-full p-4 border-2 rounded-xl flex items-center bg-white">
+                <span className="mr-4 text-2xl">⏳</span>
+                <div className="flex-grow">
+                    <h3 className="text-xl font-bold text-slate-800">Daily Limit</h3>
+                    <p className="text-slate-500">Total time across every activity.</p>
+                </div>
+                {renderLimitSelect(rules.dailyMinutes, dailyMinutes => updateRules({ dailyMinutes }), 'Daily limit')}
+            </div>
+            <div className="w-full p-4 border-2 rounded-xl bg-white">
+                <h3 className="text-xl font-bold text-slate-800">Limits per Activity</h3>
+                <div className="mt-2 space-y-2">
+                    {ALL_MODES.map(mode => (
+                        <div key={mode} className="flex items-center justify-between">
+                            <span className="text-slate-600">{getModeTitle(mode)}</span>
+                            {renderLimitSelect(rules.modeMinutes[mode], minutes => setModeLimit(mode, minutes), `${getModeTitle(mode)} limit`)}
+                        </div>
+                    ))}
+                </div>
+            </div>
+            <div className="w-full p-4 border-2 rounded-xl bg-white">
+                <h3 className="text-xl font-bold text-slate-800">Allowed Hours</h3>
+                <p className="text-slate-500">{rules.allowedWindows.length === 0 ? 'The app can be used at any time of day.' : 'The app can only be used during these times.'}</p>
+                <div className="mt-2 space-y-2">
+                    {rules.allowedWindows.map((window, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <input type="time" value={window.start} onChange={(e) => updateWindow(index, 'start', e.target.value)} aria-label="From" className="py-2 px-3 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300" />
+                            <span className="text-slate-500">to</span>
+                            <input type="time" value={window.end} onChange={(e) => updateWindow(index, 'end', e.target.value)} aria-label="Until" className="py-2 px-3 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300" />
+                            <button onClick={() => updateRules({ allowedWindows: rules.allowedWindows.filter((_, i) => i !== index) })} className="ml-auto text-sm font-semibold text-slate-500 hover:text-red-600">Remove</button>
+                        </div>
+                    ))}
+                </div>
+                <button onClick={() => updateRules({ allowedWindows: [...rules.allowedWindows, { start: '08:00', end: '19:00' }] })} className="mt-3 text-sm font-semibold text-purple-600 hover:text-purple-700">
+                    + Add allowed hours
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const Settings: React.FC<SettingsProps> = ({ buddies, selectedBuddyId, onSelectBuddy, onExit, onSelectParentDashboard, onChangePin }) => {
+    const [mathFallback, setMathFallback] = useState(() => loadGateState().mathFallbackEnabled);
+    const [moderationRules, setModerationRules] = useState(loadModerationRules);
+    const [customKeywordsText, setCustomKeywordsText] = useState(() => moderationRules.customKeywords.join(', '));
+    const [historyLimit, setHistoryLimit] = useState(() => loadSettings().historyLimit);
+    const [reexplainOnDislike, setReexplainOnDislike] = useState(() => loadSettings().reexplainOnDislike);
+    const [voiceSettings, setVoiceSettings] = useState(() => {
+        const { talkMode, vadSensitivity, pauseMs } = loadSettings();
+        return { talkMode, vadSensitivity, pauseMs };
+    });
+
+    const handleToggleMathFallback = () => {
+        setMathFallbackEnabled(!mathFallback);
+        setMathFallback(!mathFallback);
+    };
+
+    const handleToggleReexplain = () => {
+        saveSettings({ ...loadSettings(), reexplainOnDislike: !reexplainOnDislike });
+        setReexplainOnDislike(!reexplainOnDislike);
+    };
+
+    const updateVoiceSettings = (changes: Partial<typeof voiceSettings>) => {
+        saveSettings({ ...loadSettings(), ...changes });
+        setVoiceSettings({ ...voiceSettings, ...changes });
+    };
+
+    const handleChangeHistoryLimit = (limit: number) => {
+        saveSettings({ ...loadSettings(), historyLimit: limit });
+        applyHistoryLimit();
+        setHistoryLimit(limit);
+    };
+
+    const updateModerationRules = (changes: Partial<Pick<ModerationRules, 'customKeywords' | 'useModelClassifier'>>) => {
+        const updated = { ...moderationRules, ...changes };
+        saveModerationSettings({ customKeywords: updated.customKeywords, useModelClassifier: updated.useModelClassifier });
+        setModerationRules(updated);
+    };
+
     return (
         <div className="flex flex-col h-full bg-[#FFFBF5]">
             <header className="flex items-center p-4 border-b border-slate-200">
@@ -101,6 +257,128 @@ const Settings: React.FC<SettingsProps> = ({ buddies, selectedBuddyId, onSelectB
                             <p className="text-slate-500">View conversation history.</p>
                         </div>
                     </button>
+                    <button
+                        onClick={onChangePin}
+                        className="w-full p-4 mt-4 text-left transition-all duration-200 border-2 rounded-xl flex items-center bg-white hover:bg-slate-50 hover:border-slate-300"
+                    >
+                        <span className="mr-4 text-2xl">🔒</span>
+                        <div>
+                            <h3 className="text-xl font-bold text-slate-800">Change PIN</h3>
+                            <p className="text-slate-500">Choose a new parent PIN.</p>
+                        </div>
+                    </button>
+                    <label className="w-full p-4 mt-4 border-2 rounded-xl flex items-center bg-white cursor-pointer">
+                        <span className="mr-4 text-2xl">➗</span>
+                        <div className="flex-grow">
+                            <h3 className="text-xl font-bold text-slate-800">Math Question Unlock</h3>
+                            <p className="text-slate-500">Allow a grown-up math question instead of the PIN.</p>
+                        </div>
+                        <input type="checkbox" checked={mathFallback} onChange={handleToggleMathFallback} className="w-6 h-6 accent-purple-600" />
+                    </label>
+
+                    <label className="w-full p-4 mt-4 border-2 rounded-xl flex items-center bg-white cursor-pointer">
+                        <span className="mr-4 text-2xl">👎</span>
+                        <div className="flex-grow">
+                            <h3 className="text-xl font-bold text-slate-800">Explain Again on Thumbs Down</h3>
+                            <p className="text-slate-500">When your child dislikes an answer, the buddy tries again more simply.</p>
+                        </div>
+                        <input type="checkbox" checked={reexplainOnDislike} onChange={handleToggleReexplain} className="w-6 h-6 accent-purple-600" />
+                    </label>
+
+                    <h2 className="mt-8 mb-4 text-lg font-semibold text-slate-600">Voice Chat</h2>
+                    <label className="w-full p-4 border-2 rounded-xl flex items-center bg-white">
+                        <span className="mr-4 text-2xl">🎙️</span>
+                        <div className="flex-grow">
+                            <h3 className="text-xl font-bold text-slate-800">How to Talk</h3>
+                            <p className="text-slate-500">Hands-free listens for your child's voice. Hold to talk only listens while a button is held down.</p>
+                        </div>
+                        <select
+                            value={voiceSettings.talkMode}
+                            onChange={(e) => updateVoiceSettings({ talkMode: e.target.value as TalkMode })}
+                            aria-label="How to talk"
+                            className="py-2 px-4 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                        >
+                            <option value="auto">Hands-free</option>
+                            <option value="hold">Hold to talk</option>
+                        </select>
+                    </label>
+                    {voiceSettings.talkMode === 'auto' && <>
+                        <label className="w-full p-4 mt-4 border-2 rounded-xl flex items-center bg-white">
+                            <span className="mr-4 text-2xl">👂</span>
+                            <div className="flex-grow">
+                                <h3 className="text-xl font-bold text-slate-800">Listening Sensitivity</h3>
+                                <p className="text-slate-500">Turn it up for quiet voices, or down if background noise is mistaken for talking.</p>
+                            </div>
+                            <select
+                                value={voiceSettings.vadSensitivity}
+                                onChange={(e) => updateVoiceSettings({ vadSensitivity: e.target.value as VadSensitivity })}
+                                aria-label="Listening sensitivity"
+                                className="py-2 px-4 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                            >
+                                <option value="low">Low</option>
+                                <option value="medium">Medium</option>
+                                <option value="high">High</option>
+                            </select>
+                        </label>
+                        <label className="w-full p-4 mt-4 border-2 rounded-xl flex items-center bg-white">
+                            <span className="mr-4 text-2xl">⏸️</span>
+                            <div className="flex-grow">
+                                <h3 className="text-xl font-bold text-slate-800">Thinking Pause</h3>
+                                <p className="text-slate-500">How long your child can pause mid-sentence before the buddy answers.</p>
+                            </div>
+                            <select
+                                value={voiceSettings.pauseMs}
+                                onChange={(e) => updateVoiceSettings({ pauseMs: Number(e.target.value) })}
+                                aria-label="Thinking pause"
+                                className="py-2 px-4 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                            >
+                                {PAUSE_LENGTH_OPTIONS.map(ms => <option key={ms} value={ms}>{ms / 1000} sec</option>)}
+                            </select>
+                        </label>
+                    </>}
+
+                    <h2 className="mt-8 mb-4 text-lg font-semibold text-slate-600">Screen Time</h2>
+                    <ScreenTimeSettings />
+
+                    <h2 className="mt-8 mb-4 text-lg font-semibold text-slate-600">Safety</h2>
+                    <p className="mb-4 text-sm text-slate-500">Conversations are always checked for unsafe topics and personal details like phone numbers and addresses. Flagged messages are highlighted in the Parent Dashboard.</p>
+                    <label className="block w-full p-4 border-2 rounded-xl bg-white">
+                        <h3 className="text-xl font-bold text-slate-800">Extra Blocked Words</h3>
+                        <p className="text-slate-500">Separate words or phrases with commas.</p>
+                        <input
+                            type="text"
+                            value={customKeywordsText}
+                            onChange={(e) => setCustomKeywordsText(e.target.value)}
+                            onBlur={() => updateModerationRules({ customKeywords: customKeywordsText.split(',').map(k => k.trim()).filter(Boolean) })}
+                            placeholder="e.g. scary movie, zombies"
+                            className="w-full py-2 px-4 mt-2 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                        />
+                    </label>
+                    <label className="w-full p-4 mt-4 border-2 rounded-xl flex items-center bg-white cursor-pointer">
+                        <span className="mr-4 text-2xl">🛡️</span>
+                        <div className="flex-grow">
+                            <h3 className="text-xl font-bold text-slate-800">AI Safety Check</h3>
+                            <p className="text-slate-500">Also ask an AI reviewer to check each conversation turn. Slower, but catches more.</p>
+                        </div>
+                        <input type="checkbox" checked={moderationRules.useModelClassifier} onChange={() => updateModerationRules({ useModelClassifier: !moderationRules.useModelClassifier })} className="w-6 h-6 accent-purple-600" />
+                    </label>
+
+                    <h2 className="mt-8 mb-4 text-lg font-semibold text-slate-600">Storage</h2>
+                    <label className="w-full p-4 border-2 rounded-xl flex items-center bg-white">
+                        <span className="mr-4 text-2xl">🗂️</span>
+                        <div className="flex-grow">
+                            <h3 className="text-xl font-bold text-slate-800">Conversations to Keep</h3>
+                            <p className="text-slate-500">Older conversations and their pictures are deleted once this many are saved.</p>
+                        </div>
+                        <select
+                            value={historyLimit}
+                            onChange={(e) => handleChangeHistoryLimit(Number(e.target.value))}
+                            aria-label="Conversations to keep"
+                            className="py-2 px-4 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                        >
+                            {HISTORY_LIMIT_OPTIONS.map(limit => <option key={limit} value={limit}>{limit}</option>)}
+                        </select>
+                    </label>
                 </div>
             </main>
         </div>
@@ -112,43 +390,344 @@ const Settings: React.FC<SettingsProps> = ({ buddies, selectedBuddyId, onSelectB
 // PARENT DASHBOARD COMPONENT
 // =================================================================
 interface ParentDashboardProps {
+    profile: ChildProfile;
     history: SessionRecord[];
+    progress: ProgressState;
     onExit: () => void;
 }
 
-const ParentDashboard: React.FC<ParentDashboardProps> = ({ history, onExit }) => {
+const BrainAttemptsTable: React.FC<{ attempts: BrainAttempt[] }> = ({ attempts }) => {
+    const correctCount = attempts.filter(a => a.correct).length;
+    const averageSeconds = Math.round(attempts.reduce((sum, a) => sum + a.timeTakenMs, 0) / attempts.length / 1000);
+
+    return (
+        <div className="mb-4">
+            <p className="mb-2 text-sm font-semibold text-slate-600">
+                {correctCount} of {attempts.length} correct · {averageSeconds}s average per question
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-700">
+                    <thead className="text-xs uppercase text-slate-500">
+                        <tr>
+                            <th className="py-1 pr-2">Question</th>
+                            <th className="py-1 pr-2">Answer</th>
+                            <th className="py-1 pr-2">Level</th>
+                            <th className="py-1 pr-2">Time</th>
+                            <th className="py-1"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {attempts.map(attempt => (
+                            <tr key={attempt.id} className="border-t border-slate-200 align-top">
+                                <td className="py-1 pr-2">{attempt.question}</td>
+                                <td className="py-1 pr-2">
+                                    {attempt.answer || <em className="text-slate-400">gave up</em>}
+                                    {!attempt.correct && <span className="block text-xs text-slate-500">Expected: {attempt.expectedAnswer}</span>}
+                                </td>
+                                <td className="py-1 pr-2">{attempt.difficulty}</td>
+                                <td className="py-1 pr-2">{Math.round(attempt.timeTakenMs / 1000)}s</td>
+                                <td className="py-1">{attempt.correct ? '✅' : '❌'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+const ALL_MODES: AppMode[] = ['homework', 'learning', 'read-and-learn', 'free-chat', 'voice-to-story', 'learning-games', 'brain-challenges'];
+
+// Lets parents see exactly what the buddy is told for each mode, as tailored to this child.
+const PromptPreview: React.FC<{ profile: ChildProfile }> = ({ profile }) => {
+    const [mode, setMode] = useState<AppMode>('homework');
+    const [preferences, setPreferences] = useState(() => loadFeedbackPreferences(profile.id));
+    const buddy = BUDDIES.find(b => b.id === profile.buddyId) || BUDDIES[0];
+    const context = getPromptContext(profile, buddy.name);
+    const greeting = buildGreeting(mode, context);
+
+    const handleForgetPreference = (id: FeedbackPreferenceId) => {
+        dismissFeedbackPreference(id);
+        setPreferences(loadFeedbackPreferences(profile.id));
+    };
+
+    return (
+        <div className="p-4 mb-8 space-y-3 bg-white border border-slate-200 rounded-xl">
+            <p className="text-sm text-slate-500">
+                Tailored for {describeAudience(context)} · {READING_LEVELS.find(l => l.id === context.readingLevel)?.label}
+                {context.interests.length > 0 && ` · likes ${context.interests.join(', ')}`}
+            </p>
+            {preferences.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-semibold text-slate-600">Learned from {profile.name}'s 👎 ratings</h3>
+                    <div className="mt-1 space-y-1">
+                        {preferences.map(preference => (
+                            <div key={preference.id} className="flex items-center justify-between p-2 text-sm rounded-lg bg-slate-50">
+                                <span className="text-slate-700">{FEEDBACK_PREFERENCES[preference.id].label}</span>
+                                <button onClick={() => handleForgetPreference(preference.id)} className="font-semibold text-slate-500 hover:text-red-600">Forget</button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+            <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as AppMode)}
+                aria-label="Mode to preview"
+                className="w-full py-2 px-4 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+            >
+                {ALL_MODES.map(m => <option key={m} value={m}>{getModeTitle(m)}</option>)}
+            </select>
+            {greeting && (
+                <div>
+                    <h3 className="text-sm font-semibold text-slate-600">Greeting</h3>
+                    <p className="p-3 text-sm rounded-lg bg-slate-50 text-slate-700">{greeting}</p>
+                </div>
+            )}
+            <div>
+                <h3 className="text-sm font-semibold text-slate-600">Instructions</h3>
+                <p className="p-3 text-sm whitespace-pre-wrap rounded-lg bg-slate-50 text-slate-700">{buildSystemInstruction(mode, context)}</p>
+            </div>
+        </div>
+    );
+};
+
+const formatMinutes = (minutes: number): string => {
+    if (minutes < 1) return minutes > 0 ? '<1 min' : '0 min';
+    if (minutes < 60) return `${Math.round(minutes)} min`;
+    return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+};
+
+const ParentAnalytics: React.FC<{ history: SessionRecord[] }> = ({ history }) => {
+    const [range, setRange] = useState<AnalyticsRange>(7);
+    const analytics = buildSessionAnalytics(history, range);
+    const maxDailyMinutes = Math.max(1, ...analytics.minutesPerDay.map(d => d.minutes));
+    const maxModeCount = Math.max(1, ...analytics.modeCounts.map(m => m.count));
+    const totalFeedback = analytics.thumbsUp + analytics.thumbsDown;
+
+    return (
+        <div className="p-4 mb-8 space-y-6 bg-white border border-slate-200 rounded-xl">
+            <div className="flex space-x-2">
+                {([7, 30] as AnalyticsRange[]).map(days => (
+                    <button
+                        key={days}
+                        onClick={() => setRange(days)}
+                        className={`px-4 py-1 text-sm font-semibold rounded-full ${range === days ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                    >
+                        {days === 7 ? 'Last week' : 'Last month'}
+                    </button>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+                {[
+                    { label: 'Sessions', value: analytics.sessionCount },
+                    { label: 'Total time', value: formatMinutes(analytics.totalMinutes) },
+                    { label: 'Average session', value: formatMinutes(analytics.averageMinutes) },
+                ].map(stat => (
+                    <div key={stat.label} className="p-3 text-center rounded-xl bg-slate-50">
+                        <span className="block text-xl font-bold text-slate-800">{stat.value}</span>
+                        <span className="text-sm text-slate-500">{stat.label}</span>
+                    </div>
+                ))}
+            </div>
+
+            <div>
+                <h3 className="mb-2 text-sm font-semibold text-slate-600">Minutes per day</h3>
+                <div className="flex items-end h-32 gap-1">
+                    {analytics.minutesPerDay.map(day => (
+                        <div key={day.dayKey} className="flex flex-col items-center justify-end flex-1 h-full" title={`${day.date.toLocaleDateString()}: ${formatMinutes(day.minutes)}`}>
+                            <div className="w-full bg-purple-400 rounded-t" style={{ height: `${(day.minutes / maxDailyMinutes) * 100}%` }} />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-1 mt-1">
+                    {analytics.minutesPerDay.map((day, i) => (
+                        <span key={day.dayKey} className="flex-1 text-xs text-center text-slate-400">
+                            {range === 7 ? day.date.toLocaleDateString(undefined, { weekday: 'short' }) : (i % 5 === 0 ? day.date.getDate() : '')}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <h3 className="mb-2 text-sm font-semibold text-slate-600">Sessions by activity</h3>
+                {analytics.modeCounts.length === 0 ? (
+                    <p className="text-sm text-slate-500">No sessions in this period.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {analytics.modeCounts.map(({ mode, count }) => (
+                            <div key={mode} className="flex items-center text-sm">
+                                <span className="w-36 text-slate-600 shrink-0">{getModeTitle(mode)}</span>
+                                <div className="flex-grow h-4 mx-2 rounded-full bg-slate-100">
+                                    <div className="h-4 bg-yellow-400 rounded-full" style={{ width: `${(count / maxModeCount) * 100}%` }} />
+                                </div>
+                                <span className="w-6 font-semibold text-right text-slate-700">{count}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {analytics.buddyCounts.length > 0 && (
+                    <p className="mt-2 text-sm text-slate-500">
+                        Buddies: {analytics.buddyCounts.map(({ buddyId, count }) => {
+                            const buddy = BUDDIES.find(b => b.id === buddyId);
+                            return `${buddy ? `${buddy.icon} ${buddy.name}` : buddyId} (${count})`;
+                        }).join(' · ')}
+                    </p>
+                )}
+            </div>
+
+            <div>
+                <h3 className="mb-2 text-sm font-semibold text-slate-600">Most talked about</h3>
+                {analytics.topTopics.length === 0 ? (
+                    <p className="text-sm text-slate-500">Not enough conversation yet.</p>
+                ) : (
+                    <div className="flex flex-wrap gap-2">
+                        {analytics.topTopics.map(({ topic, count }) => (
+                            <span key={topic} className="px-3 py-1 text-sm rounded-full bg-purple-50 text-purple-800">{topic} <span className="text-purple-400">×{count}</span></span>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div>
+                <h3 className="mb-2 text-sm font-semibold text-slate-600">Answer ratings</h3>
+                {totalFeedback === 0 ? (
+                    <p className="text-sm text-slate-500">No answers have been rated in this period.</p>
+                ) : (
+                    <>
+                        <div className="flex h-4 overflow-hidden rounded-full">
+                            <div className="bg-green-400" style={{ width: `${(analytics.thumbsUp / totalFeedback) * 100}%` }} />
+                            <div className="bg-pink-400" style={{ width: `${(analytics.thumbsDown / totalFeedback) * 100}%` }} />
+                        </div>
+                        <p className="mt-1 text-sm text-slate-500">👍 {analytics.thumbsUp} · 👎 {analytics.thumbsDown} ({Math.round((analytics.thumbsUp / totalFeedback) * 100)}% positive)</p>
+                        <div className="mt-3 space-y-1 text-sm">
+                            {[
+                                ...analytics.feedback.byMode.map(({ mode, up, down }) => ({ key: mode, label: getModeTitle(mode), up, down })),
+                                ...analytics.feedback.byBuddy.map(({ buddyId, up, down }) => {
+                                    const buddy = BUDDIES.find(b => b.id === buddyId);
+                                    return { key: buddyId, label: buddy ? `${buddy.icon} ${buddy.name}` : buddyId, up, down };
+                                }),
+                            ].map(row => (
+                                <div key={row.key} className="flex items-center justify-between">
+                                    <span className="text-slate-600">{row.label}</span>
+                                    <span className={`font-semibold ${row.down > row.up ? 'text-pink-600' : 'text-slate-700'}`}>👍 {row.up} · 👎 {row.down}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <p className="text-xs text-slate-400">Based on the {history.length} most recent saved {history.length === 1 ? 'session' : 'sessions'}.</p>
+        </div>
+    );
+};
+
+const ParentDashboard: React.FC<ParentDashboardProps> = ({ profile, history, progress, onExit }) => {
     const [expandedId, setExpandedId] = useState<number | null>(null);
     const [searchQuery, setSearchQuery] = useState('');
+    const [flaggedOnly, setFlaggedOnly] = useState(false);
+    const [selectedTag, setSelectedTag] = useState<string | null>(null);
+    const [showTranscript, setShowTranscript] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+    const [transferMessage, setTransferMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    // Only this child's unreadable records; quarantine is shared by every profile.
+    const [quarantined, setQuarantined] = useState(() => loadQuarantine().filter(record => record.storageKey.endsWith(`:${profile.id}`)));
+
+    const handleDownloadQuarantined = () => {
+        downloadFile(`${profile.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-unreadable-records.json`, JSON.stringify(quarantined, null, 2), 'application/json');
+    };
 
-    const toggleSession = (id: number) => {
-        setExpandedId(expandedId === id ? null : id);
+    const handleDiscardQuarantined = () => {
+        if (!window.confirm('Delete these unreadable records for good? Download them first if you may want them later.')) return;
+        discardQuarantined(quarantined.map(record => record.id));
+        setQuarantined([]);
     };
 
-    const getModeTitle = (mode: AppMode) => {
-        switch (mode) {
-            case 'homework': return 'Homework Helper';
-            case 'learning': return 'General Learning';
-            case 'free-chat': return 'Free Chat';
-            case 'voice-to-story': return 'Voice-to-Story';
-            case 'read-and-learn': return 'Read & Learn';
-            default: return 'Session';
+    const toggleSelected = (id: number) => {
+        const next = new Set(selectedIds);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        setSelectedIds(next);
+    };
+
+    const handleExport = async () => {
+        setTransferMessage(null);
+        try {
+            const selected = selectedIds.size > 0 ? history.filter(session => selectedIds.has(session.id)) : history;
+            // Markdown leaves pictures out, so there's no need to load them.
+            const sessions = exportFormat === 'markdown' ? selected : await resolveSessionImages(selected);
+            const labels = { getModeTitle, getBuddyName: (buddyId?: string) => BUDDIES.find(b => b.id === buddyId)?.name ?? 'Buddy' };
+            const filename = `${profile.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-conversations`;
+            if (exportFormat === 'json') downloadFile(`${filename}.json`, buildJsonExport(sessions, profile.name), 'application/json');
+            if (exportFormat === 'html') downloadFile(`${filename}.html`, buildHtmlExport(sessions, profile.name, labels), 'text/html');
+            if (exportFormat === 'markdown') downloadFile(`${filename}.md`, buildMarkdownExport(sessions, profile.name, labels), 'text/markdown');
+        } catch (e) {
+            console.error('History export error:', e);
+            setTransferMessage({ text: 'Sorry, the conversations could not be exported.', isError: true });
+        }
+    };
+
+    const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        event.target.value = '';
+
+        try {
+            const { sessions, invalid } = parseHistoryImport(await file.text());
+            const { added, skipped, dropped, limit } = importSessions(sessions);
+            const notes = [
+                skipped > 0 && `${skipped} already here`,
+                invalid > 0 && `${invalid} unreadable`,
+                dropped > 0 && `only the ${limit} most recent are kept`,
+            ].filter(Boolean);
+            setTransferMessage({ text: `Imported ${added} ${added === 1 ? 'conversation' : 'conversations'}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}.`, isError: false });
+        } catch (e) {
+            console.error('History import error:', e);
+            setTransferMessage({ text: e instanceof HistoryImportError ? e.message : 'Sorry, that file could not be imported.', isError: true });
         }
     };
 
+    const toggleSession = (id: number) => {
+        setExpandedId(expandedId === id ? null : id);
+        setShowTranscript(false);
+    };
+
+    const countFlagged = (session: SessionRecord) => session.messages.filter(message => message.moderation).length;
+    const allTags = getAllTags(history);
+
     const filteredHistory = history.filter(session => {
+        if (flaggedOnly && countFlagged(session) === 0) return false;
+        if (selectedTag && !session.summary?.tags.includes(selectedTag)) return false;
         if (!searchQuery) return true;
-        return session.messages.some(message =>
-            message.text.toLowerCase().includes(searchQuery.toLowerCase())
+        const query = searchQuery.toLowerCase();
+        return session.summary?.text.toLowerCase().includes(query) || session.messages.some(message =>
+            message.text.toLowerCase().includes(query)
         );
     });
 
+    const renderSummary = (session: SessionRecord, expanded: boolean) => {
+        if (session.summary) {
+            return <p className={`mt-1 text-sm text-slate-600 ${expanded ? '' : 'line-clamp-2'}`}>{session.summary.text}</p>;
+        }
+        if (session.summaryStatus === 'pending') {
+            return <p className="flex items-center mt-1 text-sm text-slate-400"><LoadingSpinner className="w-4 h-4 mr-2" />Writing a summary...</p>;
+        }
+        return null;
+    };
+
     return (
         <div className="flex flex-col h-full bg-[#FFFBF5]">
             <header className="flex items-center p-4 border-b border-slate-200">
                 <button onClick={onExit} className="p-2 mr-2 transition-colors rounded-full hover:bg-slate-100" aria-label="Back to main menu">
                     <ArrowLeftIcon className="w-6 h-6 text-slate-600" />
                 </button>
-                <h1 className="text-2xl font-bold text-slate-800">Parent Dashboard</h1>
+                <div>
+                    <h1 className="text-2xl font-bold text-slate-800">Parent Dashboard</h1>
+                    <p className="text-sm text-slate-500">{profile.avatar} {profile.name}'s activity</p>
+                </div>
             </header>
             <main className="flex-grow p-4 overflow-y-auto">
                 <div className="max-w-3xl mx-auto">
@@ -167,31 +746,156 @@ const ParentDashboard: React.FC<ParentDashboardProps> = ({ history, onExit }) =>
                                 </svg>
                             </div>
                         </div>
+                        <label className="flex items-center mt-2 text-sm text-slate-600 cursor-pointer">
+                            <input type="checkbox" checked={flaggedOnly} onChange={() => setFlaggedOnly(!flaggedOnly)} className="w-4 h-4 mr-2 accent-red-500" />
+                            Only show conversations with flagged messages
+                        </label>
+                        {allTags.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-2">
+                                {allTags.map(tag => (
+                                    <button
+                                        key={tag}
+                                        onClick={() => setSelectedTag(selectedTag === tag ? null : tag)}
+                                        className={`px-3 py-1 text-sm rounded-full ${selectedTag === tag ? 'bg-purple-600 text-white' : 'bg-purple-50 text-purple-800 hover:bg-purple-100'}`}
+                                    >
+                                        {tag}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <h2 className="mb-4 text-lg font-semibold text-slate-600">Progress</h2>
+                    <div className="grid grid-cols-2 gap-4 mb-8 md:grid-cols-4">
+                        {[
+                            { label: 'Level', value: getLevelInfo(progress.xp).level },
+                            { label: 'Total XP', value: progress.xp },
+                            { label: 'Day streak', value: getActiveStreak(progress) },
+                            { label: 'Best streak', value: progress.longestStreak },
+                            { label: 'Sessions', value: progress.sessionsCompleted },
+                            { label: 'Messages', value: progress.messagesSent },
+                            { label: 'Stories', value: progress.storiesCreated },
+                            { label: 'Challenges', value: progress.challengesCompleted },
+                        ].map(stat => (
+                            <div key={stat.label} className="p-3 text-center bg-white border border-slate-200 rounded-xl">
+                                <span className="block text-2xl font-bold text-slate-800">{stat.value}</span>
+                                <span className="text-sm text-slate-500">{stat.label}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <h2 className="mb-4 text-lg font-semibold text-slate-600">Activity Trends</h2>
+                    <ParentAnalytics history={history} />
+
+                    <h2 className="mb-4 text-lg font-semibold text-slate-600">What {profile.name}'s Buddy Is Told</h2>
+                    <PromptPreview profile={profile} />
+
+                    <h2 className="mb-4 text-lg font-semibold text-slate-600">Backup & Share</h2>
+                    <div className="p-4 mb-8 space-y-3 bg-white border border-slate-200 rounded-xl">
+                        <p className="text-sm text-slate-500">
+                            {selectedIds.size > 0
+                                ? `${selectedIds.size} selected ${selectedIds.size === 1 ? 'conversation' : 'conversations'} will be exported.`
+                                : 'Tick conversations below to export only those, or export everything.'}
+                        </p>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <select
+                                value={exportFormat}
+                                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                                aria-label="Export format"
+                                className="py-2 px-4 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                            >
+                                <option value="json">Backup file (JSON, with pictures)</option>
+                                <option value="html">Printable page (HTML)</option>
+                                <option value="markdown">Text transcript (Markdown)</option>
+                            </select>
+                            <button onClick={handleExport} disabled={history.length === 0} className="px-4 py-2 font-semibold text-white rounded-full bg-slate-800 hover:bg-slate-700 disabled:bg-slate-400">
+                                {selectedIds.size > 0 ? 'Export Selected' : 'Export All'}
+                            </button>
+                            <button onClick={() => importInputRef.current?.click()} className="px-4 py-2 font-semibold rounded-full text-slate-700 bg-slate-200 hover:bg-slate-300">
+                                Import Backup
+                            </button>
+                            <input type="file" ref={importInputRef} onChange={handleImportFile} accept="application/json,.json" className="hidden" />
+                        </div>
+                        {transferMessage && (
+                            <p className={`p-3 text-sm rounded-lg ${transferMessage.isError ? 'text-red-800 bg-red-100' : 'text-green-800 bg-green-100'}`}>{transferMessage.text}</p>
+                        )}
+                        {quarantined.length > 0 && (
+                            <div className="p-3 space-y-2 text-sm text-orange-800 bg-orange-100 rounded-lg">
+                                <p>{quarantined.length} saved {quarantined.length === 1 ? 'record was' : 'records were'} damaged and set aside so the rest of the history could still be shown.</p>
+                                <div className="flex flex-wrap gap-2">
+                                    <button onClick={handleDownloadQuarantined} className="px-3 py-1 font-semibold bg-white rounded-full hover:bg-orange-50">Download</button>
+                                    <button onClick={handleDiscardQuarantined} className="px-3 py-1 font-semibold bg-white rounded-full hover:bg-orange-50">Delete</button>
+                                </div>
+                            </div>
+                        )}
                     </div>
 
                     <h2 className="mb-4 text-lg font-semibold text-slate-600">Recent Activity</h2>
                     {history.length === 0 ? (
                         <p className="py-8 text-center text-slate-500">No conversation history has been saved yet.</p>
                     ) : filteredHistory.length === 0 ? (
-                        <p className="py-8 text-center text-slate-500">No matching conversations found for "{searchQuery}".</p>
+                        <p className="py-8 text-center text-slate-500">{searchQuery ? `No matching conversations found for "${searchQuery}".` : 'No conversations match these filters.'}</p>
                     ) : (
                         <div className="space-y-4">
                             {filteredHistory.map((session) => (
-                                <div key={session.id} className="overflow-hidden bg-white border border-slate-200 rounded-xl">
-                                    <button onClick={() => toggleSession(session.id)} className="flex items-center justify-between w-full p-4 text-left">
-                                        <div>
-                                            <span className="font-bold text-slate-800">{getModeTitle(session.mode)}</span>
-                                            <span className="block text-sm text-slate-500">{new Date(session.timestamp).toLocaleString()}</span>
-                                        </div>
-                                        <svg className={`w-5 h-5 text-slate-500 transition-transform ${expandedId === session.id ? 'rotate-180' : ''}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                                        </svg>
-                                    </button>
+                                <div key={session.id} className={`overflow-hidden bg-white border rounded-xl ${countFlagged(session) > 0 ? 'border-red-300' : 'border-slate-200'}`}>
+                                    <div className="flex items-start">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedIds.has(session.id)}
+                                            onChange={() => toggleSelected(session.id)}
+                                            aria-label="Select for export"
+                                            className="w-4 h-4 mt-5 ml-4 accent-purple-600 shrink-0"
+                                        />
+                                        <button onClick={() => toggleSession(session.id)} className="flex items-center justify-between w-full p-4 text-left">
+                                            <div>
+                                                <span className="font-bold text-slate-800">{getModeTitle(session.mode)}</span>
+                                                {countFlagged(session) > 0 && (
+                                                    <span className="px-2 py-0.5 ml-2 text-xs font-semibold text-red-800 bg-red-100 rounded-full">⚠️ {countFlagged(session)} flagged</span>
+                                                )}
+                                                <span className="block text-sm text-slate-500">
+                                                    {new Date(session.startedAt ?? session.timestamp).toLocaleString()}
+                                                    {session.startedAt !== undefined && ` · ${formatMinutes(getSessionMinutes(session))}`}
+                                                </span>
+                                                {renderSummary(session, expandedId === session.id)}
+                                            </div>
+                                            <svg className={`w-5 h-5 text-slate-500 transition-transform ${expandedId === session.id ? 'rotate-180' : ''}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                            </svg>
+                                        </button>
+                                    </div>
                                     {expandedId === session.id && (
                                         <div className="p-4 border-t border-slate-200 bg-slate-50">
-                                            <div className="max-h-96 overflow-y-auto pr-2">
-                                                {session.messages.map(msg => <ChatBubble key={msg.id} message={msg} />)}
-                                            </div>
+                                            {!session.summary && session.summaryStatus !== 'pending' && (
+                                                <p className="mb-3 text-sm text-slate-500">
+                                                    {session.summaryStatus === 'failed' ? 'The summary could not be written. ' : 'No summary yet. '}
+                                                    <button onClick={() => summarizeSession(session.id)} className="font-semibold text-purple-600 hover:text-purple-700">
+                                                        {session.summaryStatus === 'failed' ? 'Try again' : 'Summarize'}
+                                                    </button>
+                                                </p>
+                                            )}
+                                            {session.summary && session.summary.tags.length > 0 && (
+                                                <div className="flex flex-wrap gap-2 mb-3">
+                                                    {session.summary.tags.map(tag => <span key={tag} className="px-3 py-1 text-xs rounded-full bg-purple-50 text-purple-800">{tag}</span>)}
+                                                </div>
+                                            )}
+                                            {session.summary && session.summary.notableMoments.length > 0 && (
+                                                <div className="mb-4">
+                                                    <h3 className="text-sm font-semibold text-slate-600">Notable moments</h3>
+                                                    <ul className="pl-5 mt-1 text-sm list-disc text-slate-700">
+                                                        {session.summary.notableMoments.map((moment, i) => <li key={i}>{moment}</li>)}
+                                                    </ul>
+                                                </div>
+                                            )}
+                                            {session.attempts && <BrainAttemptsTable attempts={session.attempts} />}
+                                            <button onClick={() => setShowTranscript(!showTranscript)} className="text-sm font-semibold text-purple-600 hover:text-purple-700">
+                                                {showTranscript ? 'Hide conversation' : `Show full conversation (${session.messages.length} messages)`}
+                                            </button>
+                                            {showTranscript && (
+                                                <div className="max-h-96 mt-2 overflow-y-auto pr-2">
+                                                    {session.messages.map(msg => <ChatBubble key={msg.id} message={msg} showModeration />)}
+                                                </div>
+                                            )}
                                         </div>
                                     )}
                                 </div>
@@ -209,10 +913,25 @@ const ParentDashboard: React.FC<ParentDashboardProps> = ({ history, onExit }) =>
 // DASHBOARD COMPONENT
 // =================================================================
 interface DashboardProps {
+    profile: ChildProfile;
+    onSelectProfiles: () => void;
+    progress: ProgressState;
+    challenge: DailyChallengeState;
+    learningMode: LearningMode;
+    onChangeLearningMode: (learningMode: LearningMode) => void;
     onSelectMode: (mode: AppMode) => void;
+    resumableSessions: SessionRecord[];
+    onResumeSession: (session: SessionRecord) => void;
     onSelectSettings: () => void;
 }
 
+// What a resumable session was about: its summary once there is one, otherwise the child's last message.
+const describeResumableSession = (session: SessionRecord): string => {
+    if (session.summary) return session.summary.text;
+    const lastChildMessage = [...session.messages].reverse().find(message => message.speaker === 'user' && !message.moderation);
+    return lastChildMessage ? `"${lastChildMessage.text}"` : '';
+};
+
 const ActivityCard: React.FC<{ title: string; description: string; icon: React.ReactNode; color: string; onClick: () => void; }> = ({ title, description, icon, color, onClick }) => (
     <button
         onClick={onClick}
@@ -226,23 +945,26 @@ const ActivityCard: React.FC<{ title: string; description: string; icon: React.R
     </button>
 );
 
-const Dashboard: React.FC<DashboardProps> = ({ onSelectMode, onSelectSettings }) => {
-    const [learningMode, setLearningMode] = useState('voice');
-    
+const Dashboard: React.FC<DashboardProps> = ({ profile, onSelectProfiles, progress, challenge, learningMode, onChangeLearningMode, onSelectMode, resumableSessions, onResumeSession, onSelectSettings }) => {
+    const { level, xpIntoLevel, xpForLevel } = getLevelInfo(progress.xp);
+    const streak = getActiveStreak(progress);
+    const todaysChallenge = getChallengeForDay(challenge.day);
+    const challengeUnit = todaysChallenge.metric === 'minutes' ? 'min' : todaysChallenge.metric;
+
     return (
         <div className="flex flex-col h-full overflow-y-auto p-6 space-y-6">
             <header className="flex items-start justify-between">
-                <div className="flex items-center space-x-4">
-                    <div className="w-16 h-16 bg-gray-200 rounded-full"></div>
+                <button onClick={onSelectProfiles} className="flex items-center space-x-4 text-left" aria-label="Switch profile">
+                    <div className="flex items-center justify-center w-16 h-16 text-4xl bg-gray-200 rounded-full">{profile.avatar}</div>
                     <div>
-                        <h1 className="text-3xl font-bold text-slate-900">Hello Champion!</h1>
+                        <h1 className="text-3xl font-bold text-slate-900">Hello {profile.name}!</h1>
                         <p className="text-slate-500">Ready to learn today?</p>
                     </div>
-                </div>
+                </button>
                 <div className="flex items-center space-x-2">
                     <button className="flex items-center px-3 py-2 space-x-2 bg-white rounded-full shadow-sm">
                         <FireIcon className="w-5 h-5 text-orange-500"/>
-                        <span className="font-semibold text-orange-500">12 days</span>
+                        <span className="font-semibold text-orange-500">{streak} {streak === 1 ? 'day' : 'days'}</span>
                     </button>
                     <button onClick={onSelectSettings} className="p-3 bg-white rounded-full shadow-sm">
                         <SettingsIcon className="w-6 h-6 text-slate-600"/>
@@ -251,31 +973,31 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectMode, onSelectSettings })
             </header>
 
             <div className="space-y-2">
-                <p className="text-sm font-semibold text-slate-500">XP Progress</p>
+                <p className="text-sm font-semibold text-slate-500">XP Progress · Level {level}</p>
                 <div className="relative pt-1">
                     <div className="flex items-center justify-between mb-2">
                         <div>
                             <span className="text-xs font-semibold inline-block py-1 px-2 uppercase rounded-full text-yellow-600 bg-yellow-200">
-                                250 / 400 XP
+                                {xpIntoLevel} / {xpForLevel} XP
                             </span>
                         </div>
                     </div>
                     <div className="overflow-hidden h-2 mb-4 text-xs flex rounded bg-yellow-200">
-                        <div style={{ width: '62.5%' }} className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-yellow-500"></div>
+                        <div style={{ width: `${Math.min(100, (xpIntoLevel / xpForLevel) * 100)}%` }} className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-yellow-500"></div>
                     </div>
                 </div>
             </div>
 
             <div className="flex justify-center p-1 bg-white rounded-full shadow-sm">
                 <button
-                    onClick={() => setLearningMode('text')}
+                    onClick={() => onChangeLearningMode('text')}
                     className={`px-6 py-2 rounded-full font-semibold transition-colors flex items-center space-x-2 ${learningMode === 'text' ? 'bg-[#E5E7EB] text-slate-800' : 'text-slate-500'}`}
                 >
                     <TextLearningIcon className="w-5 h-5" />
                     <span>Text Learning</span>
                 </button>
                 <button
-                    onClick={() => setLearningMode('voice')}
+                    onClick={() => onChangeLearningMode('voice')}
                     className={`px-6 py-2 rounded-full font-semibold transition-colors flex items-center space-x-2 ${learningMode === 'voice' ? 'bg-[#E5E7EB] text-slate-800' : 'text-slate-500'}`}
                 >
                     <MicrophoneIcon className="w-5 h-5"/>
@@ -283,26 +1005,52 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectMode, onSelectSettings })
                 </button>
             </div>
 
+            {resumableSessions.length > 0 && (
+                <div className="space-y-2">
+                    <p className="text-sm font-semibold text-slate-500">Pick Up Where You Left Off</p>
+                    {resumableSessions.map(session => (
+                        <button
+                            key={session.id}
+                            onClick={() => onResumeSession(session)}
+                            className="flex items-center w-full p-3 space-x-3 text-left bg-white border border-slate-200 rounded-2xl hover:bg-slate-50"
+                        >
+                            <div className="flex-grow min-w-0">
+                                <p className="font-bold text-slate-800">{getModeTitle(session.mode)}</p>
+                                <p className="text-sm truncate text-slate-500">{describeResumableSession(session)}</p>
+                            </div>
+                            <span className="px-3 py-1 text-sm font-semibold text-purple-700 bg-purple-100 rounded-full shrink-0">Continue</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
                 <ActivityCard title="Homework Helper" description="Get help with tasks" icon={<HomeworkHelperIcon className="w-6 h-6 text-[#29B6F6]" />} color="bg-[#E1F5FE]" onClick={() => onSelectMode('homework')} />
-                <ActivityCard title="Learning Games" description="Fun educational games" icon={<LearningGamesIcon className="w-6 h-6 text-[#FF7043]" />} color="bg-[#FBE9E7]" onClick={() => onSelectMode('learning')} />
+                <ActivityCard title="Learning Games" description="Fun educational games" icon={<LearningGamesIcon className="w-6 h-6 text-[#FF7043]" />} color="bg-[#FBE9E7]" onClick={() => onSelectMode('learning-games')} />
                 <ActivityCard title="Read & Learn" description="Explore new stories" icon={<ReadLearnIcon className="w-6 h-6 text-[#7E57C2]" />} color="bg-[#EDE7F6]" onClick={() => onSelectMode('read-and-learn')} />
                 <ActivityCard title="Voice Tutor" description="Talk to an AI tutor" icon={<VoiceTutorIcon className="w-6 h-6 text-[#FFCA28]" />} color="bg-[#FFF8E1]" onClick={() => onSelectMode('learning')} />
-                <ActivityCard title="Brain Challenges" description="Test your knowledge" icon={<BrainChallengesIcon className="w-6 h-6 text-[#FFEE58]" />} color="bg-[#FFFDE7]" onClick={() => onSelectMode('learning')} />
+                <ActivityCard title="Brain Challenges" description="Test your knowledge" icon={<BrainChallengesIcon className="w-6 h-6 text-[#FFEE58]" />} color="bg-[#FFFDE7]" onClick={() => onSelectMode('brain-challenges')} />
                 <ActivityCard title="Creative Studio" description="Draw & create stories" icon={<CreativeStudioIcon className="w-6 h-6 text-[#EC407A]" />} color="bg-[#FCE4EC]" onClick={() => onSelectMode('voice-to-story')} />
             </div>
 
-            <div className="p-6 bg-orange-400 rounded-2xl text-white text-center space-y-2">
+            <button
+                onClick={() => onSelectMode(todaysChallenge.mode)}
+                className={`w-full p-6 rounded-2xl text-white text-center space-y-2 transition-transform transform hover:scale-105 ${challenge.completed ? 'bg-green-500' : 'bg-orange-400'}`}
+            >
                 <div className="flex items-center justify-center space-x-2">
                     <ChallengeMedalIcon className="w-8 h-8"/>
-                    <h3 className="text-xl font-bold">Today's Challenge!</h3>
+                    <h3 className="text-xl font-bold">{challenge.completed ? 'Challenge Complete!' : "Today's Challenge!"}</h3>
+                </div>
+                <p>{todaysChallenge.title}</p>
+                <div className="overflow-hidden h-2 mx-auto max-w-xs text-xs flex rounded bg-white/40">
+                    <div style={{ width: `${(challenge.progress / todaysChallenge.target) * 100}%` }} className="bg-white"></div>
                 </div>
-                <p>Read a story for 10 minutes</p>
+                <p className="text-sm">{Math.floor(challenge.progress)} / {todaysChallenge.target} {challengeUnit}</p>
                 <div className="flex items-center justify-center pt-2 space-x-1">
-                    <p className="font-semibold">You're doing amazing!</p>
+                    <p className="font-semibold">{challenge.completed ? `You earned ${XP_REWARDS.challenge} XP!` : "You're doing amazing!"}</p>
                     <StarIcon className="w-5 h-5 text-yellow-300"/>
                 </div>
-            </div>
+            </button>
         </div>
     );
 };
@@ -314,38 +1062,67 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectMode, onSelectSettings })
 interface ChatViewProps {
     mode: AppMode;
     buddy: Buddy;
+    profile: ChildProfile;
+    windDownMinutes: number | null; // Set once screen time is nearly up
+    resumeFrom?: SessionRecord; // An earlier session to continue instead of starting fresh
     onExit: () => void;
 }
 
-const generateImageFunctionDeclaration: FunctionDeclaration = {
-    name: 'generateImage',
-    parameters: {
-        type: Type.OBJECT,
-        description: 'Generates an image based on a user\'s description. Call this only when the user explicitly asks for a picture, drawing, or image.',
-        properties: {
-            prompt: {
-                type: Type.STRING,
-                description: 'A detailed description of the image the user wants to see.',
-            },
-            style: {
-                type: Type.STRING,
-                description: "The artistic style of the image. For example: 'cartoon', 'photorealistic', 'sketch'. Defaults to 'cartoon' if not specified by the user.",
-            },
-        },
-        required: ['prompt'],
-    },
+// An image that was still being drawn when the session closed will never arrive.
+const getResumedMessages = (session?: SessionRecord): Message[] => (
+    session ? session.messages.map(message => message.isGeneratingImage ? { ...message, isGeneratingImage: false } : message) : []
+);
+
+// Message ids look like timestamps but never repeat, even for messages added in
+// the same millisecond (a picture and the reply that follows it, say).
+let lastMessageId = 0;
+const nextMessageId = () => {
+    lastMessageId = Math.max(lastMessageId + 1, Date.now());
+    return lastMessageId;
+};
+
+const getBuddyInstruction = (mode: AppMode, profile: ChildProfile, buddy: Buddy, resumeFrom?: SessionRecord): InstructionSpec => ({
+    kind: 'buddy',
+    mode,
+    context: getPromptContext(profile, buddy.name),
+    resume: resumeFrom && toResumeContext(resumeFrom),
+});
+
+const MODERATION_LABELS: Record<ModerationCategory, string> = {
+    'personal-info': 'Personal information',
+    'unsafe-topic': 'Unsafe topic',
+    'self-harm': 'Self-harm',
+    'custom': 'Blocked word',
+    'classifier': 'AI safety check',
 };
 
-const ChatBubble: React.FC<{ message: Message; onFeedback?: (id: number, feedback: 'up' | 'down') => void; }> = ({ message, onFeedback }) => {
+interface ChatBubbleProps {
+    message: Message;
+    onFeedback?: (id: number, feedback: 'up' | 'down') => void;
+    showModeration?: boolean;
+    onReplay?: (id: number) => void;
+    playback?: 'playing' | 'paused'; // Set while this message's audio is playing
+}
+
+const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onFeedback, showModeration, onReplay, playback }) => {
     const isUser = message.speaker === 'user';
     const isAi = message.speaker === 'ai';
+    const flag = showModeration ? message.moderation : undefined;
+    const canReplay = isAi && onReplay && (playback || message.audioChunks?.length);
+    const replayLabel = playback === 'playing' ? 'Pause' : playback === 'paused' ? 'Keep listening' : 'Listen again';
 
     return (
         <div className={`flex items-end gap-2 my-2 ${isUser ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-xs md:max-w-md lg:max-w-lg p-3 rounded-2xl ${isUser ? 'bg-purple-500 text-white rounded-br-lg' : 'bg-white text-gray-800 rounded-bl-lg shadow-md'}`}>
+            <div className={`max-w-xs md:max-w-md lg:max-w-lg p-3 rounded-2xl ${isUser ? 'bg-purple-500 text-white rounded-br-lg' : 'bg-white text-gray-800 rounded-bl-lg shadow-md'} ${flag ? 'ring-4 ring-red-400' : ''}`}>
+                {flag && (
+                    <div className="p-2 mb-2 text-xs text-red-800 bg-red-100 rounded-lg">
+                        <span className="font-bold">⚠️ {flag.action === 'redirect' ? 'Redirected' : 'Blocked'}: {flag.categories.map(c => MODERATION_LABELS[c]).join(', ')}</span>
+                        <span className="block mt-1">{flag.source === 'image-prompt' ? 'Picture request' : 'Original'}: "{flag.originalText}"</span>
+                    </div>
+                )}
                 <p className="text-sm">{message.text}</p>
                 {message.imageUrl && (
-                    <img src={message.imageUrl} alt={isUser ? "User upload" : "AI generated visual aid"} className="mt-2 rounded-lg" />
+                    <StoredImage src={message.imageUrl} alt={isUser ? "User upload" : "AI generated visual aid"} className="mt-2 rounded-lg" />
                 )}
                 {message.isGeneratingImage && (
                     <div className="mt-2 flex items-center text-xs text-gray-400">
@@ -353,24 +1130,36 @@ const ChatBubble: React.FC<{ message: Message; onFeedback?: (id: number, feedbac
                         <span>Generating an image...</span>
                     </div>
                 )}
-                {isAi && !message.isGeneratingImage && message.text && onFeedback && (
+                {isAi && !message.isGeneratingImage && message.text && (onFeedback || canReplay) && (
                     <div className="flex items-center justify-end gap-3 mt-2 pt-2 border-t border-gray-200/80">
-                        <button
-                            onClick={() => onFeedback(message.id, 'up')}
-                            className={`transition-colors duration-200 ${message.feedback === 'up' ? 'text-purple-500' : 'text-gray-400 hover:text-purple-500'}`}
-                            aria-label="Good response"
-                            title="Good response"
-                        >
-                            <ThumbsUpIcon className="w-5 h-5" />
-                        </button>
-                        <button
-                            onClick={() => onFeedback(message.id, 'down')}
-                            className={`transition-colors duration-200 ${message.feedback === 'down' ? 'text-pink-500' : 'text-gray-400 hover:text-pink-500'}`}
-                            aria-label="Bad response"
-                            title="Bad response"
-                        >
-                            <ThumbsDownIcon className="w-5 h-5" />
-                        </button>
+                        {canReplay && (
+                            <button
+                                onClick={() => onReplay(message.id)}
+                                className={`mr-auto transition-colors duration-200 ${playback ? 'text-purple-500' : 'text-gray-400 hover:text-purple-500'}`}
+                                aria-label={replayLabel}
+                                title={replayLabel}
+                            >
+                                {playback === 'playing' ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+                            </button>
+                        )}
+                        {onFeedback && <>
+                            <button
+                                onClick={() => onFeedback(message.id, 'up')}
+                                className={`transition-colors duration-200 ${message.feedback === 'up' ? 'text-purple-500' : 'text-gray-400 hover:text-purple-500'}`}
+                                aria-label="Good response"
+                                title="Good response"
+                            >
+                                <ThumbsUpIcon className="w-5 h-5" />
+                            </button>
+                            <button
+                                onClick={() => onFeedback(message.id, 'down')}
+                                className={`transition-colors duration-200 ${message.feedback === 'down' ? 'text-pink-500' : 'text-gray-400 hover:text-pink-500'}`}
+                                aria-label="Bad response"
+                                title="Bad response"
+                            >
+                                <ThumbsDownIcon className="w-5 h-5" />
+                            </button>
+                        </>}
                     </div>
                 )}
             </div>
@@ -395,287 +1184,258 @@ const AudioVisualizer: React.FC<{ volume: number }> = ({ volume }) => {
     );
 };
 
-const saveSessionToHistory = (messages: Message[], mode: AppMode) => {
-    if (!messages || messages.length === 0) return; 
-
-    const newSession: SessionRecord = {
-        id: Date.now(),
-        mode,
-        timestamp: Date.now(),
-        messages,
-    };
-
-    try {
-        const existingHistoryRaw = localStorage.getItem(HISTORY_KEY);
-        const existingHistory: SessionRecord[] = existingHistoryRaw ? JSON.parse(existingHistoryRaw) : [];
-        
-        const updatedHistory = [newSession, ...existingHistory].slice(0, 20);
-
-        localStorage.setItem(HISTORY_KEY, JSON.stringify(updatedHistory));
-    } catch (error) {
-        console.error("Failed to save session to history:", error);
-    }
-};
-
-const getInitialAiPrompt = (mode: AppMode, buddyName: string): string | null => {
-    switch (mode) {
-        case 'homework':
-            return `Hello! I'm ${buddyName}, and I'm here to help with your homework. What subject are we working on today? You can tell me, or even show me a picture of your work.`;
-        case 'learning':
-            return `Hi there! I'm ${buddyName}. I'm so excited to learn with you! What are you curious about today? We can talk about anything, like animals, space, or dinosaurs!`;
-        case 'read-and-learn':
-            return `Welcome to Read and Learn! I'm ${buddyName}, and I love stories. Would you like to hear a fun story about a squirrel who learned to fly, or would you like to learn about something new?`;
-        case 'free-chat':
-        default:
-            return null; // User initiates
-    }
-};
+// Answers older than this can't be replayed, to keep memory use down in long chats.
+const MAX_REPLAYABLE_ANSWERS = 10;
 
-const ChatView: React.FC<ChatViewProps> = ({ mode, buddy, onExit }) => {
-    const [status, setStatus] = useState<ConversationStatus>(ConversationStatus.IDLE);
-    const [conversation, setConversation] = useState<Message[]>([]);
+const ChatView: React.FC<ChatViewProps> = ({ mode, buddy, profile, windDownMinutes, resumeFrom, onExit }) => {
+    const [conversation, setConversation] = useState<Message[]>(() => getResumedMessages(resumeFrom));
     const [error, setError] = useState<string | null>(null);
-    const [micVolume, setMicVolume] = useState(0);
     const [permissionDenied, setPermissionDenied] = useState(false);
-
-    const aiRef = useRef<GoogleGenAI | null>(null);
-    const sessionRef = useRef<Promise<LiveSession> | null>(null);
-    const inputAudioContextRef = useRef<AudioContext | null>(null);
-    const outputAudioContextRef = useRef<AudioContext | null>(null);
-    const mediaStreamRef = useRef<MediaStream | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+    // The spoken greeting plays before the live session starts, so it has a status of its own.
+    const [greetingStatus, setGreetingStatus] = useState<ConversationStatus | null>(null);
+
+    const [playback, setPlayback] = useState<PlaybackState>({ messageId: null, paused: false });
+    const [player] = useState(() => createAudioPlayer(setPlayback));
+    const [slowSpeech, setSlowSpeech] = useState(() => {
+        const { readingLevel } = getPromptContext(profile, buddy.name);
+        return readingLevel === 'pre-reader' || readingLevel === 'early';
+    });
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const userInputRef = useRef('');
     const aiResponseRef = useRef('');
-    const nextAudioStartTimeRef = useRef(0);
-    const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+    const userMessageIdRef = useRef<number | null>(null);
+    const aiMessageIdRef = useRef<number | null>(null);
+    const moderationRulesRef = useRef(loadModerationRules());
+    const childTurnFlaggedRef = useRef(false);
+    const aiTurnBlockedRef = useRef(false);
+    const aiAudioRef = useRef<string[]>([]);
     const conversationRef = useRef(conversation);
-    const speechEndTimeoutRef = useRef<number | null>(null);
-    const statusRef = useRef(status);
+    const sessionStartRef = useRef(Date.now());
+    const settingsRef = useRef(loadSettings());
     
     conversationRef.current = conversation;
-    statusRef.current = status;
 
-    const cleanup = useCallback(() => {
-        if (speechEndTimeoutRef.current) clearTimeout(speechEndTimeoutRef.current);
-        if (sessionRef.current) {
-            sessionRef.current.then(session => session.close());
-            sessionRef.current = null;
-        }
-        if (mediaStreamRef.current) {
-            mediaStreamRef.current.getTracks().forEach(track => track.stop());
-            mediaStreamRef.current = null;
-        }
-        if (scriptProcessorRef.current) {
-            scriptProcessorRef.current.disconnect();
-            scriptProcessorRef.current = null;
-        }
-        if (inputAudioContextRef.current && inputAudioContextRef.current.state !== 'closed') {
-            inputAudioContextRef.current.close();
-        }
-        if (outputAudioContextRef.current && outputAudioContextRef.current.state !== 'closed') {
-            outputAudioContextRef.current.close();
-        }
-        audioSourcesRef.current.forEach(source => source.stop());
-        audioSourcesRef.current.clear();
+    const stopPlayback = player.stop;
+
+    useEffect(() => player.setRate(slowSpeech ? SLOW_PLAYBACK_RATE : 1), [player, slowSpeech]);
+
+    // Flagged answers can't be replayed.
+    const flagMessage = useCallback((messageId: number, flag: ModerationFlag) => {
+        setConversation(prev => prev.map(msg => msg.id === messageId ? { ...msg, text: getModeratedText(flag), moderation: flag, audioChunks: undefined } : msg));
     }, []);
-    
-    const handleFeedback = useCallback((messageId: number, feedback: 'up' | 'down') => {
-        setConversation(currentConversation =>
-            currentConversation.map(msg =>
-                msg.id === messageId ? { ...msg, feedback: msg.feedback === feedback ? null : feedback } : msg
-            )
-        );
+
+    // Only the latest answers keep their audio, or a long chat would fill up memory.
+    const keepAnswerAudio = useCallback((messageId: number, audioChunks: string[]) => {
+        setConversation(prev => {
+            const withAudio = prev.map(msg => msg.id === messageId && !msg.moderation ? { ...msg, audioChunks } : msg);
+            const replayable = withAudio.filter(msg => msg.audioChunks).map(msg => msg.id);
+            const expired = new Set(replayable.slice(0, -MAX_REPLAYABLE_ANSWERS));
+            return expired.size > 0 ? withAudio.map(msg => expired.has(msg.id) ? { ...msg, audioChunks: undefined } : msg) : withAudio;
+        });
     }, []);
 
-    const startListeningForUser = useCallback(async () => {
-        setPermissionDenied(false);
-        setError(null);
-        setStatus(ConversationStatus.PROCESSING);
+    // The rules run live on every transcription chunk; the slower classifier only gets the finished turn.
+    const classifyCompletedTurn = useCallback((userText: string, userMessageId: number | null, aiText: string, aiMessageId: number | null) => {
+        const rules = moderationRulesRef.current;
+        if (!rules.useModelClassifier) return;
+        const classifier = createModelClassifier(getAiProvider());
 
-        if (!process.env.API_KEY) {
-            setError('API_KEY is not set.');
-            setStatus(ConversationStatus.ERROR);
-            return;
+        if (userText && userMessageId !== null) {
+            moderate(userText, 'child', rules, classifier).then(check => {
+                const flag = toModerationFlag(check, 'child', userText);
+                if (flag) flagMessage(userMessageId, flag);
+            });
         }
+        if (aiText && aiMessageId !== null) {
+            moderate(aiText, 'ai', rules, classifier).then(check => {
+                const flag = toModerationFlag(check, 'ai', aiText);
+                if (flag) flagMessage(aiMessageId, flag);
+            });
+        }
+    }, [flagMessage]);
+
+    const { talkMode, vadSensitivity, pauseMs } = settingsRef.current;
+    const live = useLiveSession({
+        turnTaking: talkMode === 'hold' ? { mode: 'hold' } : { mode: 'auto', vad: { threshold: VAD_THRESHOLDS[vadSensitivity], pauseMs } },
+        isPlayingAudio: player.isAudible,
+        // A session that couldn't be resumed after a drop is told what's already been said.
+        getSetup: afterDrop => ({
+            instruction: {
+                ...getBuddyInstruction(mode, profile, buddy, resumeFrom),
+                reconnectLines: afterDrop ? toConversationLines(conversationRef.current) : undefined,
+            },
+            voiceName: buddy.voice,
+        }),
+        onToolCall: calls => {
+            for (const fc of calls) {
+                if (fc.name !== GENERATE_IMAGE_TOOL) continue;
+                const prompt = fc.args?.prompt as string;
+                const style = fc.args?.style as string | undefined;
+                const imageMessageId = nextMessageId();
+                const isBlocked = moderateText(prompt, 'image-prompt', moderationRulesRef.current).action !== 'allow';
+
+                setConversation(prev => [...prev, { id: imageMessageId, speaker: 'ai', text: `Ok, drawing a ${style || 'cartoon'} of: "${prompt}"`, isGeneratingImage: true }]);
+
+                generateModeratedImage(getAiProvider(), moderationRulesRef.current, prompt, style).then(({ imageUrl, moderation }) => {
+                    setConversation(prev => prev.map(msg => msg.id === imageMessageId ? { ...msg, imageUrl: imageUrl ?? undefined, isGeneratingImage: false } : msg));
+                    if (moderation) flagMessage(imageMessageId, moderation);
+                });
 
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            mediaStreamRef.current = stream;
-
-            inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            if (!outputAudioContextRef.current || outputAudioContextRef.current.state === 'closed') {
-                outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+                const result = isBlocked ? IMAGE_BLOCKED_TOOL_RESPONSE : "OK, the image is being generated for the user.";
+                live.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response: { result } } });
             }
-            
-            const ai = aiRef.current ?? new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            aiRef.current = ai;
-
-            let systemInstruction = '';
-            let tools: { functionDeclarations: FunctionDeclaration[] }[] = [];
-
-            switch (mode) {
-                case 'homework':
-                    systemInstruction = `You are ${buddy.name}, a helpful and patient AI homework assistant for children ages 6 to 14. Your primary goal is to teach, not just give answers. Your tone must be encouraging and supportive. When a child asks a homework question, your response MUST follow this two-part structure:
-1.  **Concept First:** Start by identifying the core concept of the problem. Begin your explanation with a phrase like "That's a great question! It looks like we're working with [Concept Name]. Let's break that down first." Then, explain the concept simply, using an analogy a child can understand.
-2.  **Apply to the Problem:** After explaining the concept, transition to the specific problem by saying something like "Now that we know about [Concept Name], let's look at your question." Then, guide them step-by-step without giving the final answer directly.
-
-If the user provides a picture of their homework, analyze it and follow the same two-part structure. If they explicitly ask for a picture, you MUST call the \`generateImage\` tool.`;
-                    tools = [{ functionDeclarations: [generateImageFunctionDeclaration] }];
-                    break;
-                case 'read-and-learn':
-                    systemInstruction = `You are ${buddy.name}, a friendly AI storyteller and teacher for children. Your primary goal is to tell engaging stories or explain concepts. For every main response you provide, you MUST ALSO generate a cute, friendly, cartoon-style illustration that visually represents the information. To do this, you MUST call the \`generateImage\` tool with a descriptive prompt related to your response. For example, if you are telling a story about a brave knight, call the tool with a prompt like "A cartoon drawing of a brave knight in shiny armor standing in front of a castle." Do not ask the user if they want an image; generate it automatically to enhance the learning experience.`;
-                    tools = [{ functionDeclarations: [generateImageFunctionDeclaration] }];
-                    break;
-                case 'learning':
-                    systemInstruction = `You are ${buddy.name}, a fun, friendly, and very patient AI learning buddy for children ages 4 to 12. Explain things simply, with lots of encouragement and a cheerful tone. Keep your answers short, safe, and easy for a young child to understand. If the child seems unsure what to ask, proactively suggest interesting topics or fun questions to spark their curiosity, like "Did you know that octopuses have three hearts?" or "Would you like to learn about the biggest volcano in our solar system?". If the user explicitly asks for a picture, drawing, or image, you MUST call the \`generateImage\` tool with a descriptive prompt. Do not call it if they don't ask for an image. You can suggest different image styles like cartoon, sketch, or realistic if the user seems interested.`;
-                    tools = [{ functionDeclarations: [generateImageFunctionDeclaration] }];
-                    break;
-                case 'free-chat':
-                case 'voice-to-story': // Fallthrough, no specific instructions for chat
-                    systemInstruction = `You are ${buddy.name}, a fun and friendly AI chat buddy for a child. Your goal is to have a casual, safe, and engaging conversation. Be curious, ask questions, and keep the chat light and positive. You are NOT able to create images or pictures, so politely decline if asked.`;
-                    tools = [];
-                    break;
+        },
+        onInputTranscription: text => {
+            userInputRef.current += text;
+            const userText = userInputRef.current;
+            const userMessageId = userMessageIdRef.current ?? nextMessageId();
+            userMessageIdRef.current = userMessageId;
+
+            const check = moderateText(userText, 'child', moderationRulesRef.current);
+            const flag = toModerationFlag(check, 'child', userText);
+            setConversation(prev => {
+                const userMessage: Message = { id: userMessageId, speaker: 'user', text: flag ? getModeratedText(flag) : userText, moderation: flag };
+                const last = prev[prev.length -1];
+                if (last?.id === userMessageId) return [...prev.slice(0, -1), userMessage];
+                return [...prev, userMessage];
+            });
+            if (flag && !childTurnFlaggedRef.current) {
+                childTurnFlaggedRef.current = true;
+                redirectBuddy(getRedirectMessage(check));
             }
-            
-            sessionRef.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    inputAudioTranscription: {},
-                    outputAudioTranscription: {},
-                    tools: tools,
-                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: buddy.voice } } },
-                    systemInstruction: systemInstruction,
-                },
-                callbacks: {
-                    onopen: () => {
-                        const source = inputAudioContextRef.current!.createMediaStreamSource(stream);
-                        const scriptProcessor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-                        scriptProcessorRef.current = scriptProcessor;
-
-                        scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                            const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                            
-                            let sum = 0;
-                            for (let i = 0; i < inputData.length; i++) sum += inputData[i] * inputData[i];
-                            setMicVolume(Math.min(1, Math.sqrt(sum / inputData.length) * 5));
-
-                            const pcmBlob = createBlob(inputData);
-                            if(sessionRef.current) sessionRef.current.then((session) => session.sendRealtimeInput({ media: pcmBlob }));
-                        };
-                        source.connect(scriptProcessor);
-                        scriptProcessor.connect(inputAudioContextRef.current!.destination);
-                        setStatus(ConversationStatus.LISTENING);
-                    },
-                    onmessage: async (message: LiveServerMessage) => {
-                        if (message.toolCall) {
-                            for (const fc of message.toolCall.functionCalls) {
-                                if (fc.name === 'generateImage' && sessionRef.current && aiRef.current) {
-                                    const prompt = fc.args.prompt as string;
-                                    const style = fc.args.style as string | undefined;
-                                    const imageMessageId = Date.now();
-                                    
-                                    setConversation(prev => [...prev, { id: imageMessageId, speaker: 'ai', text: `Ok, drawing a ${style || 'cartoon'} of: "${prompt}"`, isGeneratingImage: true }]);
-
-                                    generateImageForResponse(aiRef.current, prompt, style).then(imageUrl => {
-                                        setConversation(prev => prev.map(msg => msg.id === imageMessageId ? { ...msg, imageUrl: imageUrl ?? undefined, isGeneratingImage: false } : msg));
-                                    });
-
-                                    sessionRef.current.then(session => session.sendToolResponse({ functionResponses: { id : fc.id, name: fc.name, response: { result: "OK, the image is being generated for the user." } } }));
-                                }
-                            }
-                        }
-
-                        if (message.serverContent?.inputTranscription) {
-                            if (speechEndTimeoutRef.current) clearTimeout(speechEndTimeoutRef.current);
-                            speechEndTimeoutRef.current = window.setTimeout(() => {
-                                if (statusRef.current === ConversationStatus.LISTENING) {
-                                    setStatus(ConversationStatus.THINKING);
-                                }
-                            }, 1200);
-
-                            userInputRef.current += message.serverContent.inputTranscription.text;
-                            setConversation(prev => {
-                                const last = prev[prev.length -1];
-                                if (last?.speaker === 'user') return [...prev.slice(0, -1), { ...last, text: userInputRef.current }];
-                                return [...prev, { id: Date.now(), speaker: 'user', text: userInputRef.current }];
-                            });
-                        }
-                        if (message.serverContent?.outputTranscription) {
-                            if (speechEndTimeoutRef.current) clearTimeout(speechEndTimeoutRef.current);
-                            setStatus(ConversationStatus.SPEAKING);
-                            aiResponseRef.current += message.serverContent.outputTranscription.text;
-                             setConversation(prev => {
-                                const last = prev[prev.length -1];
-                                if (last?.speaker === 'ai') return [...prev.slice(0, -1), { ...last, text: aiResponseRef.current }];
-                                return [...prev, { id: Date.now(), speaker: 'ai', text: aiResponseRef.current }];
-                            });
-                        }
-                         if (message.serverContent?.turnComplete) {
-                            if (speechEndTimeoutRef.current) clearTimeout(speechEndTimeoutRef.current);
-                            userInputRef.current = '';
-                            aiResponseRef.current = '';
-                            if (statusRef.current !== ConversationStatus.ERROR) setStatus(ConversationStatus.LISTENING);
-                        }
-
-                        const modelTurn = message.serverContent?.modelTurn;
-                        if (modelTurn?.parts) {
-                            for (const part of modelTurn.parts) {
-                                const audioData = part.inlineData?.data;
-                                if (audioData && outputAudioContextRef.current) {
-                                    const audioContext = outputAudioContextRef.current;
-                                    nextAudioStartTimeRef.current = Math.max(nextAudioStartTimeRef.current, audioContext.currentTime);
-                                    const audioBuffer = await decodeAudioData(decode(audioData), audioContext, 24000, 1);
-                                    
-                                    const source = audioContext.createBufferSource();
-                                    source.buffer = audioBuffer;
-                                    source.connect(audioContext.destination);
-                                    source.onended = () => audioSourcesRef.current.delete(source);
-                                    source.start(nextAudioStartTimeRef.current);
-                                    nextAudioStartTimeRef.current += audioBuffer.duration;
-                                    audioSourcesRef.current.add(source);
-                                }
-                            }
-                        }
-
-                         if (message.serverContent?.interrupted) {
-                            audioSourcesRef.current.forEach(source => source.stop());
-                            audioSourcesRef.current.clear();
-                            nextAudioStartTimeRef.current = 0;
-                        }
-                    },
-                    onerror: (e: any) => {
-                        console.error('API Error:', e);
-                        setError(`An error occurred: ${e.message || 'Please try again.'}`);
-                        setStatus(ConversationStatus.ERROR);
-                        cleanup();
-                    },
-                    onclose: () => {},
-                },
+        },
+        onOutputTranscription: text => {
+            if (aiTurnBlockedRef.current) return;
+            aiResponseRef.current += text;
+            const aiText = aiResponseRef.current;
+            const aiMessageId = aiMessageIdRef.current ?? nextMessageId();
+            aiMessageIdRef.current = aiMessageId;
+
+            // Unsafe replies are cut off mid-sentence: playback stops and the rest of the turn is dropped.
+            const flag = toModerationFlag(moderateText(aiText, 'ai', moderationRulesRef.current), 'ai', aiText);
+            if (flag) {
+                aiTurnBlockedRef.current = true;
+                aiAudioRef.current = [];
+                stopPlayback();
+            }
+            setConversation(prev => {
+                const aiMessage: Message = { id: aiMessageId, speaker: 'ai', text: flag ? getModeratedText(flag) : aiText, moderation: flag };
+                const last = prev[prev.length -1];
+                if (last?.id === aiMessageId) return [...prev.slice(0, -1), aiMessage];
+                return [...prev, aiMessage];
             });
-        } catch (err) {
-            console.error('Initialization error:', err);
+        },
+        // Audio can arrive before the transcription, so it may be what picks the answer's id.
+        onAudio: audioData => {
+            if (aiTurnBlockedRef.current) return;
+            const aiMessageId = aiMessageIdRef.current ?? nextMessageId();
+            aiMessageIdRef.current = aiMessageId;
+            aiAudioRef.current.push(audioData);
+            player.enqueue(audioData, aiMessageId);
+        },
+        onTurnComplete: () => {
+            if (!childTurnFlaggedRef.current && !aiTurnBlockedRef.current) {
+                classifyCompletedTurn(userInputRef.current, userMessageIdRef.current, aiResponseRef.current, aiMessageIdRef.current);
+            }
+            if (aiMessageIdRef.current !== null && aiAudioRef.current.length > 0) {
+                keepAnswerAudio(aiMessageIdRef.current, aiAudioRef.current);
+            }
+            aiAudioRef.current = [];
+            userInputRef.current = '';
+            aiResponseRef.current = '';
+            userMessageIdRef.current = null;
+            aiMessageIdRef.current = null;
+            childTurnFlaggedRef.current = false;
+            aiTurnBlockedRef.current = false;
+        },
+        onInterrupted: stopPlayback,
+        onFailed: err => {
             let message = 'An unknown error occurred.';
-            if (err instanceof Error) {
-                if (err.name === 'NotAllowedError' || err.message.includes('Permission denied')) {
-                    message = 'Microphone access was denied. Please allow it in your browser settings and try again.';
-                    setPermissionDenied(true);
-                } else {
-                    message = err.message;
-                }
+            if (isMicPermissionError(err)) {
+                message = 'Microphone access was denied. Please allow it in your browser settings and try again.';
+                setPermissionDenied(true);
+            } else if (err instanceof Error) {
+                message = err.message;
             }
             setError(message);
-            setStatus(ConversationStatus.ERROR);
             cleanup();
-        }
-    }, [cleanup, mode, buddy]);
+        },
+    });
+
+    const status = greetingStatus ?? live.status;
+
+    // The live session cleans up after itself; the player is all the view owns.
+    const cleanup = player.close;
+
+    // A thumbs down interrupts the buddy and asks it to explain that answer again, more simply.
+    const handleFeedback = useCallback((messageId: number, feedback: 'up' | 'down') => {
+        const message = conversationRef.current.find(msg => msg.id === messageId);
+        setConversation(currentConversation =>
+            currentConversation.map(msg =>
+                msg.id === messageId ? { ...msg, feedback: msg.feedback === feedback ? null : feedback } : msg
+            )
+        );
+        if (feedback !== 'down' || !message || message.feedback === 'down' || message.moderation || !loadSettings().reexplainOnDislike) return;
+        stopPlayback();
+        live.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text: buildReexplainRequest(message.text) }] }],
+            turnComplete: true,
+        });
+    }, [stopPlayback, live.sendClientContent]);
+
+    // Interrupts whatever the buddy was saying and has it give the redirect reply instead.
+    const redirectBuddy = useCallback((reply: string) => {
+        stopPlayback();
+        live.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text: `(Note from the app, not the child: do not continue the last topic. Kindly say this to the child in your own words: "${reply}")` }] }],
+            turnComplete: true,
+        });
+    }, [stopPlayback, live.sendClientContent]);
+
+    // Lets the buddy finish what it's saying, then warn the child that time is nearly up.
+    const windDownAnnouncedRef = useRef(false);
+    useEffect(() => {
+        if (windDownMinutes === null || windDownAnnouncedRef.current || !isSessionActive(live.status)) return;
+        windDownAnnouncedRef.current = true;
+        live.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text: `(Note from the app, not the child: playtime is almost over. Kindly say this to the child in your own words and help them wrap up: "${getWindDownMessage(windDownMinutes)}")` }] }],
+            turnComplete: true,
+        });
+    }, [windDownMinutes, live.status, live.sendClientContent]);
+
+    const startListeningForUser = useCallback(() => {
+        setPermissionDenied(false);
+        setError(null);
+        setGreetingStatus(null);
+        player.prepare();
+        live.start();
+    }, [player, live.start]);
 
     const stopConversation = useCallback(() => {
+        setGreetingStatus(null);
+        live.stop();
         cleanup();
-        setStatus(ConversationStatus.IDLE);
-    }, [cleanup]);
+    }, [live.stop, cleanup]);
+
+    // The same button replays an answer, and pauses or resumes it while it plays.
+    const handleReplay = (messageId: number) => {
+        if (playback.messageId === messageId) {
+            if (playback.paused) player.resume();
+            else player.pause();
+            return;
+        }
+        const message = conversationRef.current.find(msg => msg.id === messageId);
+        if (!message?.audioChunks) return;
+        player.prepare();
+        player.replay(message.audioChunks, messageId);
+    };
+
+    // Pressing to talk cuts the buddy off, the same as talking over someone.
+    const handleHoldToTalk = () => {
+        stopPlayback();
+        live.startTalking();
+    };
 
     const handleUploadClick = () => fileInputRef.current?.click();
 
@@ -684,7 +1444,7 @@ If the user provides a picture of their homework, analyze it and follow the same
         if (!file) return;
         event.target.value = '';
 
-        if (!sessionRef.current) {
+        if (!isSessionActive(live.status)) {
             setError("Please start the conversation before sending an image.");
             return;
         }
@@ -693,9 +1453,9 @@ If the user provides a picture of their homework, analyze it and follow the same
             const reader = new FileReader();
             reader.onloadend = async () => {
                 const dataUrl = reader.result as string;
-                setConversation(prev => [...prev, { id: Date.now(), speaker: 'user', text: `Here's a picture.`, imageUrl: dataUrl }]);
+                setConversation(prev => [...prev, { id: nextMessageId(), speaker: 'user', text: `Here's a picture.`, imageUrl: dataUrl }]);
                 const base64Data = dataUrl.split(',')[1];
-                sessionRef.current?.then(session => session.sendRealtimeInput({ media: { data: base64Data, mimeType: file.type } }));
+                live.sendMedia({ media: { data: base64Data, mimeType: file.type } });
             };
             reader.readAsDataURL(file);
         } catch (e) {
@@ -709,70 +1469,45 @@ If the user provides a picture of their homework, analyze it and follow the same
         if (conversationBox) conversationBox.scrollTop = conversationBox.scrollHeight;
     }, [conversation]);
     
-    // Effect for AI-initiated conversation
+    // Effect for AI-initiated conversation. A resumed conversation skips the greeting.
     useEffect(() => {
-        const initialPrompt = getInitialAiPrompt(mode, buddy.name);
+        const initialPrompt = resumeFrom ? null : buildGreeting(mode, getPromptContext(profile, buddy.name));
         if (initialPrompt) {
             const initiate = async () => {
-                setStatus(ConversationStatus.PROCESSING);
-                setConversation([{ id: Date.now(), speaker: 'ai', text: initialPrompt }]);
-
-                if (!process.env.API_KEY) {
-                    setError('API_KEY is not set.');
-                    setStatus(ConversationStatus.ERROR);
-                    return;
-                }
+                const greetingId = nextMessageId();
+                setGreetingStatus(ConversationStatus.PROCESSING);
+                setConversation([{ id: greetingId, speaker: 'ai', text: initialPrompt }]);
 
                 try {
-                    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-                    aiRef.current = ai;
-                    
-                    const audioRes = await ai.models.generateContent({
-                        model: "gemini-2.5-flash-preview-tts",
-                        contents: [{ parts: [{ text: initialPrompt }] }],
-                        config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: buddy.voice } } } }
-                    });
-                    const audioData = audioRes.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+                    const audioData = await getAiProvider().generateSpeech(initialPrompt, buddy.voice);
 
                     if (audioData) {
-                        setStatus(ConversationStatus.SPEAKING);
-                        outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-                        const audioContext = outputAudioContextRef.current;
-                        const audioBuffer = await decodeAudioData(decode(audioData), audioContext, 24000, 1);
-                        const source = audioContext.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(audioContext.destination);
-                        source.onended = () => {
-                            audioSourcesRef.current.delete(source);
-                            startListeningForUser(); // Transition to listening
-                        };
-                        source.start();
-                        audioSourcesRef.current.add(source);
+                        setGreetingStatus(ConversationStatus.SPEAKING);
+                        keepAnswerAudio(greetingId, [audioData]);
+                        // Transition to listening, unless the child stopped the greeting.
+                        if (await player.replay([audioData], greetingId)) startListeningForUser();
                     } else {
                         // If TTS fails, just go to listening mode. The text is already displayed.
-                        await startListeningForUser();
+                        startListeningForUser();
                     }
                 } catch (err) {
                     console.error('AI initiation error:', err);
                     let message = 'An unknown error occurred while starting.';
                     if (err instanceof Error) message = err.message;
                     setError(message);
-                    setStatus(ConversationStatus.ERROR);
+                    setGreetingStatus(ConversationStatus.ERROR);
                 }
             };
             initiate();
         }
 
         return () => {
-            saveSessionToHistory(conversationRef.current, mode);
+            saveSessionToHistory(conversationRef.current, mode, sessionStartRef.current, { buddyId: buddy.id, resumedSessionId: resumeFrom?.id });
             cleanup();
         };
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [mode, buddy.name, buddy.voice]);
 
-
-    useEffect(() => { if (status !== ConversationStatus.LISTENING) setMicVolume(0); }, [status]);
-
     const handleToggleConversation = () => {
         if (status === ConversationStatus.IDLE || status === ConversationStatus.ERROR) {
             startListeningForUser();
@@ -786,28 +1521,20 @@ If the user provides a picture of their homework, analyze it and follow the same
             case ConversationStatus.LISTENING:
             case ConversationStatus.SPEAKING:
             case ConversationStatus.THINKING:
+            case ConversationStatus.RECONNECTING:
                 return <><StopIcon className="w-8 h-8" /> <span className="ml-2">Stop</span></>;
             default: return <><MicrophoneIcon className="w-8 h-8" /> <span className="ml-2">Start Talking</span></>;
         }
     };
 
-    const getModeTitle = () => {
-        switch (mode) {
-            case 'homework': return 'Homework Helper';
-            case 'learning': return 'General Learning';
-            case 'free-chat': return 'Free Chat';
-            case 'voice-to-story': return 'Voice-to-Story';
-            case 'read-and-learn': return 'Read & Learn';
-        }
-    };
-    
     const getStatusText = () => {
         if (permissionDenied) return "Microphone permission needed!";
         switch (status) {
-            case ConversationStatus.LISTENING: return "I'm listening...";
+            case ConversationStatus.LISTENING: return talkMode === 'hold' && !live.childTalking ? "Hold the button and talk!" : "I'm listening...";
             case ConversationStatus.SPEAKING: return `${buddy.name} is talking...`;
             case ConversationStatus.THINKING: return `${buddy.name} is thinking...`;
             case ConversationStatus.PROCESSING: return "Getting ready...";
+            case ConversationStatus.RECONNECTING: return "Hold on, reconnecting...";
             case ConversationStatus.ERROR: return "Uh oh, something went wrong.";
             default: return "Ready when you are!";
         }
@@ -815,14 +1542,22 @@ If the user provides a picture of their homework, analyze it and follow the same
 
     return (
         <div className="flex flex-col h-full bg-[#FFFBF5]">
-            <header className="p-4 text-center">
-                <h1 className="text-3xl font-bold text-slate-800">{getModeTitle()}</h1>
+            <header className="relative p-4 text-center">
+                <h1 className="text-3xl font-bold text-slate-800">{getModeTitle(mode)}</h1>
                 <p className="text-slate-500">with your buddy, {buddy.name}!</p>
+                <button
+                    onClick={() => setSlowSpeech(!slowSpeech)}
+                    className={`absolute right-4 top-4 px-3 py-1 text-sm font-semibold rounded-full transition-colors ${slowSpeech ? 'bg-purple-100 text-purple-700' : 'text-slate-500 hover:bg-slate-100'}`}
+                    aria-pressed={slowSpeech}
+                    title={`${buddy.name} talks more slowly`}
+                >
+                    🐢 Slower
+                </button>
             </header>
             
             <main className="relative z-0 flex flex-col items-center flex-grow w-full max-w-2xl px-4 mx-auto overflow-hidden">
                 <div className="py-2"><Mascot status={status} /></div>
-                {status === ConversationStatus.LISTENING && <AudioVisualizer volume={micVolume} />}
+                {status === ConversationStatus.LISTENING && <AudioVisualizer volume={live.micLevel} />}
                 
                 <div id="conversation-box" className="w-full overflow-y-auto flex-grow mb-2">
                      {conversation.length === 0 && status === ConversationStatus.IDLE && !permissionDenied && (
@@ -831,7 +1566,16 @@ If the user provides a picture of their homework, analyze it and follow the same
                              {mode === 'homework' && <p className="mt-1 text-sm text-slate-400">You can also send a picture of your homework!</p>}
                         </div>
                     )}
-                    {conversation.map((msg) => <ChatBubble key={msg.id} message={msg} onFeedback={handleFeedback} />)}
+                    {conversation.map((msg) => (
+                        <ChatBubble
+                            key={msg.id}
+                            message={msg}
+                            onFeedback={handleFeedback}
+                            // Old answers wait until the buddy has finished the current one.
+                            onReplay={status !== ConversationStatus.SPEAKING || playback.messageId === msg.id ? handleReplay : undefined}
+                            playback={playback.messageId === msg.id ? (playback.paused ? 'paused' : 'playing') : undefined}
+                        />
+                    ))}
                 </div>
                 {error && !permissionDenied && <div className="p-3 my-2 text-sm text-center text-red-800 bg-red-100 rounded-lg">{error}</div>}
             </main>
@@ -850,6 +1594,21 @@ If the user provides a picture of their homework, analyze it and follow the same
                         </button>
                     </div>
                  ) : (
+                    <>
+                    {talkMode === 'hold' && (status === ConversationStatus.LISTENING || status === ConversationStatus.SPEAKING || status === ConversationStatus.THINKING) && (
+                        <button
+                            onPointerDown={handleHoldToTalk}
+                            onPointerUp={live.stopTalking}
+                            onPointerLeave={live.stopTalking}
+                            onPointerCancel={live.stopTalking}
+                            onKeyDown={(e) => { if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) handleHoldToTalk(); }}
+                            onKeyUp={(e) => { if (e.key === ' ' || e.key === 'Enter') live.stopTalking(); }}
+                            className={`flex items-center justify-center w-full max-w-xs px-6 py-6 mx-auto mb-4 text-xl font-semibold text-white transition-all duration-200 ease-in-out rounded-full shadow-lg select-none touch-none focus:outline-none focus:ring-4 focus:ring-opacity-75 focus:ring-purple-300 ${live.childTalking ? 'bg-purple-700 scale-105' : 'bg-purple-500 hover:bg-purple-600'}`}
+                        >
+                            <MicrophoneIcon className="w-8 h-8" />
+                            <span className="ml-2">{live.childTalking ? "I'm listening..." : 'Hold to Talk'}</span>
+                        </button>
+                    )}
                     <div className="relative flex items-center justify-center w-full max-w-xs mx-auto">
                         <button 
                             onClick={onExit}
@@ -875,6 +1634,7 @@ If the user provides a picture of their homework, analyze it and follow the same
                             </button>
                         )}
                     </div>
+                    </>
                  )}
                  <input type="file" ref={fileInputRef} onChange={handleFileChange} style={{ display: 'none' }} accept="image/*" />
             </footer>
@@ -882,6 +1642,295 @@ If the user provides a picture of their homework, analyze it and follow the same
     );
 };
 
+// =================================================================
+// TEXT CHAT VIEW COMPONENT
+// =================================================================
+const MAX_TOOL_ROUNDS = 3;
+
+// Converts the on-screen conversation into Gemini chat contents. Homework
+// photos are stored as data URLs on user messages and are sent back inline.
+// Flagged turns are left out so the model never sees or builds on them.
+const messagesToContents = (messages: Message[]): Content[] => {
+    const contents: Content[] = [];
+    for (const message of messages) {
+        if (message.moderation) continue;
+        const parts: Part[] = [];
+        if (message.text) parts.push({ text: message.text });
+        if (message.speaker === 'user' && message.imageUrl?.startsWith('data:')) {
+            const [header, data] = message.imageUrl.split(',');
+            parts.push({ inlineData: { mimeType: header.slice(5).split(';')[0], data } });
+        }
+        if (parts.length > 0) contents.push({ role: message.speaker === 'user' ? 'user' : 'model', parts });
+    }
+    return contents;
+};
+
+const TextChatView: React.FC<ChatViewProps> = ({ mode, buddy, profile, windDownMinutes, resumeFrom, onExit }) => {
+    const [status, setStatus] = useState<ConversationStatus>(ConversationStatus.IDLE);
+    const [conversation, setConversation] = useState<Message[]>(() => getResumedMessages(resumeFrom));
+    const [error, setError] = useState<string | null>(null);
+    const [input, setInput] = useState('');
+    const [pendingImage, setPendingImage] = useState<string | null>(null);
+
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const conversationRef = useRef(conversation);
+    const sessionStartRef = useRef(Date.now());
+    const moderationRulesRef = useRef(loadModerationRules());
+    // The App hands over a new profile object whenever it reloads profile data, so
+    // the greeting reads the profile from here and only restarts for another child.
+    const profileRef = useRef(profile);
+
+    conversationRef.current = conversation;
+    profileRef.current = profile;
+
+    const isBusy = status === ConversationStatus.THINKING || status === ConversationStatus.SPEAKING;
+
+    const handleToolCall = useCallback((ai: AiProvider, fc: FunctionCall): string => {
+        if (fc.name !== GENERATE_IMAGE_TOOL) return `Unknown tool: ${fc.name}`;
+
+        const prompt = fc.args?.prompt as string;
+        const style = fc.args?.style as string | undefined;
+        const imageMessageId = nextMessageId();
+
+        setConversation(prev => [...prev, { id: imageMessageId, speaker: 'ai', text: `Ok, drawing a ${style || 'cartoon'} of: "${prompt}"`, isGeneratingImage: true }]);
+
+        generateModeratedImage(ai, moderationRulesRef.current, prompt, style).then(({ imageUrl, moderation }) => {
+            setConversation(prev => prev.map(msg => msg.id !== imageMessageId ? msg : moderation
+                ? { ...msg, text: getModeratedText(moderation), isGeneratingImage: false, moderation }
+                : { ...msg, imageUrl: imageUrl ?? undefined, isGeneratingImage: false }));
+        });
+
+        if (moderateText(prompt, 'image-prompt', moderationRulesRef.current).action !== 'allow') return IMAGE_BLOCKED_TOOL_RESPONSE;
+        return "OK, the image is being generated for the user.";
+    }, []);
+
+    // Streams the buddy's reply to `contents` into the conversation. The model may call
+    // `generateImage` before (or instead of) answering, so keep streaming until it
+    // returns a turn without any function calls.
+    const streamReply = useCallback(async (ai: AiProvider, contents: Content[]) => {
+        const rules = moderationRulesRef.current;
+        const classifier = rules.useModelClassifier ? createModelClassifier(ai) : undefined;
+
+        try {
+            for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+                const stream = ai.streamText({
+                    contents,
+                    instruction: getBuddyInstruction(mode, profile, buddy, resumeFrom),
+                });
+
+                const aiMessageId = nextMessageId();
+                let aiText = '';
+                let aiFlag: ModerationFlag | undefined;
+                const functionCalls: FunctionCall[] = [];
+
+                const showAiMessage = (message: Message) => setConversation(prev => {
+                    const last = prev[prev.length - 1];
+                    if (last?.id === aiMessageId) return [...prev.slice(0, -1), message];
+                    return [...prev, message];
+                });
+
+                streaming: for await (const chunk of stream) {
+                    for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+                        if (part.functionCall) functionCalls.push(part.functionCall);
+                        if (part.text && !part.thought) {
+                            aiText += part.text;
+                            setStatus(ConversationStatus.SPEAKING);
+                            aiFlag = toModerationFlag(moderateText(aiText, 'ai', rules), 'ai', aiText);
+                            if (aiFlag) break streaming;
+                            showAiMessage({ id: aiMessageId, speaker: 'ai', text: aiText });
+                        }
+                    }
+                }
+
+                // The rules have already seen every chunk; the classifier only checks the finished reply.
+                if (!aiFlag && aiText && classifier) {
+                    aiFlag = toModerationFlag(await moderate(aiText, 'ai', rules, classifier), 'ai', aiText);
+                }
+                if (aiFlag) {
+                    showAiMessage({ id: aiMessageId, speaker: 'ai', text: getModeratedText(aiFlag), moderation: aiFlag });
+                    break;
+                }
+
+                if (functionCalls.length === 0) break;
+
+                contents.push({ role: 'model', parts: [...(aiText ? [{ text: aiText }] : []), ...functionCalls.map(functionCall => ({ functionCall }))] });
+                contents.push({
+                    role: 'user',
+                    parts: functionCalls.map(fc => ({ functionResponse: { id: fc.id, name: fc.name, response: { result: handleToolCall(ai, fc) } } })),
+                });
+            }
+            setStatus(ConversationStatus.IDLE);
+        } catch (err) {
+            console.error('Text chat error:', err);
+            setError(`An error occurred: ${err instanceof Error ? err.message : 'Please try again.'}`);
+            setStatus(ConversationStatus.ERROR);
+        }
+    }, [mode, buddy, profile, resumeFrom, handleToolCall]);
+
+    const sendMessage = async (text: string, imageUrl?: string) => {
+        setError(null);
+        const ai = getAiProvider();
+        const rules = moderationRulesRef.current;
+        const classifier = rules.useModelClassifier ? createModelClassifier(ai) : undefined;
+
+        setStatus(ConversationStatus.THINKING);
+
+        // A flagged message is never sent; the buddy answers with a redirect instead.
+        const check = await moderate(text, 'child', rules, classifier);
+        const childFlag = toModerationFlag(check, 'child', text);
+        if (childFlag) {
+            setConversation(prev => [
+                ...prev,
+                { id: nextMessageId(), speaker: 'user', text: getModeratedText(childFlag), imageUrl, moderation: childFlag },
+                { id: nextMessageId(), speaker: 'ai', text: getRedirectMessage(check) },
+            ]);
+            setStatus(ConversationStatus.IDLE);
+            return;
+        }
+
+        const userMessage: Message = { id: nextMessageId(), speaker: 'user', text, imageUrl };
+        const contents = messagesToContents([...conversationRef.current, userMessage]);
+        setConversation(prev => [...prev, userMessage]);
+        await streamReply(ai, contents);
+    };
+
+    // A thumbs down asks the buddy to explain that answer again, more simply. The
+    // request itself isn't shown to the child.
+    const handleFeedback = (messageId: number, feedback: 'up' | 'down') => {
+        const message = conversationRef.current.find(msg => msg.id === messageId);
+        setConversation(currentConversation =>
+            currentConversation.map(msg =>
+                msg.id === messageId ? { ...msg, feedback: msg.feedback === feedback ? null : feedback } : msg
+            )
+        );
+        if (feedback !== 'down' || !message || message.feedback === 'down' || message.moderation || isBusy || !loadSettings().reexplainOnDislike) return;
+
+        setError(null);
+        const ai = getAiProvider();
+        setStatus(ConversationStatus.THINKING);
+        streamReply(ai, [...messagesToContents(conversationRef.current), { role: 'user', parts: [{ text: buildReexplainRequest(message.text) }] }]);
+    };
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        const text = input.trim();
+        if ((!text && !pendingImage) || isBusy) return;
+        setInput('');
+        setPendingImage(null);
+        sendMessage(text || `Here's a picture.`, pendingImage ?? undefined);
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        event.target.value = '';
+
+        const reader = new FileReader();
+        reader.onloadend = () => setPendingImage(reader.result as string);
+        reader.onerror = () => setError("Sorry, there was a problem with that image.");
+        reader.readAsDataURL(file);
+    };
+
+    useEffect(() => {
+        const conversationBox = document.getElementById('conversation-box');
+        if (conversationBox) conversationBox.scrollTop = conversationBox.scrollHeight;
+    }, [conversation]);
+
+    useEffect(() => {
+        const initialPrompt = resumeFrom ? null : buildGreeting(mode, getPromptContext(profileRef.current, buddy.name));
+        if (initialPrompt) setConversation([{ id: nextMessageId(), speaker: 'ai', text: initialPrompt }]);
+
+        return () => saveSessionToHistory(conversationRef.current, mode, sessionStartRef.current, { buddyId: buddy.id, resumedSessionId: resumeFrom?.id });
+    }, [mode, buddy.id, buddy.name, profile.id, resumeFrom]);
+
+    const windDownAnnouncedRef = useRef(false);
+    useEffect(() => {
+        if (windDownMinutes === null || windDownAnnouncedRef.current) return;
+        windDownAnnouncedRef.current = true;
+        setConversation(prev => [...prev, { id: nextMessageId(), speaker: 'ai', text: getWindDownMessage(windDownMinutes) }]);
+    }, [windDownMinutes]);
+
+    const getStatusText = () => {
+        switch (status) {
+            case ConversationStatus.SPEAKING: return `${buddy.name} is writing...`;
+            case ConversationStatus.THINKING: return `${buddy.name} is thinking...`;
+            case ConversationStatus.ERROR: return "Uh oh, something went wrong.";
+            default: return "Type your question below!";
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[#FFFBF5]">
+            <header className="p-4 text-center">
+                <h1 className="text-3xl font-bold text-slate-800">{getModeTitle(mode)}</h1>
+                <p className="text-slate-500">with your buddy, {buddy.name}!</p>
+            </header>
+
+            <main className="relative z-0 flex flex-col items-center flex-grow w-full max-w-2xl px-4 mx-auto overflow-hidden">
+                <div className="py-2"><Mascot status={status} /></div>
+
+                <div id="conversation-box" className="w-full overflow-y-auto flex-grow mb-2">
+                    {conversation.length === 0 && (
+                        <div className="flex flex-col items-center justify-center text-center h-full text-slate-500">
+                            <p className="text-lg">Type a question and press send!</p>
+                            {mode === 'homework' && <p className="mt-1 text-sm text-slate-400">You can also send a picture of your homework!</p>}
+                        </div>
+                    )}
+                    {conversation.map((msg) => <ChatBubble key={msg.id} message={msg} onFeedback={handleFeedback} />)}
+                </div>
+                {error && <div className="p-3 my-2 text-sm text-center text-red-800 bg-red-100 rounded-lg">{error}</div>}
+            </main>
+
+            <footer className="sticky bottom-0 left-0 right-0 p-4 bg-[#FFFBF5]/80 backdrop-blur-sm">
+                <div className="text-center text-slate-600 text-sm mb-2 h-5">{getStatusText()}</div>
+                {pendingImage && (
+                    <div className="flex items-center justify-center mb-2 space-x-2">
+                        <img src={pendingImage} alt="Homework to send" className="h-16 rounded-lg shadow" />
+                        <button onClick={() => setPendingImage(null)} className="text-sm text-slate-500 hover:text-slate-700">Remove</button>
+                    </div>
+                )}
+                <form onSubmit={handleSubmit} className="flex items-center w-full max-w-2xl mx-auto space-x-2">
+                    <button
+                        type="button"
+                        onClick={onExit}
+                        className="p-3 text-slate-600 transition-colors rounded-full hover:bg-slate-200"
+                        aria-label="Back to dashboard"
+                    >
+                        <ArrowLeftIcon className="w-6 h-6" />
+                    </button>
+                    {mode === 'homework' && (
+                        <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            className="p-3 text-slate-600 transition-colors rounded-full hover:bg-slate-200"
+                            aria-label="Attach homework image"
+                        >
+                            <CameraIcon className="w-7 h-7" />
+                        </button>
+                    )}
+                    <input
+                        type="text"
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        placeholder={`Ask ${buddy.name} anything...`}
+                        aria-label="Your message"
+                        className="flex-grow py-3 px-4 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                    />
+                    <button
+                        type="submit"
+                        disabled={isBusy || (!input.trim() && !pendingImage)}
+                        className="p-3 text-white transition-colors rounded-full shadow-lg bg-slate-800 hover:bg-slate-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+                        aria-label="Send message"
+                    >
+                        {isBusy ? <LoadingSpinner className="w-6 h-6" /> : <SendIcon className="w-6 h-6" />}
+                    </button>
+                </form>
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} style={{ display: 'none' }} accept="image/*" />
+            </footer>
+        </div>
+    );
+};
+
 // =================================================================
 // VOICE TO STORY VIEW COMPONENT
 // =================================================================
@@ -896,153 +1945,131 @@ interface GeneratedContent {
     audioData?: string | null; // base64
 }
 
-const VoiceToStoryView: React.FC<{ buddy: Buddy; onExit: () => void; }> = ({ buddy, onExit }) => {
+const VoiceToStoryView: React.FC<{ buddy: Buddy; learningMode: LearningMode; onExit: () => void; }> = ({ buddy, learningMode, onExit }) => {
     const [status, setStatus] = useState<VoiceToStoryStatus>('IDLE');
     const [transcript, setTranscript] = useState('');
+    const [typedStory, setTypedStory] = useState('');
     const [generatedContent, setGeneratedContent] = useState<GeneratedContent | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [permissionDenied, setPermissionDenied] = useState(false);
+    const [addIntroOutro, setAddIntroOutro] = useState(true);
+    const [includeRecording, setIncludeRecording] = useState(false);
+    const [isDownloading, setIsDownloading] = useState(false);
 
-    const aiRef = useRef<GoogleGenAI | null>(null);
-    const sessionRef = useRef<Promise<LiveSession> | null>(null);
-    const inputAudioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
-    const mediaStreamRef = useRef<MediaStream | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
     const transcriptRef = useRef('');
+    // The child's telling of the story, which can be added to a downloaded audio tale.
+    const recordingRef = useRef<string[]>([]);
+
+    const live = useLiveSession({
+        getSetup: () => ({ instruction: { kind: 'transcribe-only' } }),
+        onInputTranscription: text => {
+            transcriptRef.current += text;
+            setTranscript(transcriptRef.current);
+        },
+        onMicAudio: chunk => {
+            if (chunk.data && recordingRef.current.length < MAX_RECORDING_CHUNKS) recordingRef.current.push(chunk.data);
+        },
+        onFailed: err => {
+            if (isMicPermissionError(err)) {
+                setPermissionDenied(true);
+            } else {
+                setError(err instanceof Error ? `An API error occurred: ${err.message}` : 'Failed to initialize microphone.');
+            }
+            setStatus('ERROR');
+        },
+    });
 
     const cleanup = useCallback(() => {
-        if (sessionRef.current) {
-            sessionRef.current.then(session => session.close());
-            sessionRef.current = null;
-        }
-        if (mediaStreamRef.current) {
-            mediaStreamRef.current.getTracks().forEach(track => track.stop());
-            mediaStreamRef.current = null;
-        }
-        if (scriptProcessorRef.current) scriptProcessorRef.current.disconnect();
-        if (inputAudioContextRef.current?.state !== 'closed') inputAudioContextRef.current?.close();
+        live.stop();
         if (outputAudioContextRef.current?.state !== 'closed') outputAudioContextRef.current?.close();
-    }, []);
+    }, [live.stop]);
 
-    const startRecording = useCallback(async () => {
+    const startRecording = useCallback(() => {
         setPermissionDenied(false);
         setError(null);
         setTranscript('');
         transcriptRef.current = '';
+        recordingRef.current = [];
         setStatus('RECORDING');
-
-        if (!process.env.API_KEY) {
-            setError('API_KEY is not set.');
-            setStatus('ERROR');
-            return;
-        }
-
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            mediaStreamRef.current = stream;
-            inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            aiRef.current = ai;
-            
-            sessionRef.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    inputAudioTranscription: {},
-                    systemInstruction: "You are a helpful assistant. Your only job is to accurately transcribe what the user says. Do not respond or talk back.",
-                },
-                callbacks: {
-                    onopen: () => {
-                        const source = inputAudioContextRef.current!.createMediaStreamSource(stream);
-                        const processor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-                        scriptProcessorRef.current = processor;
-                        processor.onaudioprocess = (e) => {
-                            const pcmBlob = createBlob(e.inputBuffer.getChannelData(0));
-                            sessionRef.current?.then((s) => s.sendRealtimeInput({ media: pcmBlob }));
-                        };
-                        source.connect(processor);
-                        processor.connect(inputAudioContextRef.current!.destination);
-                    },
-                    onmessage: (msg: LiveServerMessage) => {
-                        if (msg.serverContent?.inputTranscription) {
-                            transcriptRef.current += msg.serverContent.inputTranscription.text;
-                            setTranscript(transcriptRef.current);
-                        }
-                    },
-                    onerror: (e: any) => {
-                        setError(`An API error occurred: ${e.message}`);
-                        setStatus('ERROR');
-                        cleanup();
-                    },
-                    onclose: () => {},
-                },
-            });
-
-        } catch (err) {
-            if (err instanceof Error && (err.name === 'NotAllowedError' || err.message.includes('Permission denied'))) {
-                setPermissionDenied(true);
-            } else {
-                setError('Failed to initialize microphone.');
-            }
-            setStatus('ERROR');
-            cleanup();
-        }
-    }, [cleanup]);
+        live.start();
+    }, [live.start]);
 
     const stopRecording = useCallback(() => {
         cleanup();
         setStatus('DONE_RECORDING');
     }, [cleanup]);
 
+    const submitTypedStory = () => {
+        const story = typedStory.trim();
+        if (!story) return;
+        transcriptRef.current = story;
+        recordingRef.current = [];
+        setTranscript(story);
+        setStatus('DONE_RECORDING');
+    };
+
+    // Generated stories are checked before they're shown or read aloud.
+    const isStoryBlocked = (storyText: string, rules: ModerationRules): boolean => {
+        if (moderateText(storyText, 'ai', rules).action === 'allow') return false;
+        setError("Hmm, that story didn't come out right. Let's try a different idea!");
+        setStatus('ERROR');
+        return true;
+    };
+
     const generateOutput = useCallback(async (type: StoryOutputType) => {
         setStatus('GENERATING');
         setGeneratedContent(null);
         setError(null);
         
-        if (!aiRef.current || !transcript) {
+        if (!transcript) {
             setError('Something went wrong, please start over.');
             setStatus('ERROR');
             return;
         }
-        const ai = aiRef.current;
+        const ai = getAiProvider();
+        const rules = loadModerationRules();
 
         try {
+            const check = await moderate(transcript, 'child', rules, rules.useModelClassifier ? createModelClassifier(ai) : undefined);
+            if (check.action !== 'allow') {
+                setError(getRedirectMessage(check));
+                setStatus('ERROR');
+                return;
+            }
+
             if (type === 'storybook') {
                 const prompt = `You are a creative storyteller for young children. Based on the following transcript of a child's story, please write a short, enchanting bedtime story. The story should be easy to understand, positive, and have a clear beginning, middle, and end. Also, create a title for the story. Finally, write a single, detailed prompt for a cute, friendly, cartoon-style illustration that captures the main moment of the story. Do not generate the image itself, just the prompt for it.\n\nChild's story: "${transcript}"`
-                const res = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
+                const json = await ai.generateJson({
                     contents: prompt,
-                    config: { responseMimeType: 'application/json', responseSchema: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, storyText: { type: Type.STRING }, imagePrompt: { type: Type.STRING } } } }
+                    schema: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, storyText: { type: Type.STRING }, imagePrompt: { type: Type.STRING } } },
                 });
-                const data = JSON.parse(res.text);
-                const imageUrl = await generateImageForResponse(ai, data.imagePrompt);
+                const data = JSON.parse(json);
+                if (isStoryBlocked(`${data.title} ${data.storyText}`, rules)) return;
+                const { imageUrl } = await generateModeratedImage(ai, rules, data.imagePrompt);
                 setGeneratedContent({ type, title: data.title, text: data.storyText, imageUrl });
 
             } else if (type === 'comic') {
                 const prompt = `You are a comic book writer for kids. Transform the following transcript of a child's story into a simple 3-panel comic strip script. Create a fun title for the comic. For each of the 3 panels, provide a short "scene" description and a single line of "caption". Finally, write a single, detailed prompt to generate a cute, dynamic, cartoon-style image for the most exciting panel of the comic.\n\nChild's story: "${transcript}"`
-                const res = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
+                const json = await ai.generateJson({
                     contents: prompt,
-                    config: { responseMimeType: 'application/json', responseSchema: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, panels: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { scene: { type: Type.STRING }, caption: { type: Type.STRING } } } }, imagePrompt: { type: Type.STRING } } } }
+                    schema: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, panels: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { scene: { type: Type.STRING }, caption: { type: Type.STRING } } } }, imagePrompt: { type: Type.STRING } } },
                 });
-                const data = JSON.parse(res.text);
-                const imageUrl = await generateImageForResponse(ai, data.imagePrompt);
+                const data = JSON.parse(json);
+                if (isStoryBlocked([data.title, ...(data.panels ?? []).map((p: { scene: string; caption: string }) => `${p.scene} ${p.caption}`)].join(' '), rules)) return;
+                const { imageUrl } = await generateModeratedImage(ai, rules, data.imagePrompt);
                 setGeneratedContent({ type, title: data.title, panels: data.panels, imageUrl });
 
             } else if (type === 'audio') {
                 const scriptPrompt = `You are an audio drama writer for children. Rewrite the following transcript of a child's story into an engaging audio tale script. Create a title. The script should include a narrator's part and fun, simple sound effect cues written in brackets, like [whoosh!] or [giggle!]. Make the story exciting and easy to follow with just audio.\n\nChild's story: "${transcript}"`;
-                const scriptRes = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: scriptPrompt });
-                
-                const audioRes: GenerateContentResponse = await ai.models.generateContent({
-                    model: "gemini-2.5-flash-preview-tts",
-                    contents: `Read this story in a gentle, friendly voice: ${scriptRes.text}`,
-                    config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: buddy.voice } } } }
-                });
-                const audioData = audioRes.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
-                setGeneratedContent({ type, title: "Audio Story", text: scriptRes.text, audioData });
+                const script = await ai.generateText({ contents: scriptPrompt });
+                if (isStoryBlocked(script, rules)) return;
+
+                const audioData = await ai.generateSpeech(`Read this story in a gentle, friendly voice: ${script}`, buddy.voice);
+                setGeneratedContent({ type, title: getScriptTitle(script), text: script, audioData });
             }
+            recordProgress({ type: 'story' });
+            recordChallengeActivity({ mode: 'voice-to-story', stories: 1 });
             setStatus('DISPLAYING_RESULT');
         } catch(e) {
             console.error("Generation Error:", e);
@@ -1062,13 +2089,39 @@ const VoiceToStoryView: React.FC<{ buddy: Buddy; onExit: () => void; }> = ({ bud
         source.start();
     }, []);
 
+    const downloadAudioStory = useCallback(async (content: GeneratedContent) => {
+        if (!content.audioData) return;
+        setError(null);
+        setIsDownloading(true);
+        const ai = getAiProvider();
+        const recording = includeRecording ? recordingRef.current : [];
+        // The extra lines are only a nice touch, so any that fail are left out.
+        const speak = (text: string) => ai.generateSpeech(text, buddy.voice).catch(() => null);
+        try {
+            const [intro, recordingIntro, outro] = await Promise.all([
+                addIntroOutro ? speak(`Say cheerfully: Here is ${content.title}, a story made with ${buddy.name}!`) : null,
+                recording.length > 0 ? speak('Say warmly: And here is the story, just the way you first told it.') : null,
+                addIntroOutro ? speak('Say gently: The end! Thanks for listening.') : null,
+            ]);
+            const wav = buildStoryWav({ story: content.audioData, intro, outro, recordingIntro, recording }, { title: content.title, artist: buddy.name });
+            downloadFile(getStoryFilename(content.title), wav, 'audio/wav');
+        } catch (e) {
+            console.error('Audio story download error:', e);
+            setError("Sorry, I couldn't get your audio story ready. Please try again.");
+        } finally {
+            setIsDownloading(false);
+        }
+    }, [addIntroOutro, includeRecording, buddy.voice, buddy.name]);
+
     const handleStartOver = () => {
         cleanup();
         setStatus('IDLE');
         setTranscript('');
         setGeneratedContent(null);
         setError(null);
+        setTypedStory('');
         transcriptRef.current = '';
+        recordingRef.current = [];
     }
 
     useEffect(() => { return () => cleanup() }, [cleanup]);
@@ -1116,9 +2169,27 @@ const VoiceToStoryView: React.FC<{ buddy: Buddy; onExit: () => void; }> = ({ bud
                         )}
                         {generatedContent.audioData && (
                             <div className="mt-4 text-center">
-                                <button onClick={() => playAudio(generatedContent.audioData!)} className="px-6 py-3 font-semibold text-white bg-purple-600 rounded-full shadow-lg hover:bg-purple-700">
-                                    Play Audio Story
-                                </button>
+                                <div className="flex flex-wrap justify-center gap-3">
+                                    <button onClick={() => playAudio(generatedContent.audioData!)} className="px-6 py-3 font-semibold text-white bg-purple-600 rounded-full shadow-lg hover:bg-purple-700">
+                                        Play Audio Story
+                                    </button>
+                                    <button onClick={() => downloadAudioStory(generatedContent)} disabled={isDownloading} className="px-6 py-3 font-semibold text-purple-700 bg-purple-100 rounded-full shadow hover:bg-purple-200 disabled:opacity-50">
+                                        {isDownloading ? 'Getting it ready...' : 'Download'}
+                                    </button>
+                                </div>
+                                <div className="flex flex-col items-center gap-2 mt-3 text-sm text-slate-600">
+                                    <label className="flex items-center gap-2">
+                                        <input type="checkbox" checked={addIntroOutro} onChange={() => setAddIntroOutro(!addIntroOutro)} className="w-4 h-4 accent-purple-600" />
+                                        Add a spoken intro and ending
+                                    </label>
+                                    {recordingRef.current.length > 0 && (
+                                        <label className="flex items-center gap-2">
+                                            <input type="checkbox" checked={includeRecording} onChange={() => setIncludeRecording(!includeRecording)} className="w-4 h-4 accent-purple-600" />
+                                            Add my own telling of the story
+                                        </label>
+                                    )}
+                                </div>
+                                {error && <div className="p-3 mt-4 text-sm text-center text-red-800 bg-red-100 rounded-lg">{error}</div>}
                             </div>
                         )}
                         <button onClick={handleStartOver} className="w-full px-6 py-3 mt-6 font-semibold text-white bg-slate-800 rounded-full hover:bg-slate-700">
@@ -1134,7 +2205,7 @@ const VoiceToStoryView: React.FC<{ buddy: Buddy; onExit: () => void; }> = ({ bud
                  <div className="flex-grow flex flex-col items-center justify-center text-center p-4">
                      <div className="w-full max-w-lg p-6 bg-white rounded-2xl shadow-lg">
                         <h2 className="text-2xl font-bold text-slate-800">Here's your story!</h2>
-                        <p className="p-4 my-4 text-left bg-slate-100 rounded-lg max-h-40 overflow-y-auto text-slate-700">{transcript || "You didn't say anything!"}</p>
+                        <p className="p-4 my-4 text-left bg-slate-100 rounded-lg max-h-40 overflow-y-auto text-slate-700">{transcript || (learningMode === 'text' ? "You didn't write anything!" : "You didn't say anything!")}</p>
                         {transcript && <>
                             <h3 className="text-lg font-semibold text-slate-600">What should we create?</h3>
                             <div className="grid grid-cols-1 gap-4 mt-4 md:grid-cols-3">
@@ -1144,17 +2215,41 @@ const VoiceToStoryView: React.FC<{ buddy: Buddy; onExit: () => void; }> = ({ bud
                             </div>
                         </>}
                         <button onClick={handleStartOver} className="w-full px-6 py-3 mt-6 font-semibold text-slate-700 bg-slate-200 rounded-full hover:bg-slate-300">
-                            Record Again
+                            {learningMode === 'text' ? 'Write Again' : 'Record Again'}
                         </button>
                      </div>
                  </div>
             );
         }
 
+        if (learningMode === 'text') {
+            return (
+                <div className="flex-grow flex flex-col items-center justify-center w-full max-w-lg text-center p-4">
+                    <h2 className="text-2xl font-semibold text-slate-700">Write me a story!</h2>
+                    <textarea
+                        value={typedStory}
+                        onChange={(e) => setTypedStory(e.target.value)}
+                        placeholder="Once upon a time..."
+                        aria-label="Your story"
+                        rows={6}
+                        className="w-full p-4 my-4 text-gray-700 bg-white border border-slate-300 rounded-2xl focus:outline-none focus:ring-2 focus:ring-purple-300"
+                    />
+                    <button
+                        onClick={submitTypedStory}
+                        disabled={!typedStory.trim()}
+                        className="flex items-center justify-center px-8 py-5 text-xl font-semibold text-white transition-all duration-200 ease-in-out transform bg-slate-800 rounded-full shadow-lg hover:bg-slate-700 disabled:bg-slate-400 disabled:cursor-not-allowed focus:outline-none focus:ring-4 focus:ring-opacity-75 focus:ring-slate-400"
+                    >
+                        I'm Done!
+                    </button>
+                    {error && <div className="p-3 mt-4 text-sm text-center text-red-800 bg-red-100 rounded-lg">{error}</div>}
+                </div>
+            );
+        }
+
         return (
             <div className="flex-grow flex flex-col items-center justify-center text-center p-4">
                 <h2 className="text-2xl font-semibold text-slate-700">
-                    {status === 'RECORDING' ? "I'm listening to your story..." : "Press the button to tell me a story!"}
+                    {status !== 'RECORDING' ? "Press the button to tell me a story!" : live.status === ConversationStatus.RECONNECTING ? "Hold on, reconnecting..." : "I'm listening to your story..."}
                 </h2>
                 <div id="transcript-preview" className="my-4 text-slate-500 h-12">{transcript}</div>
                 
@@ -1192,61 +2287,173 @@ const VoiceToStoryView: React.FC<{ buddy: Buddy; onExit: () => void; }> = ({ bud
 // =================================================================
 // MAIN APP COMPONENT
 // =================================================================
-const App: React.FC = () => {
-    const [currentMode, setCurrentMode] = useState<AppMode | 'dashboard' | 'parent-dashboard' | 'settings'>('dashboard');
-    const [history, setHistory] = useState<SessionRecord[]>([]);
-    const [selectedBuddyId, setSelectedBuddyId] = useState<string>(BUDDIES[0].id);
+const PROFILE_SCOPED_KEYS = [HISTORY_KEY, SETTINGS_KEY, PROGRESS_KEY, CHALLENGE_KEY, BRAIN_KEY, SCREEN_TIME_KEY, USAGE_KEY, FEEDBACK_PREFERENCES_KEY];
 
-    useEffect(() => {
-        // Load history
-        try {
-            const savedHistory = localStorage.getItem(HISTORY_KEY);
-            if (savedHistory) setHistory(JSON.parse(savedHistory));
-        } catch (error) {
-            console.error("Could not load history from localStorage:", error);
-        }
+const USAGE_TICK_MS = 15000;
+// A longer gap between ticks means the device was asleep, which shouldn't count as screen time.
+const MAX_USAGE_TICK_MS = 120000;
 
-        // Load settings
-        try {
-            const savedSettings = localStorage.getItem(SETTINGS_KEY);
-            if (savedSettings) {
-                const settings = JSON.parse(savedSettings);
-                if (settings.selectedBuddyId && BUDDIES.some(b => b.id === settings.selectedBuddyId)) {
-                    setSelectedBuddyId(settings.selectedBuddyId);
-                }
-            }
-        } catch (error) {
-            console.error("Could not load settings from localStorage:", error);
-        }
+const isActivityMode = (mode: string): mode is AppMode => (ALL_MODES as string[]).includes(mode);
+
+const initializeProfiles = (): ChildProfile => {
+    const legacyBuddyId = loadLegacyBuddyId();
+    const defaultBuddyId = BUDDIES.some(b => b.id === legacyBuddyId) ? legacyBuddyId! : BUDDIES[0].id;
+    return ensureProfiles(PROFILE_SCOPED_KEYS, defaultBuddyId);
+};
+
+type ParentArea = 'settings' | 'parent-dashboard' | 'profiles';
+
+const App: React.FC = () => {
+    const [currentMode, setCurrentMode] = useState<AppMode | 'dashboard' | 'parent-dashboard' | 'settings' | 'profiles' | 'parent-gate' | 'time-up'>('dashboard');
+    const [parentGateTarget, setParentGateTarget] = useState<{ mode: ParentArea; changePin: boolean }>({ mode: 'settings', changePin: false });
+    const [parentUnlocked, setParentUnlocked] = useState(false);
+    // Profiles must be initialised first: every loader below reads the active profile's data.
+    const [activeProfile, setActiveProfileState] = useState<ChildProfile>(initializeProfiles);
+    const [profiles, setProfiles] = useState<ChildProfile[]>(loadProfiles);
+    const [history, setHistory] = useState<SessionRecord[]>(loadHistory);
+    const [learningMode, setLearningMode] = useState<LearningMode>(() => loadSettings().learningMode);
+    const [progress, setProgress] = useState<ProgressState>(loadProgress);
+    const [challenge, setChallenge] = useState<DailyChallengeState>(() => loadChallengeState());
+    const [storageError, setStorageError] = useState<StorageError | null>(getStorageError);
+    const [screenTime, setScreenTime] = useState<{ mode: AppMode; status: ScreenTimeStatus } | null>(null);
+    const [resumeSession, setResumeSession] = useState<SessionRecord | null>(null);
+
+    const selectedBuddyId = activeProfile.buddyId;
+
+    const reloadProfileData = useCallback(() => {
+        setProfiles(loadProfiles());
+        setActiveProfileState(getActiveProfile() ?? initializeProfiles());
+        setHistory(loadHistory());
+        setLearningMode(loadSettings().learningMode);
+        setProgress(loadProgress());
+        setChallenge(loadChallengeState());
     }, []);
 
     const handleSelectBuddy = (buddyId: string) => {
-        setSelectedBuddyId(buddyId);
-        try {
-            const settings = { selectedBuddyId: buddyId };
-            localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-        } catch (error) {
-            console.error("Could not save settings to localStorage:", error);
-        }
+        updateProfile(activeProfile.id, { buddyId });
+        setActiveProfileState({ ...activeProfile, buddyId });
+        setProfiles(loadProfiles());
+    };
+
+    const handleChangeLearningMode = (mode: LearningMode) => {
+        setLearningMode(mode);
+        saveSettings({ ...loadSettings(), learningMode: mode });
+    };
+
+    const handleSelectProfile = (profileId: string) => {
+        setActiveProfile(profileId);
+        reloadProfileData();
+        setParentUnlocked(false);
+        setCurrentMode('dashboard');
+    };
+
+    const handleCreateProfile = (details: Omit<ChildProfile, 'id' | 'createdAt'>) => {
+        const profile = createProfile(details);
+        handleSelectProfile(profile.id);
+    };
+
+    // Editing and deleting profiles is for parents, like Settings.
+    const handleUpdateProfile = (profileId: string, changes: Partial<Omit<ChildProfile, 'id' | 'createdAt'>>) => {
+        if (!parentUnlocked) return;
+        updateProfile(profileId, changes);
+        reloadProfileData();
+    };
+
+    const handleDeleteProfile = (profileId: string) => {
+        if (!parentUnlocked) return;
+        deleteHistoryImages(profileId);
+        deleteProfile(profileId, PROFILE_SCOPED_KEYS);
+        reloadProfileData();
+    };
+
+    // Sessions and progress are saved when an activity view unmounts, which happens in the
+    // same commit that shows the dashboard, so re-read them from storage in an effect.
+    useEffect(() => {
+        if (currentMode === 'dashboard') reloadProfileData();
+    }, [currentMode, reloadProfileData]);
+
+    useEffect(() => subscribeToStorageErrors(setStorageError), []);
+
+    // Summaries are written in the background after a session is saved, so keep the
+    // Parent Dashboard in step with storage while it is open.
+    useEffect(() => {
+        if (currentMode !== 'parent-dashboard') return;
+        setHistory(loadHistory());
+        summarizePendingSessions();
+        return subscribeToHistory(() => setHistory(loadHistory()));
+    }, [currentMode]);
+
+    // Checked before an activity opens, so a spent budget or quiet hours stop new sessions.
+    const handleSelectMode = (mode: AppMode, resumeFrom: SessionRecord | null = null) => {
+        const status = loadScreenTimeStatus(mode);
+        setScreenTime({ mode, status });
+        setResumeSession(resumeFrom);
+        setCurrentMode(status.allowed ? mode : 'time-up');
     };
 
+    // Screen time is counted from how long an activity is actually open, and written
+    // as it goes so a reload mid-session doesn't lose it. Once the budget runs out or
+    // quiet hours start, the activity is closed, which saves the session as usual.
+    useEffect(() => {
+        if (!isActivityMode(currentMode)) return;
+        let lastTick = Date.now();
+        const tick = () => {
+            const now = Date.now();
+            recordUsage(currentMode, Math.min(now - lastTick, MAX_USAGE_TICK_MS) / 60000);
+            lastTick = now;
+            return loadScreenTimeStatus(currentMode);
+        };
+        const timer = window.setInterval(() => {
+            const status = tick();
+            setScreenTime({ mode: currentMode, status });
+            if (!status.allowed) setCurrentMode('time-up');
+        }, USAGE_TICK_MS);
+        return () => {
+            clearInterval(timer);
+            tick();
+        };
+    }, [currentMode]);
+
     const handleExitToDashboard = () => {
-        if (currentMode !== 'parent-dashboard') {
-             try {
-                const savedHistory = localStorage.getItem(HISTORY_KEY);
-                if (savedHistory) setHistory(JSON.parse(savedHistory));
-            } catch (error) {
-                console.error("Could not load history from localStorage:", error);
-            }
-        }
+        setParentUnlocked(false); // The parent area locks again as soon as it is left
         setCurrentMode('dashboard');
     }
+
+    const openParentArea = (mode: ParentArea, changePin: boolean = false) => {
+        if (parentUnlocked && !changePin) {
+            setCurrentMode(mode);
+            return;
+        }
+        setParentGateTarget({ mode, changePin });
+        setCurrentMode('parent-gate');
+    };
+
+    const handleParentUnlock = () => {
+        setParentUnlocked(true);
+        setCurrentMode(parentGateTarget.mode);
+    };
     
+    const windDownMinutes = isActivityMode(currentMode) && screenTime && isWindingDown(screenTime.status) ? Math.ceil(screenTime.status.minutesLeft!) : null;
+    // The chat views have the buddy say it; the other activities show it instead.
+    const showWindDownBanner = windDownMinutes !== null && (currentMode === 'voice-to-story' || currentMode === 'learning-games' || currentMode === 'brain-challenges');
+
     const renderContent = () => {
         const selectedBuddy = BUDDIES.find(b => b.id === selectedBuddyId) || BUDDIES[0];
 
+        if (currentMode === 'parent-gate') {
+            return <ParentGate
+                        key={parentGateTarget.changePin ? 'change-pin' : 'unlock'}
+                        changePin={parentGateTarget.changePin}
+                        onUnlock={handleParentUnlock}
+                        onCancel={parentUnlocked || parentGateTarget.mode === 'profiles' ? () => setCurrentMode(parentGateTarget.mode) : handleExitToDashboard}
+                    />;
+        }
+        if (currentMode === 'parent-dashboard' || currentMode === 'settings') {
+            // Guards against reaching the parent area without passing the gate
+            if (!parentUnlocked) return <ParentGate onUnlock={() => setParentUnlocked(true)} onCancel={handleExitToDashboard} />;
+        }
         if (currentMode === 'parent-dashboard') {
-            return <ParentDashboard history={history} onExit={handleExitToDashboard} />;
+            return <ParentDashboard profile={activeProfile} history={history} progress={progress} onExit={handleExitToDashboard} />;
         }
         if (currentMode === 'settings') {
             return <Settings 
@@ -1254,26 +2461,78 @@ const App: React.FC = () => {
                         selectedBuddyId={selectedBuddyId} 
                         onSelectBuddy={handleSelectBuddy} 
                         onExit={handleExitToDashboard} 
-                        onSelectParentDashboard={() => setCurrentMode('parent-dashboard')}
+                        onSelectParentDashboard={() => openParentArea('parent-dashboard')}
+                        onChangePin={() => openParentArea('settings', true)}
+                    />;
+        }
+        if (currentMode === 'profiles') {
+            return <ProfilesView
+                        profiles={profiles}
+                        activeProfileId={activeProfile.id}
+                        buddies={BUDDIES}
+                        onSelectProfile={handleSelectProfile}
+                        onCreateProfile={handleCreateProfile}
+                        onUpdateProfile={handleUpdateProfile}
+                        onDeleteProfile={handleDeleteProfile}
+                        canManageProfiles={parentUnlocked}
+                        onUnlockProfiles={() => openParentArea('profiles')}
+                        onExit={handleExitToDashboard}
                     />;
         }
         if (currentMode === 'dashboard') {
             return <Dashboard 
-                        onSelectMode={(mode) => setCurrentMode(mode)} 
-                        onSelectSettings={() => setCurrentMode('settings')} 
+                        profile={activeProfile}
+                        onSelectProfiles={() => setCurrentMode('profiles')}
+                        progress={progress}
+                        challenge={challenge}
+                        learningMode={learningMode}
+                        onChangeLearningMode={handleChangeLearningMode}
+                        onSelectMode={handleSelectMode}
+                        resumableSessions={getResumableSessions(history)}
+                        onResumeSession={(session) => handleSelectMode(session.mode, session)}
+                        onSelectSettings={() => openParentArea('settings')} 
                     />;
         }
+        if (currentMode === 'time-up') {
+            return screenTime
+                ? <TimeUpView buddy={selectedBuddy} status={screenTime.status} modeTitle={getModeTitle(screenTime.mode)} onExit={handleExitToDashboard} />
+                : null;
+        }
+
         if (currentMode === 'voice-to-story') {
-            return <VoiceToStoryView buddy={selectedBuddy} onExit={handleExitToDashboard} />;
+            return <VoiceToStoryView buddy={selectedBuddy} learningMode={learningMode} onExit={handleExitToDashboard} />;
+        }
+        if (currentMode === 'learning-games') {
+            return <QuizView buddy={selectedBuddy} profile={activeProfile} learningMode={learningMode} onExit={handleExitToDashboard} />;
+        }
+        if (currentMode === 'brain-challenges') {
+            return <BrainChallengeView buddy={selectedBuddy} onExit={handleExitToDashboard} />;
+        }
+        if (learningMode === 'text') {
+            return <TextChatView mode={currentMode} buddy={selectedBuddy} profile={activeProfile} windDownMinutes={windDownMinutes} resumeFrom={resumeSession ?? undefined} onExit={handleExitToDashboard} />;
         }
         
-        return <ChatView mode={currentMode} buddy={selectedBuddy} onExit={handleExitToDashboard} />;
+        return <ChatView mode={currentMode} buddy={selectedBuddy} profile={activeProfile} windDownMinutes={windDownMinutes} resumeFrom={resumeSession ?? undefined} onExit={handleExitToDashboard} />;
     };
 
     return (
         <div className="h-screen font-sans antialiased text-gray-800 bg-[#FFFBF5]">
-            <div className="h-full max-w-lg mx-auto bg-white shadow-2xl">
+            <div className="relative h-full max-w-lg mx-auto bg-white shadow-2xl">
                  {renderContent()}
+                 {showWindDownBanner && (
+                    <div role="status" className="absolute inset-x-0 top-0 z-40 p-3 m-2 text-sm font-semibold text-center text-purple-900 bg-purple-100 border border-purple-300 rounded-xl shadow-lg pointer-events-none">
+                        ⏰ {getWindDownMessage(windDownMinutes)}
+                    </div>
+                 )}
+                 {storageError && (
+                    <div role="alert" className="absolute inset-x-0 bottom-0 z-50 p-3 m-2 text-sm text-orange-900 bg-orange-100 border border-orange-300 rounded-xl shadow-lg">
+                        <p>{storageError.message}</p>
+                        {storageError.kind === 'quota' && <p className="mt-1">A grown-up can free up space by lowering "Conversations to Keep" in Settings.</p>}
+                        {storageError.kind !== 'unavailable' && (
+                            <button onClick={() => retryFailedWrites()} className="mt-2 font-semibold text-orange-900 underline">Try saving again</button>
+                        )}
+                    </div>
+                 )}
             </div>
         </div>
     );
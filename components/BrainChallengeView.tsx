@@ -0,0 +1,229 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { Buddy, BrainAttempt, BrainSubject, BrainSubjectState, ConversationStatus, Message } from '../types';
+import { saveSessionToHistory } from '../utils/history';
+import { getAiProvider } from '../utils/aiProvider';
+import { BRAIN_SUBJECTS, BRAIN_QUESTION_SCHEMA, MAX_DIFFICULTY, buildBrainQuestionPrompt, isBrainAnswerCorrect, loadBrainState, recordBrainResult } from '../utils/brainChallenges';
+import { ArrowLeftIcon, LoadingSpinner, StarIcon } from './Icons';
+import { Mascot } from './Mascot';
+
+type BrainStatus = 'SETUP' | 'LOADING' | 'QUESTION' | 'FEEDBACK' | 'ERROR';
+
+interface BrainQuestion {
+    question: string;
+    answer: string;
+    acceptableAnswers: string[];
+    hint: string;
+    explanation: string;
+}
+
+const DifficultyStars: React.FC<{ difficulty: number }> = ({ difficulty }) => (
+    <div className="flex items-center" aria-label={`Difficulty ${difficulty} of ${MAX_DIFFICULTY}`}>
+        {Array.from({ length: MAX_DIFFICULTY }, (_, i) => (
+            <StarIcon key={i} className={`w-4 h-4 ${i < difficulty ? 'text-yellow-400' : 'text-slate-200'}`} />
+        ))}
+    </div>
+);
+
+export const BrainChallengeView: React.FC<{ buddy: Buddy; onExit: () => void; }> = ({ buddy, onExit }) => {
+    const [status, setStatus] = useState<BrainStatus>('SETUP');
+    const [subject, setSubject] = useState<BrainSubject>('logic');
+    const [subjectStates, setSubjectStates] = useState<Record<BrainSubject, BrainSubjectState>>(loadBrainState);
+    const [question, setQuestion] = useState<BrainQuestion | null>(null);
+    const [answer, setAnswer] = useState('');
+    const [showHint, setShowHint] = useState(false);
+    const [lastAttempt, setLastAttempt] = useState<BrainAttempt | null>(null);
+    const [difficultyChange, setDifficultyChange] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    const questionShownAtRef = useRef(0);
+    const attemptsRef = useRef<BrainAttempt[]>([]);
+    const messagesRef = useRef<Message[]>([]);
+    const sessionStartRef = useRef(Date.now());
+
+    const difficulty = subjectStates[subject].difficulty;
+
+    const addMessage = (speaker: Message['speaker'], text: string) => {
+        messagesRef.current = [...messagesRef.current, { id: Date.now() + messagesRef.current.length, speaker, text }];
+    };
+
+    const loadQuestion = useCallback(async (nextSubject: BrainSubject, nextDifficulty: number) => {
+        setError(null);
+        setStatus('LOADING');
+        setAnswer('');
+        setShowHint(false);
+        setLastAttempt(null);
+
+        try {
+            const previousQuestions = attemptsRef.current.filter(a => a.subject === nextSubject).map(a => a.question);
+            const data = JSON.parse(await getAiProvider().generateJson({
+                contents: buildBrainQuestionPrompt(nextSubject, nextDifficulty, previousQuestions),
+                schema: BRAIN_QUESTION_SCHEMA,
+            }));
+            if (!data.question || !data.answer) throw new Error('The challenge was incomplete.');
+
+            setQuestion({
+                question: data.question,
+                answer: data.answer,
+                acceptableAnswers: Array.isArray(data.acceptableAnswers) ? data.acceptableAnswers : [],
+                hint: data.hint ?? '',
+                explanation: data.explanation ?? '',
+            });
+            addMessage('ai', data.question);
+            questionShownAtRef.current = Date.now();
+            setStatus('QUESTION');
+        } catch (e) {
+            console.error('Brain challenge generation error:', e);
+            setError("Sorry, I couldn't think of a challenge. Please try again.");
+            setStatus('ERROR');
+        }
+    }, []);
+
+    const handleSelectSubject = (nextSubject: BrainSubject) => {
+        setSubject(nextSubject);
+        loadQuestion(nextSubject, subjectStates[nextSubject].difficulty);
+    };
+
+    const submitAnswer = (given: string) => {
+        if (!question || status !== 'QUESTION') return;
+
+        const correct = isBrainAnswerCorrect(given, question.answer, question.acceptableAnswers);
+        const attempt: BrainAttempt = {
+            id: Date.now(),
+            subject,
+            difficulty,
+            question: question.question,
+            expectedAnswer: question.answer,
+            answer: given,
+            correct,
+            timeTakenMs: Date.now() - questionShownAtRef.current,
+            timestamp: Date.now(),
+        };
+        attemptsRef.current = [...attemptsRef.current, attempt];
+
+        const updated = recordBrainResult(subject, correct);
+        setDifficultyChange(updated.difficulty - difficulty);
+        setSubjectStates(prev => ({ ...prev, [subject]: updated }));
+
+        addMessage('user', given || '(gave up)');
+        addMessage('ai', `${correct ? 'Correct!' : `The answer is ${question.answer}.`} ${question.explanation}`);
+        setLastAttempt(attempt);
+        setStatus('FEEDBACK');
+    };
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (answer.trim()) submitAnswer(answer.trim());
+    };
+
+    useEffect(() => {
+        return () => {
+            saveSessionToHistory(messagesRef.current, 'brain-challenges', sessionStartRef.current, { buddyId: buddy.id, attempts: attemptsRef.current });
+        };
+    }, []);
+
+    const renderContent = () => {
+        if (status === 'SETUP' || (status === 'ERROR' && !question)) {
+            return (
+                <div className="flex-grow flex flex-col w-full max-w-lg p-4">
+                    <h2 className="text-2xl font-semibold text-center text-slate-700">Pick a challenge, {buddy.name} is ready!</h2>
+                    <div className="mt-4 space-y-3">
+                        {BRAIN_SUBJECTS.map(s => (
+                            <button
+                                key={s.id}
+                                onClick={() => handleSelectSubject(s.id)}
+                                className="flex items-center justify-between w-full p-4 text-left bg-[#FFFDE7] border-2 border-yellow-200 rounded-xl hover:bg-yellow-100"
+                            >
+                                <div>
+                                    <h3 className="text-lg font-bold text-slate-800">{s.title}</h3>
+                                    <p className="text-sm text-slate-500">{s.description}</p>
+                                </div>
+                                <DifficultyStars difficulty={subjectStates[s.id].difficulty} />
+                            </button>
+                        ))}
+                    </div>
+                    {error && <div className="p-3 mt-4 text-sm text-center text-red-800 bg-red-100 rounded-lg">{error}</div>}
+                </div>
+            );
+        }
+
+        if (status === 'LOADING') {
+            return (
+                <div className="flex-grow flex flex-col items-center justify-center text-center p-4 text-slate-600">
+                    <LoadingSpinner className="w-16 h-16" />
+                    <p className="mt-4 text-xl">Thinking of a challenge...</p>
+                </div>
+            );
+        }
+
+        const subjectTitle = BRAIN_SUBJECTS.find(s => s.id === subject)?.title;
+
+        return (
+            <div className="flex-grow flex flex-col w-full max-w-lg p-4">
+                <div className="flex items-center justify-between mb-4 text-sm font-semibold text-slate-500">
+                    <span>{subjectTitle}</span>
+                    <DifficultyStars difficulty={lastAttempt ? lastAttempt.difficulty : difficulty} />
+                </div>
+                {question && <h2 className="text-2xl font-bold text-slate-800 whitespace-pre-wrap">{question.question}</h2>}
+
+                {status === 'QUESTION' && question && (
+                    <>
+                        <form onSubmit={handleSubmit} className="flex items-center mt-6 space-x-2">
+                            <input
+                                type="text"
+                                value={answer}
+                                onChange={(e) => setAnswer(e.target.value)}
+                                placeholder="Your answer..."
+                                aria-label="Your answer"
+                                autoFocus
+                                className="flex-grow py-3 px-4 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                            />
+                            <button type="submit" disabled={!answer.trim()} className="px-5 py-3 font-semibold text-white rounded-full bg-slate-800 hover:bg-slate-700 disabled:bg-slate-400">Check</button>
+                        </form>
+                        <div className="flex justify-between mt-4">
+                            <button onClick={() => setShowHint(true)} disabled={showHint} className="text-sm font-semibold text-purple-600 disabled:text-slate-400">Need a hint?</button>
+                            <button onClick={() => submitAnswer('')} className="text-sm font-semibold text-slate-500 hover:text-slate-700">Show me the answer</button>
+                        </div>
+                        {showHint && <p className="p-3 mt-2 text-sm rounded-lg bg-purple-50 text-purple-800">{question.hint}</p>}
+                    </>
+                )}
+
+                {status === 'FEEDBACK' && lastAttempt && question && (
+                    <div className={`p-4 mt-6 rounded-xl ${lastAttempt.correct ? 'bg-green-50 text-green-800' : 'bg-orange-50 text-orange-800'}`}>
+                        <p className="font-bold">{lastAttempt.correct ? 'Brilliant, that\'s right!' : `Nice try! The answer is ${question.answer}.`}</p>
+                        <p className="text-sm">{question.explanation}</p>
+                        {difficultyChange > 0 && <p className="mt-2 text-sm font-semibold">Level up! The next one will be trickier.</p>}
+                        {difficultyChange < 0 && <p className="mt-2 text-sm font-semibold">Let's try a slightly easier one next.</p>}
+                        <button onClick={() => loadQuestion(subject, difficulty)} className="w-full px-6 py-3 mt-4 font-semibold text-white bg-slate-800 rounded-full hover:bg-slate-700">
+                            Next Challenge
+                        </button>
+                        <button onClick={() => setStatus('SETUP')} className="w-full px-6 py-3 mt-2 font-semibold text-slate-700 bg-slate-200 rounded-full hover:bg-slate-300">
+                            Change Challenge Type
+                        </button>
+                    </div>
+                )}
+
+                {status === 'ERROR' && (
+                    <div className="mt-6 text-center">
+                        <div className="p-3 text-sm text-red-800 bg-red-100 rounded-lg">{error}</div>
+                        <button onClick={() => loadQuestion(subject, difficulty)} className="px-6 py-3 mt-4 font-semibold text-white bg-slate-800 rounded-full hover:bg-slate-700">Try Again</button>
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[#FFFBF5]">
+            <header className="flex items-center p-4">
+                <button onClick={onExit} className="p-2 mr-2 transition-colors rounded-full hover:bg-slate-100" aria-label="Back to dashboard">
+                    <ArrowLeftIcon className="w-6 h-6 text-slate-600" />
+                </button>
+                <h1 className="text-3xl font-bold text-slate-800">Brain Challenges</h1>
+            </header>
+            <main className="relative z-0 flex flex-col items-center flex-grow w-full px-4 mx-auto overflow-y-auto">
+                <div className="py-2"><Mascot status={status === 'LOADING' ? ConversationStatus.THINKING : ConversationStatus.IDLE} /></div>
+                {renderContent()}
+            </main>
+        </div>
+    );
+};
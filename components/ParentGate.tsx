@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import {
+    PIN_LENGTH, MAX_FAILED_ATTEMPTS, MathChallenge, PinCheckResult, loadGateState, hasPin, isValidPin, setPin, verifyPin, checkMathAnswer,
+    RESET_DELAY_MS, clearPin, getLockoutRemainingMs, getResetRemainingMs, requestPinReset, cancelPinReset, createMathChallenge,
+} from '../utils/parentGate';
+import { ArrowLeftIcon, LoadingSpinner } from './Icons';
+
+type GateStep = 'setup' | 'enter' | 'math' | 'reset';
+
+interface ParentGateProps {
+    changePin?: boolean; // Skip straight to choosing a new PIN; the parent is already unlocked
+    onUnlock: () => void;
+    onCancel: () => void;
+}
+
+// Lockouts grow with each one, so the longer ones are shown in hours.
+const formatWait = (ms: number): string => {
+    const minutes = Math.ceil(ms / 60000);
+    if (minutes < 60) return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+    const hours = Math.ceil(minutes / 60);
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+};
+
+const PinInput: React.FC<{ value: string; onChange: (value: string) => void; label: string; autoFocus?: boolean; }> = ({ value, onChange, label, autoFocus }) => (
+    <input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        maxLength={PIN_LENGTH}
+        value={value}
+        onChange={(e) => onChange(e.target.value.replace(/\D/g, ''))}
+        aria-label={label}
+        placeholder={'•'.repeat(PIN_LENGTH)}
+        autoFocus={autoFocus}
+        className="w-full py-3 text-3xl tracking-[0.5em] text-center text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+    />
+);
+
+export const ParentGate: React.FC<ParentGateProps> = ({ changePin = false, onUnlock, onCancel }) => {
+    const [step, setStep] = useState<GateStep>(() => hasPin() && !changePin ? 'enter' : 'setup');
+    const [pin, setPinValue] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+    const [mathAnswer, setMathAnswer] = useState('');
+    const [challenge, setChallenge] = useState<MathChallenge>(() => createMathChallenge());
+    const [error, setError] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    const [lockoutMs, setLockoutMs] = useState(() => getLockoutRemainingMs(loadGateState()));
+    const [resetRemainingMs, setResetRemainingMs] = useState(() => getResetRemainingMs(loadGateState()));
+
+    const mathFallbackEnabled = loadGateState().mathFallbackEnabled;
+    const isLocked = lockoutMs > 0;
+
+    useEffect(() => {
+        if (lockoutMs <= 0) return;
+        const timer = window.setTimeout(() => setLockoutMs(getLockoutRemainingMs(loadGateState())), 1000);
+        return () => clearTimeout(timer);
+    }, [lockoutMs]);
+
+    const goTo = (next: GateStep) => {
+        setStep(next);
+        setPinValue('');
+        setConfirmPin('');
+        setMathAnswer('');
+        setError(null);
+        if (next === 'math') setChallenge(createMathChallenge());
+        if (next === 'reset') setChallenge(createMathChallenge(true));
+    };
+
+    const handleSetup = async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!isValidPin(pin)) return setError(`Please choose a ${PIN_LENGTH}-digit PIN.`);
+        if (pin !== confirmPin) return setError("The PINs don't match. Please try again.");
+
+        setIsChecking(true);
+        try {
+            await setPin(pin);
+            onUnlock();
+        } catch (e) {
+            console.error('Could not set PIN:', e);
+            setError('Sorry, the PIN could not be saved.');
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    // Wrong PINs and wrong answers count towards the same lockout.
+    const showFailure = (result: Exclude<PinCheckResult, 'ok'>, message: string) => {
+        const state = loadGateState();
+        if (result === 'locked') {
+            setLockoutMs(getLockoutRemainingMs(state));
+            setError(null);
+        } else {
+            setError(`${message} ${MAX_FAILED_ATTEMPTS - state.failedAttempts} tries left.`);
+        }
+    };
+
+    const handleEnter = async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!isValidPin(pin)) return;
+
+        setIsChecking(true);
+        const result = await verifyPin(pin);
+        setIsChecking(false);
+        setPinValue('');
+
+        if (result === 'ok') return onUnlock();
+        showFailure(result, "That PIN isn't right.");
+    };
+
+    const handleMath = (event: React.FormEvent) => {
+        event.preventDefault();
+        const result = checkMathAnswer(challenge, Number(mathAnswer));
+        setMathAnswer('');
+        if (result !== 'ok') {
+            setChallenge(createMathChallenge(step === 'reset'));
+            return showFailure(result, "That's not right. Here's a new question.");
+        }
+        if (step !== 'reset') return onUnlock();
+        if (clearPin()) {
+            goTo('setup');
+        } else {
+            setResetRemainingMs(getResetRemainingMs(loadGateState()));
+        }
+    };
+
+    const handleRequestReset = () => {
+        requestPinReset();
+        setResetRemainingMs(getResetRemainingMs(loadGateState()));
+    };
+
+    const handleCancelReset = () => {
+        cancelPinReset();
+        setResetRemainingMs(null);
+        goTo('enter');
+    };
+
+    const renderLockout = () => (
+        <p className="p-3 text-sm text-orange-800 bg-orange-100 rounded-lg">
+            Too many wrong tries. Please wait {formatWait(lockoutMs)}.
+        </p>
+    );
+
+    const usePinButton = (
+        <button type="button" onClick={() => goTo('enter')} className="w-full text-sm font-semibold text-slate-500 hover:text-slate-700">Use PIN instead</button>
+    );
+
+    const renderStep = () => {
+        if (step === 'setup') {
+            return (
+                <form onSubmit={handleSetup} className="space-y-4">
+                    <p className="text-slate-600">Create a {PIN_LENGTH}-digit PIN so only grown-ups can open Settings and the Parent Dashboard.</p>
+                    <PinInput value={pin} onChange={setPinValue} label="New PIN" autoFocus />
+                    <PinInput value={confirmPin} onChange={setConfirmPin} label="Confirm PIN" />
+                    <button type="submit" disabled={isChecking} className="w-full px-6 py-3 font-semibold text-white bg-slate-800 rounded-full hover:bg-slate-700 disabled:bg-slate-400">
+                        {isChecking ? <LoadingSpinner className="w-6 h-6 mx-auto" /> : 'Save PIN'}
+                    </button>
+                </form>
+            );
+        }
+
+        if ((step === 'math' || step === 'reset') && isLocked) {
+            return (
+                <div className="space-y-4">
+                    {renderLockout()}
+                    {usePinButton}
+                </div>
+            );
+        }
+
+        if (step === 'reset' && resetRemainingMs !== 0) {
+            const availableAt = new Date(Date.now() + (resetRemainingMs ?? RESET_DELAY_MS));
+            return (
+                <div className="space-y-4">
+                    {resetRemainingMs === null ? (
+                        <>
+                            <p className="text-slate-600">To keep the PIN safe, it can only be reset a day after you ask. Until then the PIN still works, and entering it calls the reset off.</p>
+                            <button type="button" onClick={handleRequestReset} className="w-full px-6 py-3 font-semibold text-white bg-slate-800 rounded-full hover:bg-slate-700">Ask to Reset the PIN</button>
+                        </>
+                    ) : (
+                        <>
+                            <p className="text-slate-600">The PIN can be reset after {availableAt.toLocaleString([], { weekday: 'long', hour: 'numeric', minute: '2-digit' })}.</p>
+                            <button type="button" onClick={handleCancelReset} className="w-full px-6 py-3 font-semibold text-slate-700 bg-slate-200 rounded-full hover:bg-slate-300">Cancel the Reset</button>
+                        </>
+                    )}
+                    {usePinButton}
+                </div>
+            );
+        }
+
+        if (step === 'math' || step === 'reset') {
+            return (
+                <form onSubmit={handleMath} className="space-y-4">
+                    {step === 'reset' && <p className="text-slate-600">The wait is over. To reset the PIN, answer this question. You'll then choose a new PIN.</p>}
+                    <p className="text-2xl font-bold text-slate-800">{challenge.question}</p>
+                    <input
+                        type="text"
+                        inputMode="numeric"
+                        value={mathAnswer}
+                        onChange={(e) => setMathAnswer(e.target.value.replace(/\D/g, ''))}
+                        aria-label="Answer"
+                        autoFocus
+                        className="w-full py-3 text-2xl text-center text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                    />
+                    <button type="submit" disabled={!mathAnswer} className="w-full px-6 py-3 font-semibold text-white bg-slate-800 rounded-full hover:bg-slate-700 disabled:bg-slate-400">
+                        {step === 'reset' ? 'Reset PIN' : 'Continue'}
+                    </button>
+                    {usePinButton}
+                </form>
+            );
+        }
+
+        return (
+            <form onSubmit={handleEnter} className="space-y-4">
+                <p className="text-slate-600">Enter the parent PIN to continue.</p>
+                {resetRemainingMs !== null && (
+                    <p className="p-3 text-sm text-blue-800 bg-blue-100 rounded-lg">Someone asked to reset the PIN. If that wasn't you, enter the PIN to call it off.</p>
+                )}
+                {isLocked ? renderLockout() : (
+                    <PinInput value={pin} onChange={setPinValue} label="Parent PIN" autoFocus />
+                )}
+                <button type="submit" disabled={isLocked || isChecking || pin.length !== PIN_LENGTH} className="w-full px-6 py-3 font-semibold text-white bg-slate-800 rounded-full hover:bg-slate-700 disabled:bg-slate-400">
+                    {isChecking ? <LoadingSpinner className="w-6 h-6 mx-auto" /> : 'Unlock'}
+                </button>
+                {mathFallbackEnabled && !isLocked && (
+                    <button type="button" onClick={() => goTo('math')} className="w-full text-sm font-semibold text-purple-600 hover:text-purple-700">Answer a math question instead</button>
+                )}
+                {!isLocked && (
+                    <button type="button" onClick={() => goTo('reset')} className="w-full text-sm font-semibold text-slate-500 hover:text-slate-700">Forgot PIN?</button>
+                )}
+            </form>
+        );
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[#FFFBF5]">
+            <header className="flex items-center p-4 border-b border-slate-200">
+                <button onClick={onCancel} className="p-2 mr-2 transition-colors rounded-full hover:bg-slate-100" aria-label="Back to main menu">
+                    <ArrowLeftIcon className="w-6 h-6 text-slate-600" />
+                </button>
+                <h1 className="text-2xl font-bold text-slate-800">{step === 'setup' ? (changePin ? 'Change Parent PIN' : 'Set a Parent PIN') : 'Grown-ups Only'}</h1>
+            </header>
+            <main className="flex-grow p-4 overflow-y-auto">
+                <div className="max-w-sm mx-auto mt-8 text-center">
+                    <span className="text-5xl">🔒</span>
+                    <div className="mt-4">{renderStep()}</div>
+                    {error && <div className="p-3 mt-4 text-sm text-center text-red-800 bg-red-100 rounded-lg">{error}</div>}
+                </div>
+            </main>
+        </div>
+    );
+};
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { Buddy, ChildProfile, ReadingLevel } from '../types';
+import { PROFILE_AVATARS, getProfileAge } from '../utils/profiles';
+import { MAX_GRADE_LENGTH, MAX_INTERESTS, MAX_INTEREST_LENGTH, READING_LEVELS, getDefaultReadingLevel } from '../utils/prompts';
+import { ArrowLeftIcon } from './Icons';
+
+type ProfileDetails = Omit<ChildProfile, 'id' | 'createdAt'>;
+
+interface ProfilesViewProps {
+    profiles: ChildProfile[];
+    activeProfileId: string;
+    buddies: Buddy[];
+    onSelectProfile: (profileId: string) => void;
+    onCreateProfile: (details: ProfileDetails) => void;
+    onUpdateProfile: (profileId: string, changes: Partial<ProfileDetails>) => void;
+    onDeleteProfile: (profileId: string) => void;
+    canManageProfiles: boolean; // Editing and deleting need the parent gate; picking and adding don't
+    onUnlockProfiles: () => void;
+    onExit: () => void;
+}
+
+const ProfileForm: React.FC<{
+    initial: ProfileDetails;
+    buddies: Buddy[];
+    submitLabel: string;
+    onSubmit: (details: ProfileDetails) => void;
+    onCancel: () => void;
+    onDelete?: () => void;
+}> = ({ initial, buddies, submitLabel, onSubmit, onCancel, onDelete }) => {
+    const [details, setDetails] = useState<ProfileDetails>(initial);
+    const [interestsText, setInterestsText] = useState((initial.interests ?? []).join(', '));
+    const currentYear = new Date().getFullYear();
+    const birthYears = Array.from({ length: 14 }, (_, i) => currentYear - 3 - i);
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        const interests = interestsText.split(',').map(i => i.trim().slice(0, MAX_INTEREST_LENGTH)).filter(Boolean).slice(0, MAX_INTERESTS);
+        if (details.name.trim()) onSubmit({ ...details, name: details.name.trim(), grade: details.grade?.trim() || undefined, interests });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="p-4 space-y-4 bg-white border-2 border-purple-200 rounded-xl">
+            <label className="block">
+                <span className="text-sm font-semibold text-slate-600">Name</span>
+                <input
+                    type="text"
+                    value={details.name}
+                    onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                    className="w-full py-2 px-4 mt-1 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                    autoFocus
+                />
+            </label>
+            <label className="block">
+                <span className="text-sm font-semibold text-slate-600">Birth year</span>
+                <select
+                    value={details.birthYear ?? ''}
+                    onChange={(e) => setDetails({ ...details, birthYear: e.target.value ? Number(e.target.value) : undefined })}
+                    className="w-full py-2 px-4 mt-1 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                >
+                    <option value="">Prefer not to say</option>
+                    {birthYears.map(year => <option key={year} value={year}>{year} (age {currentYear - year})</option>)}
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-sm font-semibold text-slate-600">School year or grade</span>
+                <input
+                    type="text"
+                    value={details.grade ?? ''}
+                    maxLength={MAX_GRADE_LENGTH}
+                    onChange={(e) => setDetails({ ...details, grade: e.target.value })}
+                    placeholder="e.g. 2nd grade or Year 3"
+                    className="w-full py-2 px-4 mt-1 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                />
+            </label>
+            <label className="block">
+                <span className="text-sm font-semibold text-slate-600">Reading level</span>
+                <select
+                    value={details.readingLevel ?? ''}
+                    onChange={(e) => setDetails({ ...details, readingLevel: (e.target.value || undefined) as ReadingLevel | undefined })}
+                    className="w-full py-2 px-4 mt-1 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                >
+                    <option value="">Based on age ({READING_LEVELS.find(l => l.id === getDefaultReadingLevel(details.birthYear ? currentYear - details.birthYear : null))?.label})</option>
+                    {READING_LEVELS.map(level => <option key={level.id} value={level.id}>{level.label}</option>)}
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-sm font-semibold text-slate-600">Interests</span>
+                <input
+                    type="text"
+                    value={interestsText}
+                    maxLength={MAX_INTERESTS * (MAX_INTEREST_LENGTH + 2)}
+                    onChange={(e) => setInterestsText(e.target.value)}
+                    placeholder="e.g. dinosaurs, football, space"
+                    className="w-full py-2 px-4 mt-1 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                />
+            </label>
+            <div>
+                <span className="text-sm font-semibold text-slate-600">Avatar</span>
+                <div className="grid grid-cols-5 gap-2 mt-1">
+                    {PROFILE_AVATARS.map(avatar => (
+                        <button
+                            key={avatar}
+                            type="button"
+                            onClick={() => setDetails({ ...details, avatar })}
+                            className={`p-2 text-3xl rounded-xl border-2 ${details.avatar === avatar ? 'border-purple-500 bg-purple-50' : 'border-transparent hover:bg-slate-50'}`}
+                            aria-label={`Avatar ${avatar}`}
+                        >
+                            {avatar}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div>
+                <span className="text-sm font-semibold text-slate-600">Favourite buddy</span>
+                <div className="flex mt-1 space-x-2">
+                    {buddies.map(buddy => (
+                        <button
+                            key={buddy.id}
+                            type="button"
+                            onClick={() => setDetails({ ...details, buddyId: buddy.id })}
+                            className={`flex-1 p-2 rounded-xl border-2 ${details.buddyId === buddy.id ? 'border-purple-500 bg-purple-50' : 'border-slate-200 hover:bg-slate-50'}`}
+                        >
+                            <span className="block text-2xl">{buddy.icon}</span>
+                            <span className="text-sm font-semibold text-slate-700">{buddy.name}</span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex space-x-2">
+                <button type="submit" disabled={!details.name.trim()} className="flex-1 px-6 py-3 font-semibold text-white bg-slate-800 rounded-full hover:bg-slate-700 disabled:bg-slate-400">{submitLabel}</button>
+                <button type="button" onClick={onCancel} className="px-6 py-3 font-semibold text-slate-700 bg-slate-200 rounded-full hover:bg-slate-300">Cancel</button>
+            </div>
+            {onDelete && (
+                <button type="button" onClick={onDelete} className="w-full text-sm font-semibold text-red-600 hover:text-red-700">Delete this profile</button>
+            )}
+        </form>
+    );
+};
+
+export const ProfilesView: React.FC<ProfilesViewProps> = ({ profiles, activeProfileId, buddies, onSelectProfile, onCreateProfile, onUpdateProfile, onDeleteProfile, canManageProfiles, onUnlockProfiles, onExit }) => {
+    const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+
+    const handleEdit = (profileId: string) => {
+        if (canManageProfiles) {
+            setEditingId(profileId);
+        } else {
+            onUnlockProfiles();
+        }
+    };
+
+    const handleDelete = (profile: ChildProfile) => {
+        if (window.confirm(`Delete ${profile.name}'s profile? Their history and progress will be removed.`)) {
+            onDeleteProfile(profile.id);
+            setEditingId(null);
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[#FFFBF5]">
+            <header className="flex items-center p-4 border-b border-slate-200">
+                <button onClick={onExit} className="p-2 mr-2 transition-colors rounded-full hover:bg-slate-100" aria-label="Back to main menu">
+                    <ArrowLeftIcon className="w-6 h-6 text-slate-600" />
+                </button>
+                <h1 className="text-2xl font-bold text-slate-800">Who's learning?</h1>
+            </header>
+            <main className="flex-grow p-4 overflow-y-auto">
+                <div className="max-w-3xl mx-auto space-y-4">
+                    {profiles.map(profile => {
+                        const age = getProfileAge(profile);
+                        const buddy = buddies.find(b => b.id === profile.buddyId);
+                        if (editingId === profile.id) {
+                            return (
+                                <ProfileForm
+                                    key={profile.id}
+                                    initial={profile}
+                                    buddies={buddies}
+                                    submitLabel="Save"
+                                    onSubmit={(details) => { onUpdateProfile(profile.id, details); setEditingId(null); }}
+                                    onCancel={() => setEditingId(null)}
+                                    onDelete={profiles.length > 1 ? () => handleDelete(profile) : undefined}
+                                />
+                            );
+                        }
+                        return (
+                            <div
+                                key={profile.id}
+                                className={`flex items-center w-full p-4 border-2 rounded-xl ${profile.id === activeProfileId ? 'border-purple-500 bg-purple-50' : 'border-slate-200 bg-white'}`}
+                            >
+                                <button onClick={() => onSelectProfile(profile.id)} className="flex items-center flex-grow text-left">
+                                    <span className="mr-4 text-4xl">{profile.avatar}</span>
+                                    <div>
+                                        <h3 className="text-xl font-bold text-slate-800">{profile.name}</h3>
+                                        <p className="text-slate-500">
+                                            {age !== null ? `Age ${age}` : 'Age not set'}{buddy ? ` · learns with ${buddy.name} ${buddy.icon}` : ''}
+                                        </p>
+                                    </div>
+                                </button>
+                                <button onClick={() => handleEdit(profile.id)} className="px-3 py-2 text-sm font-semibold rounded-full text-slate-600 hover:bg-slate-100" aria-label={canManageProfiles ? `Edit ${profile.name}` : `Edit ${profile.name} (asks for the parent PIN)`}>
+                                    {canManageProfiles ? 'Edit' : '🔒 Edit'}
+                                </button>
+                            </div>
+                        );
+                    })}
+
+                    {editingId === 'new' ? (
+                        <ProfileForm
+                            initial={{ name: '', avatar: PROFILE_AVATARS[profiles.length % PROFILE_AVATARS.length], buddyId: buddies[0].id }}
+                            buddies={buddies}
+                            submitLabel="Create Profile"
+                            onSubmit={(details) => { onCreateProfile(details); setEditingId(null); }}
+                            onCancel={() => setEditingId(null)}
+                        />
+                    ) : (
+                        <button onClick={() => setEditingId('new')} className="w-full p-4 font-semibold border-2 border-dashed rounded-xl text-slate-500 border-slate-300 hover:bg-slate-50">
+                            + Add a profile
+                        </button>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+};
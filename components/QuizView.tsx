@@ -0,0 +1,418 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { Buddy, ChildProfile, ConversationStatus, LearningMode, Message, QuizQuestion } from '../types';
+import { decode, decodeAudioData } from '../utils/audio';
+import { getAiProvider } from '../utils/aiProvider';
+import { isSessionActive } from '../utils/liveSession';
+import { isMicPermissionError, useLiveSession } from '../hooks/useLiveSession';
+import { saveSessionToHistory } from '../utils/history';
+import { QUESTIONS_PER_GAME, SECONDS_PER_QUESTION, QUIZ_TOPICS, QUIZ_RESPONSE_SCHEMA, buildQuizPrompt, parseQuiz, matchSpokenAnswer } from '../utils/quiz';
+import { describeAudience, getPromptContext } from '../utils/prompts';
+import { createModelClassifier, getRedirectMessage, loadModerationRules, moderate, redactPersonalInfo, toModerationFlag } from '../utils/moderation';
+import { ArrowLeftIcon, LoadingSpinner, MicrophoneIcon, StopIcon, StarIcon } from './Icons';
+import { Mascot } from './Mascot';
+
+type QuizStatus = 'SETUP' | 'LOADING' | 'QUESTION' | 'FEEDBACK' | 'RESULTS' | 'ERROR';
+
+interface QuizAnswer {
+    selectedIndex: number | null; // null when the timer ran out
+    correct: boolean;
+}
+
+interface QuizViewProps {
+    buddy: Buddy;
+    profile: ChildProfile;
+    learningMode: LearningMode;
+    onExit: () => void;
+}
+
+export const QuizView: React.FC<QuizViewProps> = ({ buddy, profile, learningMode, onExit }) => {
+    const [status, setStatus] = useState<QuizStatus>('SETUP');
+    const [title, setTitle] = useState('');
+    const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+    const [questionIndex, setQuestionIndex] = useState(0);
+    const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+    const [secondsLeft, setSecondsLeft] = useState(SECONDS_PER_QUESTION);
+    const [timerRunning, setTimerRunning] = useState(false);
+    const [isSpeaking, setIsSpeaking] = useState(false);
+    const [heardText, setHeardText] = useState('');
+    const [customTopic, setCustomTopic] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const outputAudioContextRef = useRef<AudioContext | null>(null);
+    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    // Settles the current `speak` call, however its speech ends.
+    const speechDoneRef = useRef<(() => void) | null>(null);
+    // Bumped by `stopSpeaking`, so speech that was still being fetched is never played.
+    const speechIdRef = useRef(0);
+    const transcriptRef = useRef('');
+    const messagesRef = useRef<Message[]>([]);
+    const sessionStartRef = useRef(Date.now());
+    const answerRef = useRef<(selectedIndex: number | null) => void>(() => {});
+
+    const useVoice = learningMode === 'voice';
+    const currentQuestion = questions[questionIndex];
+    const score = answers.filter(a => a.correct).length;
+
+    const addMessage = useCallback((speaker: Message['speaker'], text: string) => {
+        messagesRef.current = [...messagesRef.current, { id: Date.now() + messagesRef.current.length, speaker, text }];
+    }, []);
+
+    const stopSpeaking = useCallback(() => {
+        speechIdRef.current++;
+        if (audioSourceRef.current) {
+            audioSourceRef.current.onended = null;
+            audioSourceRef.current.stop();
+            audioSourceRef.current = null;
+        }
+        speechDoneRef.current?.();
+        speechDoneRef.current = null;
+        setIsSpeaking(false);
+    }, []);
+
+    // Reads text aloud in the buddy's voice. Resolves once playback finishes or is
+    // stopped, or straight away in text mode or when TTS fails, so the game never
+    // blocks on audio.
+    const speak = useCallback(async (text: string) => {
+        if (!useVoice) return;
+        stopSpeaking();
+        const speechId = speechIdRef.current;
+        try {
+            const audioData = await getAiProvider().generateSpeech(text, buddy.voice);
+            if (!audioData || speechId !== speechIdRef.current) return;
+
+            if (!outputAudioContextRef.current || outputAudioContextRef.current.state === 'closed') {
+                outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+            }
+            const audioContext = outputAudioContextRef.current;
+            const audioBuffer = await decodeAudioData(decode(audioData), audioContext, 24000, 1);
+            if (speechId !== speechIdRef.current) return;
+            await new Promise<void>(resolve => {
+                const source = audioContext.createBufferSource();
+                source.buffer = audioBuffer;
+                source.connect(audioContext.destination);
+                source.onended = () => {
+                    audioSourceRef.current = null;
+                    speechDoneRef.current = null;
+                    setIsSpeaking(false);
+                    resolve();
+                };
+                audioSourceRef.current = source;
+                speechDoneRef.current = resolve;
+                setIsSpeaking(true);
+                source.start();
+            });
+        } catch (e) {
+            console.error('Quiz TTS error:', e);
+            setIsSpeaking(false);
+        }
+    }, [useVoice, buddy.voice, stopSpeaking]);
+
+    const live = useLiveSession({
+        getSetup: () => ({ instruction: { kind: 'transcribe-only' } }),
+        onInputTranscription: text => {
+            if (!currentQuestion) return;
+            transcriptRef.current += text;
+            setHeardText(transcriptRef.current);
+            const match = matchSpokenAnswer(transcriptRef.current, currentQuestion);
+            if (match !== null) answerRef.current(match);
+        },
+        onFailed: err => {
+            console.error('Quiz voice answer error:', err);
+            setError(isMicPermissionError(err) ? "I can't use the microphone right now. Tap your answer instead!" : "I couldn't hear that. Try tapping your answer instead!");
+        },
+    });
+    const isListening = isSessionActive(live.status);
+    const stopListening = live.stop;
+
+    const startListening = useCallback(() => {
+        if (!currentQuestion) return;
+        stopSpeaking();
+        setHeardText('');
+        transcriptRef.current = '';
+        live.start();
+    }, [currentQuestion, stopSpeaking, live.start]);
+
+    const handleAnswer = useCallback((selectedIndex: number | null) => {
+        if (status !== 'QUESTION' || !currentQuestion) return;
+        stopListening();
+        stopSpeaking();
+        setTimerRunning(false);
+
+        const correct = selectedIndex === currentQuestion.correctIndex;
+        setAnswers(prev => [...prev, { selectedIndex, correct }]);
+        setStatus('FEEDBACK');
+
+        const correctOption = currentQuestion.options[currentQuestion.correctIndex];
+        const feedback = correct
+            ? `That's right! ${currentQuestion.explanation}`
+            : `${selectedIndex === null ? "Time's up!" : 'Good try!'} The answer is ${correctOption}. ${currentQuestion.explanation}`;
+        addMessage('user', selectedIndex === null ? '(no answer)' : currentQuestion.options[selectedIndex]);
+        addMessage('ai', feedback);
+        speak(feedback);
+    }, [status, currentQuestion, stopListening, stopSpeaking, speak, addMessage]);
+
+    answerRef.current = handleAnswer;
+
+    const startGame = useCallback(async (topic: string) => {
+        setError(null);
+        setStatus('LOADING');
+
+        try {
+            const quiz = parseQuiz(await getAiProvider().generateJson({
+                contents: buildQuizPrompt(topic, describeAudience(getPromptContext(profile, buddy.name))),
+                schema: QUIZ_RESPONSE_SCHEMA,
+            }));
+            if (quiz.questions.length === 0) throw new Error('The quiz had no usable questions.');
+
+            messagesRef.current = [];
+            sessionStartRef.current = Date.now();
+            addMessage('ai', `Let's play "${quiz.title}"!`);
+            setTitle(quiz.title);
+            setQuestions(quiz.questions.slice(0, QUESTIONS_PER_GAME));
+            setAnswers([]);
+            setQuestionIndex(0);
+            setStatus('QUESTION');
+        } catch (e) {
+            console.error('Quiz generation error:', e);
+            setError("Sorry, I couldn't make a quiz. Please try again.");
+            setStatus('ERROR');
+        }
+    }, [profile, buddy.name, addMessage]);
+
+    // A typed topic goes into the quiz prompt, so it's checked like anything else the
+    // child types. A flagged one is saved as a short session of its own, so parents
+    // see it even if a game follows.
+    const handleCustomTopic = async (event: React.FormEvent) => {
+        event.preventDefault();
+        const topic = customTopic.trim();
+        if (!topic) return;
+        setError(null);
+        setStatus('LOADING');
+
+        const rules = loadModerationRules();
+        const check = await moderate(topic, 'child', rules, rules.useModelClassifier ? createModelClassifier(getAiProvider()) : undefined);
+        const flag = toModerationFlag(check, 'child', topic);
+        if (!flag) return startGame(topic);
+
+        const redirect = getRedirectMessage(check);
+        const shownTopic = flag.categories.includes('personal-info') ? redactPersonalInfo(topic) : topic;
+        saveSessionToHistory([
+            { id: Date.now(), speaker: 'user', text: shownTopic, moderation: flag },
+            { id: Date.now() + 1, speaker: 'ai', text: redirect },
+        ], 'learning-games', Date.now(), { buddyId: buddy.id });
+        setCustomTopic('');
+        setError(redirect);
+        setStatus('SETUP');
+    };
+
+    const handleNext = () => {
+        stopSpeaking();
+        if (questionIndex + 1 < questions.length) {
+            setQuestionIndex(questionIndex + 1);
+            setStatus('QUESTION');
+        } else {
+            const summary = `You scored ${score} out of ${questions.length}!`;
+            addMessage('ai', summary);
+            setStatus('RESULTS');
+            speak(summary);
+        }
+    };
+
+    const handlePlayAgain = () => {
+        stopSpeaking();
+        saveSessionToHistory(messagesRef.current, 'learning-games', sessionStartRef.current, { buddyId: buddy.id });
+        messagesRef.current = [];
+        setQuestions([]);
+        setStatus('SETUP');
+    };
+
+    // Read each question aloud, then start its timer.
+    useEffect(() => {
+        if (status !== 'QUESTION' || !currentQuestion) return;
+        let cancelled = false;
+        setSecondsLeft(SECONDS_PER_QUESTION);
+        setTimerRunning(false);
+        setHeardText('');
+
+        const optionsText = currentQuestion.type === 'true-false'
+            ? 'True or false?'
+            : currentQuestion.options.map((option, i) => `${String.fromCharCode(65 + i)}: ${option}.`).join(' ');
+        const spokenQuestion = `Question ${questionIndex + 1}. ${currentQuestion.question} ${optionsText}`;
+        addMessage('ai', spokenQuestion);
+        speak(spokenQuestion).then(() => { if (!cancelled) setTimerRunning(true); });
+
+        return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [status === 'QUESTION', questionIndex]);
+
+    // Only ticks during a question: stopping the speech to answer settles `speak`
+    // before the timer is switched off.
+    useEffect(() => {
+        if (!timerRunning || status !== 'QUESTION') return;
+        if (secondsLeft <= 0) {
+            handleAnswer(null);
+            return;
+        }
+        const timer = window.setTimeout(() => setSecondsLeft(s => s - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [timerRunning, status, secondsLeft, handleAnswer]);
+
+    useEffect(() => {
+        return () => {
+            saveSessionToHistory(messagesRef.current, 'learning-games', sessionStartRef.current, { buddyId: buddy.id });
+            stopListening();
+            stopSpeaking();
+            if (outputAudioContextRef.current && outputAudioContextRef.current.state !== 'closed') {
+                outputAudioContextRef.current.close();
+            }
+        };
+    }, [stopListening, stopSpeaking]);
+
+    const mascotStatus = isSpeaking ? ConversationStatus.SPEAKING : isListening ? ConversationStatus.LISTENING : ConversationStatus.IDLE;
+
+    const renderContent = () => {
+        if (status === 'SETUP' || status === 'ERROR') {
+            return (
+                <div className="flex-grow flex flex-col items-center justify-center w-full max-w-lg text-center p-4">
+                    <h2 className="text-2xl font-semibold text-slate-700">What should our quiz be about?</h2>
+                    <div className="grid grid-cols-2 gap-3 w-full mt-4 md:grid-cols-3">
+                        {QUIZ_TOPICS.map(topic => (
+                            <button key={topic} onClick={() => startGame(topic)} className="p-4 font-semibold text-slate-800 bg-[#FBE9E7] rounded-xl shadow-sm hover:bg-orange-200">
+                                {topic}
+                            </button>
+                        ))}
+                    </div>
+                    <form
+                        onSubmit={handleCustomTopic}
+                        className="flex items-center w-full mt-4 space-x-2"
+                    >
+                        <input
+                            type="text"
+                            value={customTopic}
+                            onChange={(e) => setCustomTopic(e.target.value)}
+                            placeholder="Or type your own topic..."
+                            aria-label="Quiz topic"
+                            className="flex-grow py-3 px-4 text-gray-700 bg-white border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-300"
+                        />
+                        <button type="submit" disabled={!customTopic.trim()} className="px-5 py-3 font-semibold text-white rounded-full bg-slate-800 hover:bg-slate-700 disabled:bg-slate-400">Go!</button>
+                    </form>
+                    {error && <div className="p-3 mt-4 text-sm text-center text-red-800 bg-red-100 rounded-lg">{error}</div>}
+                </div>
+            );
+        }
+
+        if (status === 'LOADING') {
+            return (
+                <div className="flex-grow flex flex-col items-center justify-center text-center p-4 text-slate-600">
+                    <LoadingSpinner className="w-16 h-16" />
+                    <p className="mt-4 text-xl">Making your quiz...</p>
+                </div>
+            );
+        }
+
+        if (status === 'RESULTS') {
+            return (
+                <div className="flex-grow flex flex-col items-center justify-center w-full max-w-lg text-center p-4">
+                    <div className="w-full p-6 bg-white rounded-2xl shadow-lg">
+                        <h2 className="text-3xl font-bold text-purple-700">{title}</h2>
+                        <div className="flex items-center justify-center my-4 space-x-1">
+                            {questions.map((_, i) => (
+                                <StarIcon key={i} className={`w-8 h-8 ${answers[i]?.correct ? 'text-yellow-400' : 'text-slate-200'}`} />
+                            ))}
+                        </div>
+                        <p className="text-xl font-semibold text-slate-700">You scored {score} out of {questions.length}!</p>
+                        <ul className="mt-4 space-y-2 text-left">
+                            {questions.map((q, i) => (
+                                <li key={i} className={`p-3 text-sm rounded-lg ${answers[i]?.correct ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+                                    <strong>{q.question}</strong>
+                                    <span className="block">Answer: {q.options[q.correctIndex]}</span>
+                                </li>
+                            ))}
+                        </ul>
+                        <button onClick={handlePlayAgain} className="w-full px-6 py-3 mt-6 font-semibold text-white bg-slate-800 rounded-full hover:bg-slate-700">
+                            Play Again
+                        </button>
+                    </div>
+                </div>
+            );
+        }
+
+        if (!currentQuestion) return null;
+        const lastAnswer = status === 'FEEDBACK' ? answers[answers.length - 1] : null;
+
+        return (
+            <div className="flex-grow flex flex-col w-full max-w-lg p-4">
+                <div className="flex items-center justify-between mb-2 text-sm font-semibold text-slate-500">
+                    <span>Question {questionIndex + 1} of {questions.length}</span>
+                    <span>Score: {score}</span>
+                </div>
+                <div className="overflow-hidden h-2 mb-4 flex rounded bg-orange-100">
+                    <div
+                        style={{ width: `${(secondsLeft / SECONDS_PER_QUESTION) * 100}%` }}
+                        className={`transition-all duration-1000 ease-linear ${secondsLeft <= 5 ? 'bg-red-400' : 'bg-orange-400'}`}
+                    ></div>
+                </div>
+                <h2 className="text-2xl font-bold text-slate-800">{currentQuestion.question}</h2>
+                <div className="mt-4 space-y-3">
+                    {currentQuestion.options.map((option, i) => {
+                        const isCorrect = i === currentQuestion.correctIndex;
+                        const isChosen = lastAnswer?.selectedIndex === i;
+                        let color = 'bg-white border-slate-200 hover:bg-slate-50';
+                        if (lastAnswer && isCorrect) color = 'bg-green-100 border-green-400';
+                        else if (lastAnswer && isChosen) color = 'bg-red-100 border-red-400';
+                        return (
+                            <button
+                                key={i}
+                                onClick={() => handleAnswer(i)}
+                                disabled={status !== 'QUESTION'}
+                                className={`w-full p-4 text-left text-lg font-semibold text-slate-800 border-2 rounded-xl transition-colors ${color}`}
+                            >
+                                {currentQuestion.type === 'multiple-choice' && <span className="mr-2 text-slate-400">{String.fromCharCode(65 + i)}.</span>}
+                                {option}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {status === 'QUESTION' && useVoice && (
+                    <div className="mt-4 text-center">
+                        <button
+                            onClick={isListening ? stopListening : startListening}
+                            className={`inline-flex items-center px-6 py-3 font-semibold text-white rounded-full shadow-lg bg-slate-800 hover:bg-slate-700 ${isListening ? 'animate-pulse' : ''}`}
+                        >
+                            {isListening ? <StopIcon className="w-6 h-6" /> : <MicrophoneIcon className="w-6 h-6" />}
+                            <span className="ml-2">{isListening ? 'Listening...' : 'Say my answer'}</span>
+                        </button>
+                        {heardText && <p className="mt-2 text-sm text-slate-500">I heard: "{heardText}"</p>}
+                    </div>
+                )}
+
+                {lastAnswer && (
+                    <div className={`p-4 mt-4 rounded-xl ${lastAnswer.correct ? 'bg-green-50 text-green-800' : 'bg-orange-50 text-orange-800'}`}>
+                        <p className="font-bold">{lastAnswer.correct ? 'Correct!' : lastAnswer.selectedIndex === null ? "Time's up!" : 'Not quite!'}</p>
+                        <p className="text-sm">{currentQuestion.explanation}</p>
+                        <button onClick={handleNext} className="w-full px-6 py-3 mt-4 font-semibold text-white bg-slate-800 rounded-full hover:bg-slate-700">
+                            {questionIndex + 1 < questions.length ? 'Next Question' : 'See My Score'}
+                        </button>
+                    </div>
+                )}
+                {error && status === 'QUESTION' && <div className="p-3 mt-4 text-sm text-center text-red-800 bg-red-100 rounded-lg">{error}</div>}
+            </div>
+        );
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[#FFFBF5]">
+            <header className="flex items-center p-4">
+                <button onClick={onExit} className="p-2 mr-2 transition-colors rounded-full hover:bg-slate-100" aria-label="Back to dashboard">
+                    <ArrowLeftIcon className="w-6 h-6 text-slate-600" />
+                </button>
+                <h1 className="text-3xl font-bold text-slate-800">Learning Games</h1>
+            </header>
+            <main className="relative z-0 flex flex-col items-center flex-grow w-full px-4 mx-auto overflow-y-auto">
+                <div className="py-2"><Mascot status={mascotStatus} /></div>
+                {renderContent()}
+            </main>
+        </div>
+    );
+};
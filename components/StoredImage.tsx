@@ -0,0 +1,30 @@
+import React, { useState, useEffect } from 'react';
+import { getBlob, isBlobRef } from '../utils/storage';
+
+type StoredImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { src: string };
+
+// Renders images saved in the blob store (`askie-blob:` references) as well as ordinary URLs.
+export const StoredImage: React.FC<StoredImageProps> = ({ src, alt, ...props }) => {
+    const [resolvedSrc, setResolvedSrc] = useState<string | null>(isBlobRef(src) ? null : src);
+
+    useEffect(() => {
+        if (!isBlobRef(src)) {
+            setResolvedSrc(src);
+            return;
+        }
+        let cancelled = false;
+        let objectUrl: string | null = null;
+        getBlob(src).then(blob => {
+            if (cancelled || !blob) return;
+            objectUrl = URL.createObjectURL(blob);
+            setResolvedSrc(objectUrl);
+        });
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [src]);
+
+    if (!resolvedSrc) return null;
+    return <img src={resolvedSrc} alt={alt} {...props} />;
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Buddy } from '../types';
+import { ScreenTimeStatus } from '../utils/screenTime';
+import { ArrowLeftIcon } from './Icons';
+
+interface TimeUpViewProps {
+    buddy: Buddy;
+    status: ScreenTimeStatus;
+    modeTitle: string;
+    onExit: () => void;
+}
+
+const formatNextAllowed = (date: Date) => {
+    const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    const isToday = date.toDateString() === new Date().toDateString();
+    return isToday ? `at ${time}` : `${date.toLocaleDateString([], { weekday: 'long' })} at ${time}`;
+};
+
+export const TimeUpView: React.FC<TimeUpViewProps> = ({ buddy, status, modeTitle, onExit }) => {
+    const getMessage = () => {
+        switch (status.reason) {
+            case 'outside-hours': return `It's not playtime right now. ${buddy.name} is having a rest too!`;
+            case 'mode-limit': return `That's all the ${modeTitle} time for today. Great job!`;
+            default: return `That's all the time for today. Great job!`;
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[#FFFBF5]">
+            <header className="flex items-center p-4 border-b border-slate-200">
+                <button onClick={onExit} className="p-2 mr-2 transition-colors rounded-full hover:bg-slate-100" aria-label="Back to main menu">
+                    <ArrowLeftIcon className="w-6 h-6 text-slate-600" />
+                </button>
+                <h1 className="text-2xl font-bold text-slate-800">Time for a Break</h1>
+            </header>
+            <main className="flex flex-col items-center justify-center flex-grow p-6 text-center">
+                <span className="text-7xl">{buddy.icon}</span>
+                <p className="mt-6 text-2xl font-bold text-slate-800">{getMessage()}</p>
+                {status.nextAllowedAt && (
+                    <p className="mt-2 text-slate-500">See you again {formatNextAllowed(status.nextAllowedAt)}.</p>
+                )}
+                <button onClick={onExit} className="px-6 py-3 mt-8 font-semibold text-white rounded-full bg-slate-800 hover:bg-slate-700">
+                    Back to Menu
+                </button>
+            </main>
+        </div>
+    );
+};
@@ -0,0 +1,316 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { Blob, FunctionCall, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, LiveServerMessage } from '@google/genai';
+import { ConversationStatus } from '../types';
+import { LiveAudioSession, getAiProvider } from '../utils/aiProvider';
+import { InstructionSpec } from '../utils/prompts';
+import { CAPTURE_CHUNK_SAMPLES, CAPTURE_SAMPLE_RATE, MicCapture, startMicCapture } from '../utils/micCapture';
+import { LiveStatusEvent, MAX_RECONNECT_ATTEMPTS, PendingInput, getInputsToReplay, getNextStatus, getReconnectDelay } from '../utils/liveSession';
+import { VadOptions, VoiceActivityDetector, createVoiceActivityDetector } from '../utils/vad';
+
+export interface LiveSessionSetup {
+    instruction: InstructionSpec;
+    voiceName?: string; // Leave out for sessions that only transcribe the child
+}
+
+// How the child's turns are marked. 'auto' listens for talking and pauses on the
+// device; 'hold' leaves it to startTalking and stopTalking, e.g. from a button
+// held down. Without either, the model decides when the child has finished.
+export type TurnTaking = { mode: 'auto'; vad: VadOptions } | { mode: 'hold' };
+
+const CHUNK_MS = CAPTURE_CHUNK_SAMPLES / CAPTURE_SAMPLE_RATE * 1000;
+
+export interface UseLiveSessionOptions {
+    turnTaking?: TurnTaking;
+    // While this is true the microphone isn't sent, so the buddy doesn't hear itself.
+    isPlayingAudio?: () => boolean;
+    // Called for every connection. `afterDrop` is true when a dropped session
+    // couldn't be resumed, so the new one doesn't know what was said so far.
+    getSetup: (afterDrop: boolean) => LiveSessionSetup;
+    onInputTranscription?: (text: string) => void;
+    onOutputTranscription?: (text: string) => void;
+    onAudio?: (base64Pcm: string) => void;
+    // Every microphone chunk, whether or not it's sent to the model.
+    onMicAudio?: (chunk: Blob) => void;
+    onToolCall?: (calls: FunctionCall[]) => void;
+    onTurnComplete?: () => void;
+    onInterrupted?: () => void;
+    // The session couldn't start, or every reconnection attempt failed.
+    onFailed?: (error: unknown) => void;
+}
+
+export const isMicPermissionError = (err: unknown): boolean => (
+    err instanceof Error && (err.name === 'NotAllowedError' || err.message.includes('Permission denied'))
+);
+
+// Owns the microphone and one live session for a view. The session's status
+// follows utils/liveSession.ts, and a session that drops is reconnected with
+// backoff, resumed from its latest handle where possible, and sent again
+// whatever the app had sent since that handle. With turn taking, microphone
+// audio is only sent while the child is talking.
+export function useLiveSession(events: UseLiveSessionOptions) {
+    const [status, dispatch] = useReducer((current: ConversationStatus, event: LiveStatusEvent) => getNextStatus(current, event), ConversationStatus.IDLE);
+    const [micLevel, setMicLevel] = useState(0);
+    const [childTalking, setChildTalking] = useState(false);
+
+    const eventsRef = useRef(events);
+    eventsRef.current = events;
+
+    const sessionRef = useRef<Promise<LiveAudioSession> | null>(null);
+    const captureRef = useRef<MicCapture | null>(null);
+    // Bumped for every connection, so callbacks from an abandoned one are ignored.
+    const connectionRef = useRef(0);
+    const handleRef = useRef<string | undefined>(undefined);
+    const pendingRef = useRef<PendingInput[]>([]);
+    const attemptRef = useRef(0);
+    const reconnectTimerRef = useRef<number | null>(null);
+    const hasOpenedRef = useRef(false);
+    const lastErrorRef = useRef<string | null>(null);
+    // Fixed when the session starts, since the model is told at setup who detects talking.
+    const turnTakingRef = useRef<TurnTaking | undefined>(undefined);
+    const vadRef = useRef<VoiceActivityDetector | null>(null);
+    const activityOpenRef = useRef(false);
+    // The last chunk before the child started talking, which may hold the start of the first word.
+    const prerollRef = useRef<Blob | null>(null);
+
+    const closeSession = useCallback(() => {
+        connectionRef.current++;
+        if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+        sessionRef.current?.then(session => session.close()).catch(() => {});
+        sessionRef.current = null;
+    }, []);
+
+    const release = useCallback(() => {
+        closeSession();
+        captureRef.current?.stop();
+        captureRef.current = null;
+        handleRef.current = undefined;
+        pendingRef.current = [];
+        vadRef.current = null;
+        activityOpenRef.current = false;
+        prerollRef.current = null;
+        setChildTalking(false);
+    }, [closeSession]);
+
+    const fail = useCallback((error: unknown) => {
+        release();
+        dispatch('failed');
+        eventsRef.current.onFailed?.(error);
+    }, [release]);
+
+    const send = useCallback((input: PendingInput) => {
+        sessionRef.current?.then(session => {
+            switch (input.type) {
+                case 'clientContent': return session.sendClientContent(input.params);
+                case 'toolResponse': return session.sendToolResponse(input.params);
+                case 'media': return session.sendRealtimeInput(input.params);
+            }
+        }).catch(() => {});
+    }, []);
+
+    const queue = useCallback((input: PendingInput) => {
+        pendingRef.current.push(input);
+        send(input);
+    }, [send]);
+
+    const sendRealtime = useCallback((params: LiveSendRealtimeInputParameters) => {
+        sessionRef.current?.then(session => session.sendRealtimeInput(params)).catch(() => {});
+    }, []);
+
+    const beginActivity = useCallback(() => {
+        if (activityOpenRef.current) return;
+        activityOpenRef.current = true;
+        setChildTalking(true);
+        sendRealtime({ activityStart: {} });
+    }, [sendRealtime]);
+
+    const endActivity = useCallback(() => {
+        if (!activityOpenRef.current) return;
+        activityOpenRef.current = false;
+        setChildTalking(false);
+        sendRealtime({ activityEnd: {} });
+        dispatch('child-paused');
+    }, [sendRealtime]);
+
+    const handleChunk = useCallback((chunk: Blob, level: number) => {
+        eventsRef.current.onMicAudio?.(chunk);
+        const turnTaking = turnTakingRef.current;
+        const vad = vadRef.current;
+        if (!turnTaking) return sendRealtime({ media: chunk });
+
+        // Holding the button to talk over the buddy is allowed; talking over it hands-free isn't.
+        const isHolding = turnTaking.mode === 'hold' && activityOpenRef.current;
+        if (!isHolding && eventsRef.current.isPlayingAudio?.()) {
+            endActivity();
+            vad?.reset();
+            prerollRef.current = null;
+            return;
+        }
+        if (!vad) {
+            if (activityOpenRef.current) sendRealtime({ media: chunk });
+            return;
+        }
+
+        const event = vad.process(level, CHUNK_MS);
+        if (event === 'speech-start') {
+            beginActivity();
+            if (prerollRef.current) sendRealtime({ media: prerollRef.current });
+        }
+        if (event || vad.isSpeaking()) sendRealtime({ media: chunk });
+        if (event === 'speech-end') endActivity();
+        prerollRef.current = event || vad.isSpeaking() ? null : chunk;
+    }, [sendRealtime, beginActivity, endActivity]);
+
+    const connect = useCallback((isReconnect: boolean) => {
+        const connection = ++connectionRef.current;
+        const isCurrent = () => connection === connectionRef.current;
+        const resumptionHandle = handleRef.current;
+        let opened = false;
+
+        // Before the first open, a close means the session couldn't start at all.
+        // After it, a close nobody asked for is a drop.
+        const onDropped = () => {
+            if (!isCurrent()) return;
+            sessionRef.current = null;
+            if (!hasOpenedRef.current) {
+                fail(new Error(lastErrorRef.current ?? "Couldn't start the live session."));
+                return;
+            }
+            // A handle that didn't get the session going is probably stale.
+            if (!opened) handleRef.current = undefined;
+            dispatch('dropped');
+            if (attemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+                fail(new Error(lastErrorRef.current ?? 'The connection was lost.'));
+                return;
+            }
+            connectionRef.current++;
+            reconnectTimerRef.current = window.setTimeout(() => connect(true), getReconnectDelay(attemptRef.current++));
+        };
+
+        const onMessage = (message: LiveServerMessage) => {
+            if (!isCurrent()) return;
+            const current = eventsRef.current;
+            const content = message.serverContent;
+
+            if (message.toolCall?.functionCalls?.length) current.onToolCall?.(message.toolCall.functionCalls);
+            if (content?.inputTranscription?.text) current.onInputTranscription?.(content.inputTranscription.text);
+            if (content?.outputTranscription?.text) {
+                dispatch('buddy-spoke');
+                current.onOutputTranscription?.(content.outputTranscription.text);
+            }
+            for (const part of content?.modelTurn?.parts ?? []) {
+                if (!part.inlineData?.data) continue;
+                dispatch('buddy-spoke');
+                current.onAudio?.(part.inlineData.data);
+            }
+            if (content?.interrupted) {
+                dispatch('interrupted');
+                current.onInterrupted?.();
+            }
+            if (content?.turnComplete) {
+                dispatch('turn-complete');
+                current.onTurnComplete?.();
+            }
+            // Everything sent before a new handle is part of the session it resumes.
+            if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+                handleRef.current = message.sessionResumptionUpdate.newHandle;
+                pendingRef.current = [];
+            }
+            // The server is about to close the connection, so move to a new one now.
+            if (message.goAway) {
+                sessionRef.current?.then(session => session.close()).catch(() => {});
+                onDropped();
+            }
+        };
+
+        const setup = eventsRef.current.getSetup(isReconnect && !resumptionHandle);
+        sessionRef.current = getAiProvider().connectLive({
+            ...setup,
+            manualActivity: !!turnTakingRef.current,
+            resumptionHandle,
+            callbacks: {
+                onopen: () => {
+                    if (!isCurrent()) return;
+                    opened = true;
+                    lastErrorRef.current = null;
+                    if (!isReconnect) {
+                        hasOpenedRef.current = true;
+                        dispatch('opened');
+                        return;
+                    }
+                    attemptRef.current = 0;
+                    dispatch('reconnected');
+                    const pending = getInputsToReplay(pendingRef.current, !!resumptionHandle);
+                    pendingRef.current = pending;
+                    pending.forEach(send);
+                    if (activityOpenRef.current) sendRealtime({ activityStart: {} });
+                },
+                onmessage: onMessage,
+                // The close that follows an error decides whether to reconnect.
+                onerror: (e: ErrorEvent) => {
+                    console.error('Live session error:', e);
+                    if (isCurrent()) lastErrorRef.current = e.message || null;
+                },
+                onclose: onDropped,
+            },
+        });
+        sessionRef.current.catch(err => {
+            if (!isCurrent()) return;
+            if (!hasOpenedRef.current) fail(err);
+            else onDropped();
+        });
+    }, [fail, send, sendRealtime]);
+
+    const start = useCallback(async () => {
+        release();
+        hasOpenedRef.current = false;
+        attemptRef.current = 0;
+        lastErrorRef.current = null;
+        turnTakingRef.current = eventsRef.current.turnTaking;
+        const turnTaking = turnTakingRef.current;
+        vadRef.current = turnTaking?.mode === 'auto' ? createVoiceActivityDetector(turnTaking.vad) : null;
+        dispatch('start');
+        // A stop, or unmounting, while the browser is still asking for the
+        // microphone bumps the connection, and the start is then abandoned.
+        const connection = connectionRef.current;
+        const isCancelled = () => connection !== connectionRef.current;
+
+        try {
+            const capture = await startMicCapture({ onChunk: handleChunk, onLevel: setMicLevel });
+            if (isCancelled()) {
+                capture.stop();
+                return;
+            }
+            captureRef.current = capture;
+            connect(false);
+        } catch (err) {
+            if (isCancelled()) return;
+            console.error('Live session start error:', err);
+            fail(err);
+        }
+    }, [release, connect, fail, handleChunk]);
+
+    const stop = useCallback(() => {
+        release();
+        dispatch('stopped');
+    }, [release]);
+
+    // For hold-to-talk. The child's turn ends when they let go.
+    const startTalking = useCallback(() => {
+        if (turnTakingRef.current?.mode === 'hold') beginActivity();
+    }, [beginActivity]);
+    const stopTalking = useCallback(() => {
+        if (turnTakingRef.current?.mode === 'hold') endActivity();
+    }, [endActivity]);
+
+    const sendClientContent = useCallback((params: LiveSendClientContentParameters) => queue({ type: 'clientContent', params }), [queue]);
+    const sendToolResponse = useCallback((params: LiveSendToolResponseParameters) => queue({ type: 'toolResponse', params }), [queue]);
+    // For pictures and other one-off media. Microphone audio is streamed by the hook itself.
+    const sendMedia = useCallback((params: LiveSendRealtimeInputParameters) => queue({ type: 'media', params }), [queue]);
+
+    useEffect(() => { if (status !== ConversationStatus.LISTENING) setMicLevel(0); }, [status]);
+
+    useEffect(() => release, [release]);
+
+    return { status, micLevel, childTalking, start, stop, startTalking, stopTalking, sendClientContent, sendToolResponse, sendMedia };
+}
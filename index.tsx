@@ -2,6 +2,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { initStorage } from './utils/storage';
+import { moveHistoryImagesToBlobStore } from './utils/history';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +11,13 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+// The app reads saved data synchronously, so storage is loaded before the first render.
+initStorage().then(() => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+  moveHistoryImagesToBlobStore();
+});
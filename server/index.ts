@@ -0,0 +1,190 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { Duplex } from 'node:stream';
+import { AiProvider } from '../utils/aiProvider';
+import { createGeminiProvider } from '../utils/geminiProvider';
+import { AI_SERVER_PATH, AiServerErrorResponse } from '../utils/aiServerProtocol';
+import { ADDRESS_RATE_LIMITS, AiAction, DEVICE_RATE_LIMITS, RateLimitResult, createRateLimiter } from './rateLimit';
+import { issueSessionToken, verifySessionToken } from './sessionTokens';
+import { liveSocketServer, relayLiveSession } from './liveProxy';
+import { InvalidRequestError, parseImageRequest, parseJsonRequest, parseSessionRequest, parseSpeechRequest, parseTextRequest } from './requests';
+
+// The only place the Gemini key lives. The browser talks to this server, which
+// checks its session token and rate limits, then makes the call on its behalf.
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; the key can still come from the environment.
+}
+
+const PORT = Number(process.env.AI_SERVER_PORT) || 3001;
+const MAX_BODY_BYTES = 10 * 1024 * 1024; // Homework photos are sent inline
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+// Proxies whose X-Forwarded-For is believed: by default only the Vite dev and
+// preview servers on this machine. Set TRUSTED_PROXIES to an empty string when
+// the server is reached directly.
+const TRUSTED_PROXIES = new Set((process.env.TRUSTED_PROXIES ?? '127.0.0.1,::1,::ffff:127.0.0.1').split(',').map(address => address.trim()).filter(Boolean));
+
+const apiKey = process.env.GEMINI_API_KEY;
+const provider: AiProvider | null = apiKey ? createGeminiProvider(apiKey) : null;
+if (!provider) console.warn('GEMINI_API_KEY is not set; AI requests will fail until it is.');
+
+const deviceLimiter = createRateLimiter(DEVICE_RATE_LIMITS);
+const addressLimiter = createRateLimiter(ADDRESS_RATE_LIMITS);
+setInterval(() => {
+  deviceLimiter.sweep();
+  addressLimiter.sweep();
+}, SWEEP_INTERVAL_MS).unref();
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public retryAfterSeconds?: number) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: HttpError) => {
+  const body: AiServerErrorResponse = { error: error.message, retryAfterSeconds: error.retryAfterSeconds };
+  sendJson(res, error.status, body, error.retryAfterSeconds ? { 'Retry-After': String(error.retryAfterSeconds) } : {});
+};
+
+// Behind a trusted proxy every request comes from the proxy, so the forwarded
+// address is the one that identifies the browser. The proxy appends the address
+// it saw to any X-Forwarded-For the browser sent, so only the last entry is its
+// own; the ones before it are whatever the caller chose to send.
+const getClientAddress = (req: IncomingMessage): string => {
+  const remote = req.socket.remoteAddress ?? 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (!TRUSTED_PROXIES.has(remote) || typeof forwarded !== 'string') return remote;
+  return forwarded.split(',').map(address => address.trim()).filter(Boolean).pop() ?? remote;
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'That request is too big.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString() || '{}'));
+    } catch {
+      reject(new HttpError(400, 'The request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const enforce = ({ allowed, retryAfterSeconds }: RateLimitResult) => {
+  if (!allowed) throw new HttpError(429, 'Too many requests. Please wait a moment and try again.', retryAfterSeconds);
+};
+
+const authorize = (req: IncomingMessage, token: string | null | undefined, action: AiAction): { ai: AiProvider; deviceId: string } => {
+  const deviceId = verifySessionToken(token);
+  if (!deviceId) throw new HttpError(401, 'The session has expired.');
+  enforce(addressLimiter.check(getClientAddress(req), action));
+  enforce(deviceLimiter.check(deviceId, action));
+  if (!provider) throw new HttpError(503, 'GEMINI_API_KEY is not set on the AI server.');
+  return { ai: provider, deviceId };
+};
+
+const getBearerToken = (req: IncomingMessage) => req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? null;
+
+// Each route checks its own body's shape; see server/requests.ts.
+type RouteHandler = (req: IncomingMessage, res: ServerResponse, body: unknown) => Promise<void>;
+
+const routes: Record<string, RouteHandler> = {
+  '/session': async (req, res, body) => {
+    enforce(addressLimiter.check(getClientAddress(req), 'session'));
+    sendJson(res, 200, issueSessionToken(parseSessionRequest(body).deviceId));
+  },
+
+  '/text': async (req, res, body) => {
+    const { ai } = authorize(req, getBearerToken(req), 'text');
+    sendJson(res, 200, { text: await ai.generateText(parseTextRequest(body)) });
+  },
+
+  // Newline-delimited JSON, one response chunk per line. An error after the
+  // first chunk can only be reported in the stream itself.
+  '/text/stream': async (req, res, body) => {
+    const { ai } = authorize(req, getBearerToken(req), 'text');
+    const stream = ai.streamText(parseTextRequest(body));
+    const first = await stream.next();
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+    try {
+      for (let chunk = first; !chunk.done; chunk = await stream.next()) {
+        res.write(`${JSON.stringify({ candidates: chunk.value.candidates })}\n`);
+      }
+    } catch (error) {
+      console.error('Text stream error:', error);
+      res.write(`${JSON.stringify({ error: 'The AI service had a problem. Please try again.' })}\n`);
+    }
+    res.end();
+  },
+
+  '/json': async (req, res, body) => {
+    const { ai } = authorize(req, getBearerToken(req), 'json');
+    sendJson(res, 200, { json: await ai.generateJson(parseJsonRequest(body)) });
+  },
+
+  '/speech': async (req, res, body) => {
+    const { ai } = authorize(req, getBearerToken(req), 'speech');
+    const { text, voiceName } = parseSpeechRequest(body);
+    sendJson(res, 200, { audio: await ai.generateSpeech(text, voiceName) });
+  },
+
+  '/image': async (req, res, body) => {
+    const { ai } = authorize(req, getBearerToken(req), 'image');
+    sendJson(res, 200, { imageUrl: await ai.generateImage(parseImageRequest(body).prompt) });
+  },
+};
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const route = pathname.startsWith(`${AI_SERVER_PATH}/`) ? routes[pathname.slice(AI_SERVER_PATH.length)] : undefined;
+  if (!route) return sendJson(res, 404, { error: 'Not found.' });
+  if (req.method !== 'POST') return sendJson(res, 405, { error: 'Use POST.' }, { Allow: 'POST' });
+
+  try {
+    await route(req, res, await readBody(req));
+  } catch (error) {
+    if (res.headersSent) return res.end();
+    if (error instanceof HttpError) return sendError(res, error);
+    if (error instanceof InvalidRequestError) return sendError(res, new HttpError(400, error.message));
+    console.error(`${pathname} failed:`, error);
+    sendError(res, new HttpError(502, 'The AI service had a problem. Please try again.'));
+  }
+});
+
+const rejectUpgrade = (socket: Duplex, error: HttpError) => {
+  socket.end(`HTTP/1.1 ${error.status} ${error.message}\r\nConnection: close\r\n\r\n`);
+};
+
+// Browsers can't set headers on a WebSocket, so the token comes in the query string.
+server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (url.pathname !== `${AI_SERVER_PATH}/live`) return rejectUpgrade(socket, new HttpError(404, 'Not Found'));
+
+  let authorized: { ai: AiProvider; deviceId: string };
+  try {
+    authorized = authorize(req, url.searchParams.get('token'), 'live');
+  } catch (error) {
+    return rejectUpgrade(socket, error instanceof HttpError ? error : new HttpError(500, 'Server Error'));
+  }
+  const { ai, deviceId } = authorized;
+  liveSocketServer.handleUpgrade(req, socket, head, ws => relayLiveSession(ws, ai, deviceId));
+});
+
+server.listen(PORT, () => {
+  console.log(`AI server listening on http://localhost:${PORT}${AI_SERVER_PATH}`);
+});
@@ -0,0 +1,60 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import { AiProvider, LiveAudioSession } from '../utils/aiProvider';
+import { LiveServerFrame } from '../utils/aiServerProtocol';
+import { parseLiveClientFrame } from './requests';
+
+// Microphone chunks are a few kilobytes; anything much bigger isn't from the app.
+const MAX_FRAME_BYTES = 256 * 1024;
+
+export const liveSocketServer = new WebSocketServer({ noServer: true, maxPayload: MAX_FRAME_BYTES });
+
+// Relays one browser socket to one Gemini live session. The browser's first
+// frame must be the setup; everything after it is checked and forwarded as it
+// comes, and whichever side closes first closes the other.
+export function relayLiveSession(socket: WebSocket, provider: AiProvider, deviceId: string) {
+  let session: Promise<LiveAudioSession> | null = null;
+
+  const send = (frame: LiveServerFrame) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame));
+  };
+
+  socket.on('message', (data: unknown) => {
+    const frame = parseLiveClientFrame(data);
+    if (!frame) return socket.close(1003, 'Unreadable frame');
+
+    if (frame.type === 'setup') {
+      if (session) return;
+      session = provider.connectLive({
+        instruction: frame.instruction,
+        voiceName: frame.voiceName,
+        manualActivity: frame.manualActivity,
+        resumptionHandle: frame.resumptionHandle,
+        callbacks: {
+          onopen: () => send({ type: 'open' }),
+          onmessage: message => send({ type: 'message', message }),
+          onerror: event => send({ type: 'error', error: event.message || 'The live session had a problem.' }),
+          onclose: () => socket.close(),
+        },
+      });
+      session.catch(error => {
+        console.error(`Live session for device ${deviceId} failed to start:`, error);
+        send({ type: 'error', error: "Couldn't start the live session." });
+        socket.close();
+      });
+      return;
+    }
+
+    if (!session) return socket.close(1008, 'Setup must come first');
+    session.then(live => {
+      switch (frame.type) {
+        case 'realtimeInput': return live.sendRealtimeInput(frame.params);
+        case 'clientContent': return live.sendClientContent(frame.params);
+        case 'toolResponse': return live.sendToolResponse(frame.params);
+      }
+    }).catch(() => {});
+  });
+
+  socket.on('close', () => {
+    session?.then(live => live.close()).catch(() => {});
+  });
+}
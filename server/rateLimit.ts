@@ -0,0 +1,59 @@
+export type AiAction = 'text' | 'json' | 'speech' | 'image' | 'live';
+export type RateLimitedAction = 'session' | AiAction;
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+export const DEVICE_RATE_LIMITS: Record<AiAction, RateLimit> = {
+  text: { limit: 30, windowMs: 60 * 1000 },
+  json: { limit: 30, windowMs: 60 * 1000 },
+  speech: { limit: 20, windowMs: 60 * 1000 },
+  image: { limit: 10, windowMs: 60 * 1000 },
+  live: { limit: 6, windowMs: 60 * 1000 },
+};
+
+// A browser can make up as many device ids as it gets session tokens for, so
+// every action is limited per IP address too. These leave room for a few
+// devices sharing a home connection.
+export const ADDRESS_RATE_LIMITS: Record<RateLimitedAction, RateLimit> = {
+  session: { limit: 10, windowMs: 60 * 1000 },
+  text: { limit: 90, windowMs: 60 * 1000 },
+  json: { limit: 90, windowMs: 60 * 1000 },
+  speech: { limit: 60, windowMs: 60 * 1000 },
+  image: { limit: 30, windowMs: 60 * 1000 },
+  live: { limit: 18, windowMs: 60 * 1000 },
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// A sliding window: each key keeps the times of its recent requests.
+export function createRateLimiter<A extends string>(limits: Record<A, RateLimit>) {
+  const hits = new Map<string, number[]>();
+
+  const check = (key: string, action: A, now: number = Date.now()): RateLimitResult => {
+    const { limit, windowMs } = limits[action];
+    const id = `${action}:${key}`;
+    const recent = (hits.get(id) ?? []).filter(time => time > now - windowMs);
+    if (recent.length >= limit) {
+      hits.set(id, recent);
+      return { allowed: false, retryAfterSeconds: Math.ceil((recent[0] + windowMs - now) / 1000) };
+    }
+    hits.set(id, [...recent, now]);
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+
+  // Forgets keys with no requests left in their window, so idle devices don't pile up.
+  const sweep = (now: number = Date.now()) => {
+    for (const [id, times] of hits) {
+      const { windowMs } = limits[id.slice(0, id.indexOf(':')) as A];
+      if (times.every(time => time <= now - windowMs)) hits.delete(id);
+    }
+  };
+
+  return { check, sweep };
+}
@@ -0,0 +1,217 @@
+import {
+  Content, ContentListUnion, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, Schema,
+} from '@google/genai';
+import { AppMode, FeedbackPreferenceId, ReadingLevel } from '../types';
+import {
+  ImageRequestBody, JsonRequestBody, LiveClientFrame, SessionRequest, SpeechRequestBody, TextRequestBody,
+} from '../utils/aiServerProtocol';
+import { FEEDBACK_PREFERENCES } from '../utils/feedback';
+import {
+  ConversationLine, InstructionSpec, MAX_GRADE_LENGTH, PromptContext, READING_LEVELS, RESUME_MESSAGE_LIMIT, ResumeContext, cleanInterests, cleanProfileText,
+} from '../utils/prompts';
+import { APP_MODES } from '../utils/schema';
+import { isValidDeviceId } from './sessionTokens';
+
+// Checks everything the browser sends before any of it reaches Gemini, and
+// copies out only the fields the app uses. A request that doesn't look like one
+// the app would make is turned away rather than passed on.
+
+export class InvalidRequestError extends Error {}
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => !!value && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: unknown, maxLength: number): value is string => typeof value === 'string' && value.length <= maxLength;
+const isOptionalString = (value: unknown, maxLength: number): value is string | undefined => value === undefined || isString(value, maxLength);
+
+function fail(message: string): never {
+  throw new InvalidRequestError(message);
+}
+
+const requireObject = (value: unknown, name: string): Fields => isObject(value) ? value : fail(`"${name}" must be an object.`);
+
+// The buddy name, grade and interests end up inside the system instruction. Buddy
+// names come from a fixed list, so anything else is turned away; the grade and
+// interests are typed by parents, so they're cleaned the same way the app does.
+const BUDDY_NAME_PATTERN = /^[\p{L}\p{N} '-]{1,30}$/u;
+const MAX_LINE_LENGTH = 4000;
+const MAX_SUMMARY_LENGTH = 2000;
+const MAX_PROMPT_LENGTH = 8000;
+const VOICE_NAME_PATTERN = /^[A-Za-z]{1,30}$/;
+
+const isReadingLevel = (value: unknown): value is ReadingLevel => READING_LEVELS.some(level => level.id === value);
+const isFeedbackPreferenceId = (value: unknown): value is FeedbackPreferenceId => typeof value === 'string' && value in FEEDBACK_PREFERENCES;
+const isAge = (value: unknown): value is number | null => value === null || (Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 18);
+const isVoiceName = (value: unknown): value is string => typeof value === 'string' && VOICE_NAME_PATTERN.test(value);
+const isAppMode = (value: unknown): value is AppMode => APP_MODES.includes(value as AppMode);
+
+function parsePromptContext(value: unknown): PromptContext {
+  const context = requireObject(value, 'instruction.context');
+  const { buddyName, age, grade, readingLevel, interests, preferences } = context;
+  if (typeof buddyName !== 'string' || !BUDDY_NAME_PATTERN.test(buddyName)) fail('The buddy name is invalid.');
+  if (!isAge(age)) fail('The age is invalid.');
+  if (grade !== undefined && typeof grade !== 'string') fail('The grade is invalid.');
+  if (!isReadingLevel(readingLevel)) fail('The reading level is invalid.');
+  if (!Array.isArray(interests) || !interests.every((interest): interest is string => typeof interest === 'string')) fail('The interests are invalid.');
+  if (!Array.isArray(preferences) || !preferences.every(isFeedbackPreferenceId)) fail('The feedback preferences are invalid.');
+  return {
+    buddyName,
+    age,
+    grade: typeof grade === 'string' ? cleanProfileText(grade, MAX_GRADE_LENGTH) || undefined : undefined,
+    readingLevel,
+    interests: cleanInterests(interests),
+    preferences,
+  };
+}
+
+// Only the most recent lines, cut short, are ever put in the instruction.
+function parseLines(value: unknown): ConversationLine[] {
+  if (!Array.isArray(value)) fail('The conversation lines are invalid.');
+  return value.slice(-RESUME_MESSAGE_LIMIT).map((line: unknown): ConversationLine => {
+    if (!isObject(line) || (line.speaker !== 'user' && line.speaker !== 'ai') || typeof line.text !== 'string') {
+      return fail('The conversation lines are invalid.');
+    }
+    return { speaker: line.speaker, text: line.text.slice(0, MAX_LINE_LENGTH) };
+  });
+}
+
+function parseResumeContext(value: unknown): ResumeContext {
+  const resume = requireObject(value, 'instruction.resume');
+  const { startedAt, summary } = resume;
+  if (typeof startedAt !== 'number' || !Number.isFinite(startedAt)) fail('The resumed session date is invalid.');
+  if (!isOptionalString(summary, MAX_SUMMARY_LENGTH)) fail('The resumed session summary is invalid.');
+  return { startedAt, summary, lines: parseLines(resume.lines) };
+}
+
+export function parseInstructionSpec(value: unknown): InstructionSpec {
+  const spec = requireObject(value, 'instruction');
+  if (spec.kind === 'transcribe-only') return { kind: 'transcribe-only' };
+  if (spec.kind !== 'buddy') return fail('The instruction kind is unknown.');
+  if (!isAppMode(spec.mode)) fail('The mode is unknown.');
+  return {
+    kind: 'buddy',
+    mode: spec.mode,
+    context: parsePromptContext(spec.context),
+    resume: spec.resume === undefined ? undefined : parseResumeContext(spec.resume),
+    reconnectLines: spec.reconnectLines === undefined ? undefined : parseLines(spec.reconnectLines),
+  };
+}
+
+// The parts the app sends: text, homework photos, and the function calls and
+// answers of a tool round.
+const isPart = (value: unknown): boolean => {
+  if (!isObject(value)) return false;
+  const keys = Object.keys(value);
+  if (keys.length !== 1) return false;
+  const { text, inlineData, functionCall, functionResponse } = value;
+  if (keys[0] === 'text') return typeof text === 'string';
+  if (keys[0] === 'inlineData') return isObject(inlineData) && isString(inlineData.mimeType, 100) && inlineData.mimeType.startsWith('image/') && typeof inlineData.data === 'string';
+  if (keys[0] === 'functionCall') return isObject(functionCall) && typeof functionCall.name === 'string';
+  if (keys[0] === 'functionResponse') return isObject(functionResponse) && typeof functionResponse.name === 'string';
+  return false;
+};
+
+const isContent = (value: unknown): value is Content => (
+  isObject(value) && (value.role === 'user' || value.role === 'model')
+  && Array.isArray(value.parts) && value.parts.length > 0 && value.parts.every(isPart)
+);
+
+function parseContents(value: unknown): ContentListUnion {
+  if (typeof value === 'string' && value.trim()) return value;
+  if (Array.isArray(value) && value.length > 0 && value.every(isContent)) return value;
+  return fail('"contents" must be a prompt or a list of chat turns.');
+}
+
+const requireString = (value: unknown, name: string, maxLength: number): string => (
+  typeof value === 'string' && value.trim() && value.length <= maxLength ? value : fail(`"${name}" is required.`)
+);
+
+export function parseSessionRequest(value: unknown): SessionRequest {
+  const body = requireObject(value, 'body');
+  return isValidDeviceId(body.deviceId) ? { deviceId: body.deviceId } : fail('A valid "deviceId" is required.');
+}
+
+export function parseTextRequest(value: unknown): TextRequestBody {
+  const body = requireObject(value, 'body');
+  return {
+    contents: parseContents(body.contents),
+    instruction: body.instruction === undefined ? undefined : parseInstructionSpec(body.instruction),
+  };
+}
+
+// Schemas are plain data that only shape the reply, so only their outline is checked.
+export function parseJsonRequest(value: unknown): JsonRequestBody {
+  const body = requireObject(value, 'body');
+  const schema = requireObject(body.schema, 'schema');
+  if (typeof schema.type !== 'string') fail('"schema" needs a type.');
+  return { contents: parseContents(body.contents), schema: schema as Schema };
+}
+
+export function parseSpeechRequest(value: unknown): SpeechRequestBody {
+  const body = requireObject(value, 'body');
+  if (!isVoiceName(body.voiceName)) fail('A valid "voiceName" is required.');
+  return { text: requireString(body.text, 'text', MAX_PROMPT_LENGTH), voiceName: body.voiceName };
+}
+
+export function parseImageRequest(value: unknown): ImageRequestBody {
+  const body = requireObject(value, 'body');
+  return { prompt: requireString(body.prompt, 'prompt', MAX_PROMPT_LENGTH) };
+}
+
+const REALTIME_INPUT_FIELDS = ['media', 'activityStart', 'activityEnd', 'audioStreamEnd'];
+
+const isRealtimeInput = (params: Fields): params is Fields & LiveSendRealtimeInputParameters => {
+  const keys = Object.keys(params);
+  if (keys.length === 0 || !keys.every(key => REALTIME_INPUT_FIELDS.includes(key))) return false;
+  const { media } = params;
+  return media === undefined || (isObject(media) && typeof media.data === 'string'
+    && isString(media.mimeType, 100) && (media.mimeType.startsWith('audio/pcm') || media.mimeType.startsWith('image/')));
+};
+
+const isClientContent = (params: Fields): params is Fields & LiveSendClientContentParameters => (
+  (isContent(params.turns) || (Array.isArray(params.turns) && params.turns.every(isContent)))
+  && (params.turnComplete === undefined || typeof params.turnComplete === 'boolean')
+);
+
+const isToolResponse = (params: Fields): params is Fields & LiveSendToolResponseParameters => {
+  const responses = Array.isArray(params.functionResponses) ? params.functionResponses : [params.functionResponses];
+  return responses.length > 0 && responses.every(response => isObject(response) && typeof response.name === 'string');
+};
+
+// Returns null for a frame the app would never send.
+export function parseLiveClientFrame(data: unknown): LiveClientFrame | null {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(String(data));
+  } catch {
+    return null;
+  }
+  if (!isObject(frame)) return null;
+
+  try {
+    switch (frame.type) {
+      case 'setup': {
+        const { voiceName, resumptionHandle } = frame;
+        if ((voiceName !== undefined && !isVoiceName(voiceName)) || !isOptionalString(resumptionHandle, 4096)) return null;
+        return {
+          type: 'setup',
+          instruction: parseInstructionSpec(frame.instruction),
+          voiceName: isVoiceName(voiceName) ? voiceName : undefined,
+          manualActivity: frame.manualActivity === true,
+          resumptionHandle,
+        };
+      }
+      case 'realtimeInput':
+        return isObject(frame.params) && isRealtimeInput(frame.params) ? { type: 'realtimeInput', params: frame.params } : null;
+      case 'clientContent':
+        return isObject(frame.params) && isClientContent(frame.params) ? { type: 'clientContent', params: frame.params } : null;
+      case 'toolResponse':
+        return isObject(frame.params) && isToolResponse(frame.params) ? { type: 'toolResponse', params: frame.params } : null;
+      default:
+        return null;
+    }
+  } catch (error) {
+    if (error instanceof InvalidRequestError) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,43 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// Session tokens are signed rather than stored, so the server keeps no session
+// state. Without SESSION_SECRET a new secret is made at startup, and browsers
+// simply ask for a fresh token after a restart.
+
+export const SESSION_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+interface SessionClaims {
+  deviceId: string;
+  expiresAt: number;
+}
+
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+export const isValidDeviceId = (deviceId: unknown): deviceId is string => typeof deviceId === 'string' && DEVICE_ID_PATTERN.test(deviceId);
+
+const secret = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
+
+const sign = (payload: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+export function issueSessionToken(deviceId: string, now: number = Date.now()): { token: string; expiresAt: number } {
+  const claims: SessionClaims = { deviceId, expiresAt: now + SESSION_TOKEN_TTL_MS };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, expiresAt: claims.expiresAt };
+}
+
+// Returns the device a token was issued to, or null if it's forged, malformed or expired.
+export function verifySessionToken(token: string | undefined | null, now: number = Date.now()): string | null {
+  const [payload, signature, ...rest] = (token ?? '').split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  try {
+    const claims: SessionClaims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return isValidDeviceId(claims.deviceId) && claims.expiresAt > now ? claims.deviceId : null;
+  } catch {
+    return null;
+  }
+}
@@ -4,9 +4,28 @@ export enum ConversationStatus {
   PROCESSING = 'PROCESSING',
   THINKING = 'THINKING',
   SPEAKING = 'SPEAKING',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR',
 }
 
+export type AppMode = 'homework' | 'free-chat' | 'learning' | 'voice-to-story' | 'read-and-learn' | 'learning-games' | 'brain-challenges';
+export type LearningMode = 'text' | 'voice';
+
+// How the child takes turns in voice chats: hands-free, or holding a button while talking.
+export type TalkMode = 'auto' | 'hold';
+
+export type VadSensitivity = 'low' | 'medium' | 'high';
+
+export type ModerationAction = 'allow' | 'redirect' | 'block';
+export type ModerationCategory = 'personal-info' | 'unsafe-topic' | 'self-harm' | 'custom' | 'classifier';
+
+export interface ModerationFlag {
+  action: Exclude<ModerationAction, 'allow'>;
+  categories: ModerationCategory[];
+  source: 'child' | 'ai' | 'image-prompt';
+  originalText: string; // What was actually said, kept for parents only
+}
+
 export interface Message {
   id: number;
   speaker: 'user' | 'ai';
@@ -14,13 +33,29 @@ export interface Message {
   imageUrl?: string;
   isGeneratingImage?: boolean;
   feedback?: 'up' | 'down' | null;
+  moderation?: ModerationFlag;
+  audioChunks?: string[]; // The buddy's spoken answer as base64 24kHz PCM, for replay. Never saved
+}
+
+export interface SessionSummary {
+  text: string;
+  tags: string[];
+  notableMoments: string[];
+  generatedAt: number;
 }
 
 export interface SessionRecord {
   id: number;
-  mode: 'homework' | 'free-chat' | 'learning' | 'voice-to-story' | 'read-and-learn';
+  mode: AppMode;
   timestamp: number;
+  startedAt?: number; // Older sessions only have `timestamp`
+  endedAt?: number;
+  activeMinutes?: number; // Set once a session is resumed, so the time in between isn't counted
+  buddyId?: string;
   messages: Message[];
+  attempts?: BrainAttempt[];
+  summary?: SessionSummary;
+  summaryStatus?: 'pending' | 'failed'; // Cleared once `summary` is set
 }
 
 export interface Buddy {
@@ -28,4 +63,112 @@ export interface Buddy {
   name: string;
   voice: string; // Corresponds to Gemini API voice names
   icon: string;
-}
\ No newline at end of file
+}
+export interface ProgressState {
+  xp: number;
+  currentStreak: number;
+  longestStreak: number;
+  lastActiveDay: string | null; // Local calendar day, YYYY-MM-DD
+  sessionsCompleted: number;
+  messagesSent: number;
+  storiesCreated: number;
+  challengesCompleted: number;
+}
+
+export type ChallengeMetric = 'minutes' | 'sessions' | 'messages' | 'stories';
+
+export interface DailyChallenge {
+  id: string;
+  mode: AppMode;
+  title: string;
+  metric: ChallengeMetric;
+  target: number;
+}
+
+export interface DailyChallengeState {
+  day: string; // Local calendar day, YYYY-MM-DD
+  challengeId: string;
+  progress: number;
+  completed: boolean;
+}
+
+export interface QuizQuestion {
+  type: 'multiple-choice' | 'true-false';
+  question: string;
+  options: string[];
+  correctIndex: number;
+  explanation: string;
+}
+
+export type BrainSubject = 'logic' | 'riddles' | 'mental-math';
+
+export interface BrainAttempt {
+  id: number;
+  subject: BrainSubject;
+  difficulty: number;
+  question: string;
+  expectedAnswer: string;
+  answer: string;
+  correct: boolean;
+  timeTakenMs: number;
+  timestamp: number;
+}
+
+export interface BrainSubjectState {
+  difficulty: number;
+  recentResults: boolean[]; // Most recent last
+}
+
+export type ReadingLevel = 'pre-reader' | 'early' | 'developing' | 'fluent';
+
+export interface ChildProfile {
+  id: string;
+  name: string;
+  avatar: string; // Emoji
+  birthYear?: number;
+  grade?: string;
+  readingLevel?: ReadingLevel;
+  interests?: string[];
+  buddyId: string;
+  createdAt: number;
+}
+
+export interface Settings {
+  learningMode: LearningMode;
+  historyLimit: number; // Sessions kept per profile; older ones are deleted
+  reexplainOnDislike: boolean; // A thumbs down asks the buddy to explain again more simply
+  talkMode: TalkMode;
+  vadSensitivity: VadSensitivity; // How quiet a voice still counts as talking
+  pauseMs: number; // How long the child can pause before their turn ends
+}
+
+export interface QuarantinedRecord {
+  id: string;
+  storageKey: string; // Where the record was found
+  reason: string;
+  record: unknown; // Kept as it was stored, apart from inline pictures
+  quarantinedAt: number;
+}
+
+export interface TimeWindow {
+  start: string; // Local time, HH:MM
+  end: string; // May be earlier than `start` for a window that runs past midnight
+}
+
+export interface ScreenTimeRules {
+  dailyMinutes: number | null; // null means no daily limit
+  modeMinutes: Partial<Record<AppMode, number>>;
+  allowedWindows: TimeWindow[]; // Empty means any time of day
+}
+
+export interface ScreenTimeUsage {
+  day: string; // Local calendar day, YYYY-MM-DD
+  minutesByMode: Partial<Record<AppMode, number>>;
+}
+
+export type FeedbackPreferenceId = 'shorter-answers' | 'simpler-words';
+
+export interface FeedbackPreference {
+  id: FeedbackPreferenceId;
+  detectedAt: number;
+}
@@ -0,0 +1,73 @@
+import {
+  ContentListUnion, GenerateContentResponse, LiveCallbacks, LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, Schema,
+} from '@google/genai';
+import { createAiServerProvider } from './aiServerProvider';
+import { InstructionSpec } from './prompts';
+import { createFakeProvider } from './fakeAiProvider';
+
+// Every call the app makes to a model goes through an `AiProvider`, so the views
+// never depend on one SDK or model name. In the browser that's the AI server,
+// which holds the Gemini key (see server/index.ts). Set AI_PROVIDER=fake to run
+// the whole app offline against scripted replies instead.
+
+export interface LiveAudioSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+// Providers turn an InstructionSpec into the system instruction and tools
+// themselves (see buildInstruction and getInstructionTools), so neither is ever
+// taken from the browser as it is.
+export interface LiveSessionOptions {
+  instruction: InstructionSpec;
+  // Sessions without a voice only transcribe the child and never talk back.
+  voiceName?: string;
+  // The app marks when the child starts and stops talking with activityStart and
+  // activityEnd, instead of the model listening for it.
+  manualActivity?: boolean;
+  // From the latest `sessionResumptionUpdate`, to carry on a session that dropped.
+  resumptionHandle?: string;
+  callbacks: LiveCallbacks;
+}
+
+export interface TextRequest {
+  contents: ContentListUnion;
+  instruction?: InstructionSpec;
+}
+
+export interface JsonRequest {
+  contents: ContentListUnion;
+  schema: Schema;
+}
+
+export interface AiProvider {
+  connectLive(options: LiveSessionOptions): Promise<LiveAudioSession>;
+  generateText(request: TextRequest): Promise<string>;
+  // Yields raw response chunks so callers can pick out text, thoughts and function calls.
+  streamText(request: TextRequest): AsyncGenerator<GenerateContentResponse>;
+  // Resolves to the JSON text, left for the caller to parse and validate.
+  generateJson(request: JsonRequest): Promise<string>;
+  // Base64 16-bit PCM at 24kHz, or null if no audio came back.
+  generateSpeech(text: string, voiceName: string): Promise<string | null>;
+  // A data URL, or null if no image came back.
+  generateImage(prompt: string): Promise<string | null>;
+}
+
+export type AiProviderName = 'server' | 'fake';
+
+export const getAiProviderName = (): AiProviderName => process.env.AI_PROVIDER === 'fake' ? 'fake' : 'server';
+
+let provider: AiProvider | null = null;
+
+export function getAiProvider(): AiProvider {
+  provider = provider ?? (getAiProviderName() === 'fake' ? createFakeProvider() : createAiServerProvider());
+  return provider;
+}
+
+// Swaps in another provider, e.g. a fake with its own script. Pass null to go back to the default.
+export function setAiProvider(next: AiProvider | null) {
+  provider = next;
+}
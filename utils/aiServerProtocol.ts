@@ -0,0 +1,64 @@
+import {
+  ContentListUnion, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, LiveServerMessage, Schema,
+} from '@google/genai';
+import { InstructionSpec } from './prompts';
+
+// What the browser and the AI server (server/index.ts) send each other. The
+// browser never sees the Gemini key: it asks the server for a short-lived
+// session token and sends it with every request. System instructions and tools
+// are never sent as they are: the server builds them from an InstructionSpec.
+
+export const AI_SERVER_PATH = '/api';
+
+export interface SessionTokenResponse {
+  token: string;
+  expiresAt: number;
+}
+
+export interface SessionRequest {
+  deviceId: string;
+}
+
+export interface TextRequestBody {
+  contents: ContentListUnion;
+  instruction?: InstructionSpec;
+}
+
+export interface JsonRequestBody {
+  contents: ContentListUnion;
+  schema: Schema;
+}
+
+export interface SpeechRequestBody {
+  text: string;
+  voiceName: string;
+}
+
+export interface ImageRequestBody {
+  prompt: string;
+}
+
+export interface AiServerErrorResponse {
+  error: string;
+  retryAfterSeconds?: number; // Set when a rate limit was hit
+}
+
+// The first frame on a live socket; the server opens the Gemini session with it.
+export interface LiveSetupFrame {
+  type: 'setup';
+  instruction: InstructionSpec;
+  voiceName?: string;
+  manualActivity?: boolean;
+  resumptionHandle?: string;
+}
+
+export type LiveClientFrame =
+  | LiveSetupFrame
+  | { type: 'realtimeInput'; params: LiveSendRealtimeInputParameters }
+  | { type: 'clientContent'; params: LiveSendClientContentParameters }
+  | { type: 'toolResponse'; params: LiveSendToolResponseParameters };
+
+export type LiveServerFrame =
+  | { type: 'open' }
+  | { type: 'message'; message: LiveServerMessage }
+  | { type: 'error'; error: string };
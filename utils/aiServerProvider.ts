@@ -0,0 +1,136 @@
+import { GenerateContentResponse, LiveServerMessage } from '@google/genai';
+import { AiProvider, LiveAudioSession } from './aiProvider';
+import { AI_SERVER_PATH, AiServerErrorResponse, LiveClientFrame, LiveServerFrame, SessionTokenResponse } from './aiServerProtocol';
+import { getItem, setItem } from './storage';
+
+// The browser side of server/index.ts. Requests carry a short-lived session
+// token tied to this device, which the server uses for rate limiting.
+
+export const DEVICE_ID_KEY = 'askie-kids-device-id';
+
+// Tokens are renewed a little early so one never expires mid-request.
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+export class AiServerError extends Error {
+  constructor(message: string, public status: number, public retryAfterSeconds?: number) {
+    super(message);
+  }
+}
+
+// Shared by every profile, since rate limits apply to the device as a whole.
+function getDeviceId(): string {
+  const saved = getItem<string>(DEVICE_ID_KEY);
+  if (saved) return saved;
+  const deviceId = crypto.randomUUID();
+  setItem(DEVICE_ID_KEY, deviceId);
+  return deviceId;
+}
+
+const readError = async (res: Response): Promise<AiServerError> => {
+  const body: Partial<AiServerErrorResponse> = await res.json().catch(() => ({}));
+  const message = res.status === 429 ? 'Slow down a little! Please try again in a moment.' : body.error || 'The AI server had a problem.';
+  return new AiServerError(message, res.status, body.retryAfterSeconds);
+};
+
+const toResponse = (data: Partial<GenerateContentResponse>) => Object.assign(new GenerateContentResponse(), data);
+const toLiveMessage = (data: Partial<LiveServerMessage>) => Object.assign(new LiveServerMessage(), data);
+
+export function createAiServerProvider(baseUrl: string = AI_SERVER_PATH): AiProvider {
+  let session: Promise<SessionTokenResponse> | null = null;
+
+  const getToken = async (): Promise<string> => {
+    const current = session && await session.catch(() => null);
+    if (current && current.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) return current.token;
+
+    session = fetch(`${baseUrl}/session`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ deviceId: getDeviceId() }),
+    }).then(async res => {
+      if (!res.ok) throw await readError(res);
+      return res.json();
+    });
+    return (await session).token;
+  };
+
+  // A 401 means the token was rejected, e.g. after a server restart, so it's renewed once.
+  const post = async (path: string, body: unknown, retry: boolean = true): Promise<Response> => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await getToken()}` },
+      body: JSON.stringify(body),
+    });
+    if (res.status === 401 && retry) {
+      session = null;
+      return post(path, body, false);
+    }
+    if (!res.ok) throw await readError(res);
+    return res;
+  };
+
+  const postJson = async <T>(path: string, body: unknown): Promise<T> => (await post(path, body)).json();
+
+  return {
+    connectLive: async ({ instruction, voiceName, manualActivity, resumptionHandle, callbacks }) => {
+      const url = new URL(`${baseUrl}/live`, window.location.href);
+      url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+      url.searchParams.set('token', await getToken());
+      const socket = new WebSocket(url);
+
+      const send = (frame: LiveClientFrame) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame));
+      };
+
+      socket.onmessage = (event) => {
+        const frame: LiveServerFrame = JSON.parse(event.data);
+        if (frame.type === 'open') callbacks.onopen?.();
+        else if (frame.type === 'message') callbacks.onmessage(toLiveMessage(frame.message));
+        else if (frame.type === 'error') callbacks.onerror?.(new ErrorEvent('error', { message: frame.error }));
+      };
+
+      await new Promise<void>((resolve, reject) => {
+        socket.onopen = () => resolve();
+        socket.onerror = () => reject(new AiServerError("Couldn't connect to the AI server.", 0));
+      });
+      socket.onerror = () => callbacks.onerror?.(new ErrorEvent('error', { message: 'The connection to the AI server was lost.' }));
+      socket.onclose = (event) => callbacks.onclose?.(event);
+      send({ type: 'setup', instruction, voiceName, manualActivity, resumptionHandle });
+
+      const session: LiveAudioSession = {
+        sendRealtimeInput: params => send({ type: 'realtimeInput', params }),
+        sendClientContent: params => send({ type: 'clientContent', params }),
+        sendToolResponse: params => send({ type: 'toolResponse', params }),
+        close: () => socket.close(),
+      };
+      return session;
+    },
+
+    generateText: async (request) => (await postJson<{ text: string }>('/text', request)).text,
+
+    streamText: async function* (request) {
+      const res = await post('/text/stream', request);
+      if (!res.body) throw new AiServerError('The AI server sent an empty reply.', res.status);
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffered = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        buffered += value ?? '';
+        const lines = done ? [buffered] : buffered.split('\n');
+        buffered = done ? '' : lines.pop() ?? '';
+        for (const line of lines.filter(line => line.trim())) {
+          const chunk = JSON.parse(line);
+          if (chunk.error) throw new AiServerError(chunk.error, res.status);
+          yield toResponse(chunk);
+        }
+        if (done) return;
+      }
+    },
+
+    generateJson: async (request) => (await postJson<{ json: string }>('/json', request)).json,
+
+    generateSpeech: async (text, voiceName) => (await postJson<{ audio: string | null }>('/speech', { text, voiceName })).audio,
+
+    generateImage: async (prompt) => (await postJson<{ imageUrl: string | null }>('/image', { prompt })).imageUrl,
+  };
+}
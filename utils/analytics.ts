@@ -0,0 +1,99 @@
+import { AppMode, SessionRecord } from '../types';
+import { toLocalDayKey } from './progress';
+import { FeedbackBreakdown, getFeedbackBreakdown } from './feedback';
+
+export type AnalyticsRange = 7 | 30;
+
+export interface DailyMinutes {
+  dayKey: string;
+  date: Date;
+  minutes: number;
+}
+
+export interface TopicCount {
+  topic: string;
+  count: number;
+}
+
+export interface SessionAnalytics {
+  sessionCount: number;
+  totalMinutes: number;
+  averageMinutes: number;
+  minutesPerDay: DailyMinutes[];
+  modeCounts: { mode: AppMode; count: number }[];
+  buddyCounts: { buddyId: string; count: number }[];
+  topTopics: TopicCount[];
+  thumbsUp: number;
+  thumbsDown: number;
+  feedback: FeedbackBreakdown;
+}
+
+// Words that say nothing about what a conversation was about.
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'dont', 'for', 'from', 'get', 'go', 'got', 'had', 'has', 'have', 'he', 'her', 'hi',
+  'him', 'his', 'how', 'i', 'if', 'im', 'in', 'is', 'it', 'its', 'just', 'know', 'like', 'lets', 'me', 'more', 'my', 'no',
+  'not', 'now', 'of', 'oh', 'ok', 'okay', 'on', 'one', 'or', 'our', 'out', 'please', 'really', 'said', 'say', 'see', 'she',
+  'so', 'some', 'tell', 'than', 'thank', 'thanks', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'think', 'this',
+  'to', 'too', 'um', 'up', 'us', 'very', 'want', 'was', 'we', 'well', 'were', 'what', 'when', 'where', 'which', 'who', 'why',
+  'will', 'with', 'would', 'yeah', 'yes', 'you', 'your',
+]);
+
+// Sessions saved before start and end times were recorded fall back to zero length.
+export function getSessionMinutes(session: SessionRecord): number {
+  if (session.activeMinutes !== undefined) return session.activeMinutes;
+  const startedAt = session.startedAt ?? session.timestamp;
+  const endedAt = session.endedAt ?? session.timestamp;
+  return Math.max(0, (endedAt - startedAt) / 60000);
+}
+
+export function getSessionsInRange(history: SessionRecord[], rangeDays: AnalyticsRange, now: Date = new Date()): SessionRecord[] {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (rangeDays - 1)).getTime();
+  return history.filter(session => (session.startedAt ?? session.timestamp) >= start);
+}
+
+export function getMinutesPerDay(sessions: SessionRecord[], rangeDays: AnalyticsRange, now: Date = new Date()): DailyMinutes[] {
+  const days: DailyMinutes[] = Array.from({ length: rangeDays }, (_, i) => {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (rangeDays - 1 - i));
+    return { dayKey: toLocalDayKey(date), date, minutes: 0 };
+  });
+  for (const session of sessions) {
+    const day = days.find(d => d.dayKey === toLocalDayKey(new Date(session.startedAt ?? session.timestamp)));
+    if (day) day.minutes += getSessionMinutes(session);
+  }
+  return days;
+}
+
+function countBy<T extends string>(values: T[]): { key: T; count: number }[] {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()].map(([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count);
+}
+
+// Topics are the words the child used most often, across sessions.
+export function getTopTopics(sessions: SessionRecord[], limit = 8): TopicCount[] {
+  const words = sessions.flatMap(session => session.messages
+    .filter(message => message.speaker === 'user' && !message.moderation)
+    .flatMap(message => message.text.toLowerCase().replace(/[^a-z\s]/g, '').split(/\s+/))
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+  return countBy(words).slice(0, limit).map(({ key, count }) => ({ topic: key, count }));
+}
+
+export function buildSessionAnalytics(history: SessionRecord[], rangeDays: AnalyticsRange, now: Date = new Date()): SessionAnalytics {
+  const sessions = getSessionsInRange(history, rangeDays, now);
+  const totalMinutes = sessions.reduce((total, session) => total + getSessionMinutes(session), 0);
+  const feedback = sessions.flatMap(session => session.messages.map(message => message.feedback));
+
+  return {
+    sessionCount: sessions.length,
+    totalMinutes,
+    averageMinutes: sessions.length > 0 ? totalMinutes / sessions.length : 0,
+    minutesPerDay: getMinutesPerDay(sessions, rangeDays, now),
+    modeCounts: countBy(sessions.map(session => session.mode)).map(({ key, count }) => ({ mode: key, count })),
+    buddyCounts: countBy(sessions.flatMap(session => session.buddyId ? [session.buddyId] : [])).map(({ key, count }) => ({ buddyId: key, count })),
+    topTopics: getTopTopics(sessions),
+    thumbsUp: feedback.filter(f => f === 'up').length,
+    thumbsDown: feedback.filter(f => f === 'down').length,
+    feedback: getFeedbackBreakdown(sessions),
+  };
+}
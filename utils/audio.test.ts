@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { WavFormatError, bytesToPcm16, createResampler, decodeWav, encodeWav, floatToPcm16, pcm16ToBytes, resample } from './audio';
+
+const sine = (length: number, rate: number, frequency = 440) => (
+  Float32Array.from({ length }, (_, i) => 0.8 * Math.sin(2 * Math.PI * frequency * i / rate))
+);
+
+const resampleInChunks = (samples: Float32Array, fromRate: number, toRate: number, chunkSize: number) => {
+  const resampler = createResampler(fromRate, toRate);
+  const chunks: number[] = [];
+  for (let start = 0; start < samples.length; start += chunkSize) {
+    chunks.push(...resampler.process(samples.subarray(start, start + chunkSize)));
+  }
+  return Float32Array.from(chunks);
+};
+
+// Copies bytes to an odd offset in a new buffer, where an Int16Array can't view them directly.
+const atOddOffset = (bytes: Uint8Array) => {
+  const shifted = new Uint8Array(bytes.length + 1);
+  shifted.set(bytes, 1);
+  return shifted.subarray(1);
+};
+
+describe('createResampler', () => {
+  it.each([
+    [48000, 16000, 128],
+    [44100, 16000, 441],
+    [16000, 24000, 160],
+    [22050, 16000, 97],
+  ])('gives the same samples from %i to %iHz whether fed whole or in chunks of %i', (fromRate, toRate, chunkSize) => {
+    const input = sine(fromRate / 10, fromRate);
+    const whole = resample(input, fromRate, toRate);
+    const chunked = resampleInChunks(input, fromRate, toRate, chunkSize);
+
+    expect(chunked.length).toBe(whole.length);
+    chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 5));
+  });
+
+  it('returns about the expected number of samples', () => {
+    expect(resample(sine(4800, 48000), 48000, 16000).length).toBeCloseTo(1600, -1);
+    expect(resample(sine(1600, 16000), 16000, 24000).length).toBeCloseTo(2400, -1);
+  });
+
+  it('passes audio through untouched when the rates match', () => {
+    const input = sine(100, 16000);
+    expect(resample(input, 16000, 16000)).toBe(input);
+  });
+});
+
+describe('floatToPcm16', () => {
+  it('saturates samples beyond ±1 instead of wrapping around', () => {
+    expect(Array.from(floatToPcm16(Float32Array.from([1, -1, 1.5, -2, 40])))).toEqual([32767, -32768, 32767, -32768, 32767]);
+  });
+
+  it('turns silence and missing samples into zero', () => {
+    expect(Array.from(floatToPcm16(Float32Array.from([0, NaN])))).toEqual([0, 0]);
+  });
+});
+
+describe('bytesToPcm16', () => {
+  it('reads samples that start at an odd byte offset', () => {
+    const pcm = Int16Array.from([1, -2, 300, -32768, 32767]);
+    expect(Array.from(bytesToPcm16(atOddOffset(pcm16ToBytes(pcm))))).toEqual(Array.from(pcm));
+  });
+});
+
+describe('encodeWav and decodeWav', () => {
+  const pcm = Int16Array.from([0, 1000, -1000, 32767, -32768, 42]);
+
+  it('round-trips the audio, format and metadata', () => {
+    const wav = decodeWav(encodeWav(pcm, 24000, 1, { title: 'The Brave Fox', artist: 'Askie' }));
+
+    expect(Array.from(wav.pcm)).toEqual(Array.from(pcm));
+    expect(wav).toMatchObject({ sampleRate: 24000, channels: 1, title: 'The Brave Fox', artist: 'Askie' });
+  });
+
+  it('steps over the padding byte of an odd-length chunk', () => {
+    // "Tale\0" is five bytes, so the title chunk is padded and the chunks after it start one byte later.
+    const bytes = encodeWav(pcm, 16000, 1, { title: 'Tale', artist: 'Ada' });
+    const wav = decodeWav(bytes);
+
+    expect(wav.title).toBe('Tale');
+    expect(wav.artist).toBe('Ada');
+    expect(Array.from(wav.pcm)).toEqual(Array.from(pcm));
+  });
+
+  it('decodes a file that starts at an odd byte offset', () => {
+    const wav = decodeWav(atOddOffset(encodeWav(pcm, 16000, 1, { title: 'Tale' })));
+
+    expect(wav.title).toBe('Tale');
+    expect(Array.from(wav.pcm)).toEqual(Array.from(pcm));
+  });
+
+  it('leaves out metadata that is blank', () => {
+    const wav = decodeWav(encodeWav(pcm, 24000, 1, { title: '  ' }));
+    expect(wav.title).toBeUndefined();
+  });
+
+  it('rejects bytes that are not a WAV file', () => {
+    expect(() => decodeWav(new TextEncoder().encode('not a wav file at all'))).toThrow(WavFormatError);
+  });
+});
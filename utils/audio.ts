@@ -1,6 +1,11 @@
-
 import { Blob } from '@google/genai';
 
+// The live API takes 16kHz microphone audio; speech comes back at 24kHz.
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export class WavFormatError extends Error {}
+
 // Base64 encoding function
 export function encode(bytes: Uint8Array): string {
   let binary = '';
@@ -22,15 +27,100 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
-// Decodes raw PCM audio data into an AudioBuffer
+// Reads little-endian 16-bit samples from bytes at any offset. An Int16Array
+// can only view a buffer at an even offset, so anything else is copied first.
+// A trailing odd byte is ignored.
+export function bytesToPcm16(bytes: Uint8Array): Int16Array {
+  const length = bytes.byteLength >> 1;
+  if (bytes.byteOffset % 2 === 0) return new Int16Array(bytes.buffer, bytes.byteOffset, length);
+  return new Int16Array(bytes.slice(0, length * 2).buffer);
+}
+
+export const pcm16ToBytes = (pcm: Int16Array): Uint8Array => new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+
+// Clamps to [-1, 1] first, so a loud sample saturates instead of wrapping around
+// to the opposite sign.
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i] || 0));
+    pcm[i] = sample < 0 ? sample * 32768 : sample * 32767;
+  }
+  return pcm;
+}
+
+export function pcm16ToFloat(pcm: Int16Array): Float32Array {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / 32768;
+  }
+  return samples;
+}
+
+export interface Resampler {
+  // Takes the next chunk of a stream and returns as many output samples as it can.
+  process(input: Float32Array): Float32Array;
+}
+
+// A streaming resampler, for browsers that give the microphone a different rate
+// than the one asked for. It keeps its place between chunks so there are no
+// clicks at chunk boundaries. Downsampling first averages over each output
+// sample's span, which keeps most of the aliasing out.
+export function createResampler(fromRate: number, toRate: number): Resampler {
+  if (fromRate === toRate) return { process: input => input };
+
+  const step = fromRate / toRate; // Input samples per output sample
+  const taps = step > 1 ? Math.ceil(step) : 1;
+  const recent = new Float32Array(taps); // The last inputs, for the moving average
+  let recentIndex = 0;
+  let recentSum = 0;
+  let position = 0; // Where the next output sample falls, relative to the chunk's first input
+  let previous = 0; // The last filtered input of the chunk before
+
+  const smooth = (input: Float32Array) => {
+    if (taps === 1) return input;
+    const filtered = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      recentSum += input[i] - recent[recentIndex];
+      recent[recentIndex] = input[i];
+      recentIndex = (recentIndex + 1) % taps;
+      filtered[i] = recentSum / taps;
+    }
+    return filtered;
+  };
+
+  return {
+    process: (input) => {
+      if (input.length === 0) return input;
+      const filtered = smooth(input);
+      const sampleAt = (i: number) => i < 0 ? previous : filtered[i];
+
+      const output = new Float32Array(Math.max(0, Math.ceil((filtered.length - 1 - position) / step)));
+      for (let o = 0; o < output.length; o++, position += step) {
+        const i = Math.floor(position);
+        const a = sampleAt(i);
+        output[o] = a + (sampleAt(i + 1) - a) * (position - i);
+      }
+      position -= filtered.length;
+      previous = filtered[filtered.length - 1];
+      return output;
+    },
+  };
+}
+
+export const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => (
+  createResampler(fromRate, toRate).process(samples)
+);
+
+// Decodes raw 16-bit PCM into an AudioBuffer. The bytes may start at any offset.
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
+  const dataInt16 = bytesToPcm16(data);
+  const frameCount = Math.floor(dataInt16.length / numChannels);
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
@@ -42,15 +132,146 @@ export async function decodeAudioData(
   return buffer;
 }
 
-// Creates a Blob object for the Gemini API from microphone audio data
-export function createBlob(data: Float32Array): Blob {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-      int16[i] = data[i] * 32768;
+// Creates a Blob for the Gemini API from microphone audio recorded at `sampleRate`,
+// resampled to the 16kHz the API expects.
+export function createBlob(data: Float32Array, sampleRate: number = INPUT_SAMPLE_RATE): Blob {
+  return pcmToBlob(floatToPcm16(resample(data, sampleRate, INPUT_SAMPLE_RATE)));
+}
+
+// Wraps 16-bit PCM that is already converted, e.g. by the capture worklet
+export function pcmToBlob(pcm: Int16Array, sampleRate: number = INPUT_SAMPLE_RATE): Blob {
+  return {
+    data: encode(pcm16ToBytes(pcm)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+export interface WavMetadata {
+  title?: string; // Stored as INAM, which players show as the track name
+  artist?: string; // Stored as IART
+}
+
+export interface WavAudio extends WavMetadata {
+  pcm: Int16Array; // Interleaved when there's more than one channel
+  sampleRate: number;
+  channels: number;
+}
+
+const INFO_TAGS: Record<keyof WavMetadata, string> = { title: 'INAM', artist: 'IART' };
+
+const writeTag = (view: DataView, offset: number, tag: string) => {
+  for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+};
+
+const readTag = (view: DataView, offset: number) => (
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3))
+);
+
+// A RIFF chunk: tag, little-endian size, then the body padded to an even length.
+const buildChunk = (tag: string, body: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + body.length + (body.length % 2));
+  const view = new DataView(chunk.buffer);
+  writeTag(view, 0, tag);
+  view.setUint32(4, body.length, true);
+  chunk.set(body, 8);
+  return chunk;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return bytes;
+};
+
+// The LIST/INFO chunk. Strings are null-terminated UTF-8, which common players read fine.
+const buildInfoChunk = (metadata: WavMetadata): Uint8Array | null => {
+  const fields = (Object.keys(INFO_TAGS) as (keyof WavMetadata)[])
+    .filter(key => metadata[key]?.trim())
+    .map(key => buildChunk(INFO_TAGS[key], new TextEncoder().encode(`${metadata[key]!.trim()}\0`)));
+  if (fields.length === 0) return null;
+  return buildChunk('LIST', concatBytes([new TextEncoder().encode('INFO'), ...fields]));
+};
+
+const readInfoChunk = (bytes: Uint8Array, start: number, end: number): WavMetadata => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const metadata: WavMetadata = {};
+  for (let offset = start; offset + 8 <= end;) {
+    const tag = readTag(view, offset);
+    const size = Math.min(view.getUint32(offset + 4, true), end - offset - 8);
+    const field = (Object.keys(INFO_TAGS) as (keyof WavMetadata)[]).find(key => INFO_TAGS[key] === tag);
+    if (field) metadata[field] = new TextDecoder().decode(bytes.subarray(offset + 8, offset + 8 + size)).replace(/\0+$/, '');
+    offset += 8 + size + (size % 2);
+  }
+  return metadata;
+};
+
+// A standard 16-bit PCM WAV file, e.g. to save speech from the TTS model.
+export function encodeWav(
+  pcm: Int16Array,
+  sampleRate: number = OUTPUT_SAMPLE_RATE,
+  channels: number = 1,
+  metadata: WavMetadata = {},
+): Uint8Array {
+  const format = new DataView(new ArrayBuffer(16));
+  format.setUint16(0, 1, true); // PCM
+  format.setUint16(2, channels, true);
+  format.setUint32(4, sampleRate, true);
+  format.setUint32(8, sampleRate * channels * 2, true);
+  format.setUint16(12, channels * 2, true);
+  format.setUint16(14, 16, true);
+
+  const data = new DataView(new ArrayBuffer(pcm.byteLength));
+  for (let i = 0; i < pcm.length; i++) data.setInt16(i * 2, pcm[i], true);
+
+  const info = buildInfoChunk(metadata);
+  const chunks = [
+    new TextEncoder().encode('WAVE'),
+    buildChunk('fmt ', new Uint8Array(format.buffer)),
+    ...(info ? [info] : []),
+    buildChunk('data', new Uint8Array(data.buffer)),
+  ];
+  return buildChunk('RIFF', concatBytes(chunks));
+}
+
+// Reads a 16-bit PCM WAV file, along with its title and artist if it has them.
+// Other chunks are skipped.
+export function decodeWav(bytes: Uint8Array): WavAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new WavFormatError('This is not a WAV file.');
+  }
+
+  let format: { sampleRate: number; channels: number } | null = null;
+  let metadata: WavMetadata = {};
+  let pcm: Int16Array | null = null;
+  for (let offset = 12; offset + 8 <= bytes.byteLength;) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (body + size > bytes.byteLength && tag !== 'data') throw new WavFormatError(`The WAV "${tag}" chunk is cut short.`);
+
+    if (tag === 'fmt ') {
+      if (size < 16) throw new WavFormatError('The WAV format chunk is too short.');
+      const audioFormat = view.getUint16(body, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (audioFormat !== 1 || bitsPerSample !== 16) throw new WavFormatError('Only 16-bit PCM WAV files are supported.');
+      format = { channels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true) };
+    } else if (tag === 'LIST' && size >= 4 && readTag(view, body) === 'INFO') {
+      metadata = { ...metadata, ...readInfoChunk(bytes, body + 4, body + size) };
+    } else if (tag === 'data') {
+      if (!format) throw new WavFormatError('The WAV file has no format chunk before its data.');
+      // Files that were cut off while writing keep whatever data made it.
+      const length = Math.min(size, bytes.byteLength - body) >> 1;
+      pcm = new Int16Array(length);
+      for (let i = 0; i < length; i++) pcm[i] = view.getInt16(body + i * 2, true);
     }
-    return {
-      data: encode(new Uint8Array(int16.buffer)),
-      mimeType: 'audio/pcm;rate=16000',
-    };
+    // Chunks are padded to an even length. Metadata can come after the audio, so
+    // reading carries on past it.
+    offset = body + size + (size % 2);
+  }
+  if (!pcm || !format) throw new WavFormatError('The WAV file has no audio data.');
+  return { pcm, ...format, ...metadata };
 }
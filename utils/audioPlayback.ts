@@ -0,0 +1,143 @@
+import { decode, decodeAudioData } from './audio';
+
+// Plays the buddy's voice: live answers chunk by chunk as they arrive, and
+// earlier answers again on request. Only one answer plays at a time, so a
+// replay or an interruption stops whatever was playing.
+
+export const SPEECH_SAMPLE_RATE = 24000;
+// Slower is easier to follow for early readers, at the cost of a slightly deeper voice.
+export const SLOW_PLAYBACK_RATE = 0.85;
+
+export interface PlaybackState {
+  messageId: number | null; // The answer playing, or null when nothing is
+  paused: boolean;
+}
+
+export interface AudioPlayer {
+  // Creates or wakes the audio context. Call from a click so the browser allows sound.
+  prepare(): void;
+  // Adds a chunk of a live answer, to play straight after the one before it.
+  enqueue(base64Pcm: string, messageId: number): void;
+  // Plays a whole answer again. Resolves true once it has played to the end, or
+  // false if it was stopped first.
+  replay(chunks: string[], messageId: number): Promise<boolean>;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+  setRate(rate: number): void; // Applies from the next chunk
+  isAudible(): boolean;
+  close(): void;
+}
+
+export function createAudioPlayer(onChange: (state: PlaybackState) => void): AudioPlayer {
+  let context: AudioContext | null = null;
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+  let rate = 1;
+  let state: PlaybackState = { messageId: null, paused: false };
+  let waiting: ((finished: boolean) => void)[] = [];
+  // Bumped by stop(), so chunks that were still being decoded are dropped.
+  let generation = 0;
+
+  const setState = (next: PlaybackState) => {
+    if (next.messageId === state.messageId && next.paused === state.paused) return;
+    state = next;
+    onChange(state);
+  };
+
+  const finish = (finished: boolean) => {
+    setState({ messageId: null, paused: false });
+    waiting.forEach(resolve => resolve(finished));
+    waiting = [];
+  };
+
+  const getContext = () => {
+    if (!context || context.state === 'closed') {
+      context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SPEECH_SAMPLE_RATE });
+    }
+    return context;
+  };
+
+  const schedule = async (base64Pcm: string, messageId: number) => {
+    const audioContext = getContext();
+    const scheduledIn = generation;
+    const buffer = await decodeAudioData(decode(base64Pcm), audioContext, SPEECH_SAMPLE_RATE, 1);
+    if (scheduledIn !== generation) return;
+
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(audioContext.destination);
+    source.onended = () => {
+      sources.delete(source);
+      if (sources.size === 0) finish(true);
+    };
+    nextStartTime = Math.max(nextStartTime, audioContext.currentTime);
+    source.start(nextStartTime);
+    nextStartTime += buffer.duration / rate;
+    sources.add(source);
+    setState({ messageId, paused: state.paused });
+  };
+
+  // A chunk that can't be decoded is skipped; the rest of the answer still plays.
+  const scheduleChunk = (base64Pcm: string, messageId: number) => {
+    schedule(base64Pcm, messageId).catch(e => console.error('Audio playback error:', e));
+  };
+
+  const stop = () => {
+    generation++;
+    sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    sources.clear();
+    nextStartTime = 0;
+    if (context?.state === 'suspended') context.resume();
+    finish(false);
+  };
+
+  return {
+    prepare: () => {
+      const audioContext = getContext();
+      if (audioContext.state === 'suspended' && !state.paused) audioContext.resume();
+    },
+
+    enqueue: scheduleChunk,
+
+    replay: (chunks, messageId) => {
+      stop();
+      if (chunks.length === 0) return Promise.resolve(true);
+      const done = new Promise<boolean>(resolve => waiting.push(resolve));
+      chunks.forEach(chunk => scheduleChunk(chunk, messageId));
+      return done;
+    },
+
+    // Suspending the whole context holds every scheduled chunk in place, and
+    // chunks that arrive in the meantime queue up behind them.
+    pause: () => {
+      if (state.messageId === null || state.paused || !context) return;
+      context.suspend();
+      setState({ ...state, paused: true });
+    },
+
+    resume: () => {
+      if (!state.paused || !context) return;
+      context.resume();
+      setState({ ...state, paused: false });
+    },
+
+    stop,
+
+    setRate: (next) => {
+      rate = next;
+    },
+
+    isAudible: () => sources.size > 0 && !state.paused,
+
+    close: () => {
+      stop();
+      if (context && context.state !== 'closed') context.close();
+      context = null;
+    },
+  };
+}
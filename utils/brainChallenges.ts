@@ -0,0 +1,140 @@
+import { Type } from '@google/genai';
+import { BrainSubject, BrainSubjectState } from '../types';
+import { profileKey } from './profiles';
+import { getItem, setItem } from './storage';
+
+export const BRAIN_KEY = 'askie-kids-brain';
+
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 5;
+const RESULTS_WINDOW = 5;
+const STREAK_TO_LEVEL_UP = 3;
+const MISSES_TO_LEVEL_DOWN = 2;
+
+export const BRAIN_SUBJECTS: { id: BrainSubject; title: string; description: string; }[] = [
+  { id: 'logic', title: 'Logic Puzzles', description: 'Patterns, sequences and clever thinking' },
+  { id: 'riddles', title: 'Riddles', description: 'Tricky questions with fun answers' },
+  { id: 'mental-math', title: 'Mental Math', description: 'Number puzzles in your head' },
+];
+
+const DIFFICULTY_GUIDES: Record<BrainSubject, string[]> = {
+  'logic': [
+    'a very simple pattern with shapes or colours, suitable for a 5 year old',
+    'a simple number or letter sequence that goes up by a fixed step',
+    'a sequence with a changing step, or a simple "which one does not belong" puzzle',
+    'a short deduction puzzle with two or three clues',
+    'a multi-step deduction puzzle with three or four clues',
+  ],
+  'riddles': [
+    'a very easy riddle about everyday objects or animals',
+    'an easy riddle with a familiar answer',
+    'a classic riddle that needs a bit of thinking',
+    'a riddle with wordplay',
+    'a hard riddle with clever wordplay or a lateral-thinking twist',
+  ],
+  'mental-math': [
+    'adding or subtracting numbers up to 10',
+    'adding or subtracting numbers up to 50',
+    'times tables up to 5x5, or adding two-digit numbers',
+    'times tables up to 12x12, or simple division',
+    'a two-step word problem with multiplication and addition or subtraction',
+  ],
+};
+
+export const BRAIN_QUESTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    question: { type: Type.STRING },
+    answer: { type: Type.STRING },
+    acceptableAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+    hint: { type: Type.STRING },
+    explanation: { type: Type.STRING },
+  },
+  required: ['question', 'answer', 'acceptableAnswers', 'hint', 'explanation'],
+};
+
+export function buildBrainQuestionPrompt(subject: BrainSubject, difficulty: number, previousQuestions: string[]): string {
+  const guide = DIFFICULTY_GUIDES[subject][clampDifficulty(difficulty) - 1];
+  const avoid = previousQuestions.length > 0 ? ` Do not repeat any of these questions: ${previousQuestions.map(q => `"${q}"`).join(', ')}.` : '';
+  return `You are a puzzle master for children. Create one new brain challenge: ${guide}. The answer must be short (a single word, number or short phrase). "acceptableAnswers" lists other ways a child might write the same correct answer (for example "7" and "seven"). Give a gentle "hint" that does not reveal the answer and a one-sentence "explanation" of the solution.${avoid}`;
+}
+
+export function clampDifficulty(difficulty: number): number {
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, Math.round(difficulty)));
+}
+
+export const INITIAL_SUBJECT_STATE: BrainSubjectState = { difficulty: 2, recentResults: [] };
+
+// Moves difficulty up after a run of correct answers and down after repeated
+// misses. The run restarts after every change so one level is earned at a time.
+export function applyBrainResult(state: BrainSubjectState, correct: boolean): BrainSubjectState {
+  const recentResults = [...state.recentResults, correct].slice(-RESULTS_WINDOW);
+  const lastCorrect = recentResults.slice(-STREAK_TO_LEVEL_UP);
+  const lastMisses = recentResults.slice(-MISSES_TO_LEVEL_DOWN);
+
+  if (lastCorrect.length === STREAK_TO_LEVEL_UP && lastCorrect.every(Boolean) && state.difficulty < MAX_DIFFICULTY) {
+    return { difficulty: state.difficulty + 1, recentResults: [] };
+  }
+  if (lastMisses.length === MISSES_TO_LEVEL_DOWN && lastMisses.every(r => !r) && state.difficulty > MIN_DIFFICULTY) {
+    return { difficulty: state.difficulty - 1, recentResults: [] };
+  }
+  return { ...state, recentResults };
+}
+
+export function loadBrainState(): Record<BrainSubject, BrainSubjectState> {
+  const defaults: Record<BrainSubject, BrainSubjectState> = {
+    'logic': INITIAL_SUBJECT_STATE,
+    'riddles': INITIAL_SUBJECT_STATE,
+    'mental-math': INITIAL_SUBJECT_STATE,
+  };
+  return { ...defaults, ...getItem<Partial<Record<BrainSubject, BrainSubjectState>>>(profileKey(BRAIN_KEY)) };
+}
+
+export function recordBrainResult(subject: BrainSubject, correct: boolean): BrainSubjectState {
+  const state = loadBrainState();
+  const updated = applyBrainResult(state[subject], correct);
+  setItem(profileKey(BRAIN_KEY), { ...state, [subject]: updated });
+  return updated;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const normalizeAnswer = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9.\s-]/g, ' ').replace(/\b(a|an|the|it is|its|it s)\b/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Reads "42", "42.0", "forty-two" or "forty two" as a number. Returns null for anything else.
+export function parseNumberAnswer(text: string): number | null {
+  const cleaned = normalizeAnswer(text);
+  if (/^-?\d+(\.\d+)?$/.test(cleaned)) return Number(cleaned);
+
+  const words = cleaned.replace(/-/g, ' ').split(' ').filter(w => w && w !== 'and');
+  if (words.length === 0) return null;
+  let total = 0;
+  for (const word of words) {
+    if (word === 'hundred') {
+      total = (total || 1) * 100;
+    } else if (word in NUMBER_WORDS) {
+      total += NUMBER_WORDS[word];
+    } else {
+      return null;
+    }
+  }
+  return total;
+}
+
+export function isBrainAnswerCorrect(answer: string, expected: string, acceptableAnswers: string[] = []): boolean {
+  const given = normalizeAnswer(answer);
+  if (!given) return false;
+  const candidates = [expected, ...acceptableAnswers];
+
+  const givenNumber = parseNumberAnswer(answer);
+  return candidates.some(candidate => {
+    if (normalizeAnswer(candidate) === given) return true;
+    const expectedNumber = parseNumberAnswer(candidate);
+    return givenNumber !== null && expectedNumber !== null && Math.abs(givenNumber - expectedNumber) < 1e-9;
+  });
+}
@@ -0,0 +1,72 @@
+import { AppMode, ChallengeMetric, DailyChallenge, DailyChallengeState } from '../types';
+import { recordProgress, toLocalDayKey } from './progress';
+import { profileKey } from './profiles';
+import { getItem, setItem } from './storage';
+
+export const CHALLENGE_KEY = 'askie-kids-challenge';
+
+export const CHALLENGES: DailyChallenge[] = [
+  { id: 'read-10-minutes', mode: 'read-and-learn', title: 'Read a story for 10 minutes', metric: 'minutes', target: 10 },
+  { id: 'homework-session', mode: 'homework', title: 'Finish a homework session with your buddy', metric: 'sessions', target: 1 },
+  { id: 'tell-a-story', mode: 'voice-to-story', title: 'Turn your own idea into a story', metric: 'stories', target: 1 },
+  { id: 'ask-5-questions', mode: 'learning', title: 'Ask your buddy 5 curious questions', metric: 'messages', target: 5 },
+  { id: 'read-2-stories', mode: 'read-and-learn', title: 'Explore 2 Read & Learn adventures', metric: 'sessions', target: 2 },
+  { id: 'homework-15-minutes', mode: 'homework', title: 'Practice homework for 15 minutes', metric: 'minutes', target: 15 },
+  { id: 'play-a-quiz', mode: 'learning-games', title: 'Play a Learning Games quiz', metric: 'sessions', target: 1 },
+  { id: 'brain-3-puzzles', mode: 'brain-challenges', title: 'Answer 3 Brain Challenges', metric: 'messages', target: 3 },
+  { id: 'chat-5-minutes', mode: 'free-chat', title: 'Chat with your buddy for 5 minutes', metric: 'minutes', target: 5 },
+];
+
+export interface ChallengeActivity {
+  mode: AppMode;
+  minutes?: number;
+  sessions?: number;
+  messages?: number;
+  stories?: number;
+}
+
+// Small string hash (djb2) so the same day always maps to the same challenge,
+// for every child on every device.
+function hashString(value: string): number {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+export function getChallengeForDay(dayKey: string): DailyChallenge {
+  return CHALLENGES[hashString(dayKey) % CHALLENGES.length];
+}
+
+export function getActivityAmount(activity: ChallengeActivity, metric: ChallengeMetric): number {
+  return activity[metric] ?? 0;
+}
+
+export function loadChallengeState(now: Date = new Date()): DailyChallengeState {
+  const day = toLocalDayKey(now);
+  const challenge = getChallengeForDay(day);
+  const saved = getItem<DailyChallengeState>(profileKey(CHALLENGE_KEY));
+  if (saved && saved.day === day && saved.challengeId === challenge.id) return saved;
+  return { day, challengeId: challenge.id, progress: 0, completed: false };
+}
+
+export function applyChallengeActivity(state: DailyChallengeState, activity: ChallengeActivity): DailyChallengeState {
+  const challenge = getChallengeForDay(state.day);
+  if (state.completed || activity.mode !== challenge.mode) return state;
+
+  const progress = Math.min(challenge.target, state.progress + getActivityAmount(activity, challenge.metric));
+  return { ...state, progress, completed: progress >= challenge.target };
+}
+
+// Updates today's challenge from a finished activity and awards the challenge
+// XP the first time it is completed.
+export function recordChallengeActivity(activity: ChallengeActivity, now: Date = new Date()): DailyChallengeState {
+  const previous = loadChallengeState(now);
+  const updated = applyChallengeActivity(previous, activity);
+  if (updated === previous) return previous;
+
+  setItem(profileKey(CHALLENGE_KEY), updated);
+  if (updated.completed && !previous.completed) recordProgress({ type: 'challenge' });
+  return updated;
+}
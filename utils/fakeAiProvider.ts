@@ -0,0 +1,279 @@
+import { FunctionCall, GenerateContentResponse, LiveSendRealtimeInputParameters, LiveServerMessage, Part, Schema, Tool, Type } from '@google/genai';
+import { AiProvider, LiveAudioSession, LiveSessionOptions } from './aiProvider';
+import { encode } from './audio';
+import { getInstructionTools } from './modeTools';
+
+// An offline stand-in for Gemini. Live sessions replay scripted server messages,
+// including tool calls and real (if tuneless) audio chunks, so every mode can be
+// developed and tested without a key or a network.
+
+export interface FakeLiveStep {
+  delayMs?: number; // Wait after the previous step
+  message: LiveServerMessage;
+}
+
+export interface FakeReply {
+  text?: string;
+  functionCalls?: FunctionCall[];
+}
+
+export interface FakeScript {
+  // One list of steps per child turn, played in order and then from the start again.
+  liveTurns: FakeLiveStep[][];
+  // Played once the app answers a scripted tool call.
+  afterToolResponse: FakeLiveStep[];
+  // What the child "says" in sessions that only transcribe, one phrase per turn.
+  transcriptions: string[];
+  // Replies for text chat and other text requests, used in order and looping.
+  replies: FakeReply[];
+  // Results for JSON requests, used up in order. Once empty, a value is built from the schema.
+  json: unknown[];
+  // Drops live sessions after this many turns, to try reconnecting offline.
+  dropAfterTurns?: number;
+}
+
+// Microphone audio arrives in 4096-sample chunks at 16kHz, so this is about three
+// seconds of the child talking.
+const AUDIO_CHUNKS_PER_TURN = 12;
+const STEP_DELAY_MS = 300;
+const STREAM_CHUNK_WORDS = 4;
+const SAMPLE_RATE = 24000;
+
+const HANDLE_PREFIX = 'fake-turn-';
+
+const liveMessage = (fields: Partial<LiveServerMessage>): LiveServerMessage => Object.assign(new LiveServerMessage(), fields);
+
+// A soft tone in the same 16-bit 24kHz PCM the live and speech models send back.
+export function createToneChunk(durationMs: number, frequency: number = 440): string {
+  const samples = new Int16Array(Math.round(SAMPLE_RATE * durationMs / 1000));
+  const fade = Math.min(samples.length / 2, SAMPLE_RATE / 100);
+  for (let i = 0; i < samples.length; i++) {
+    const envelope = Math.min(1, i / fade, (samples.length - i) / fade);
+    samples[i] = Math.round(Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * envelope * 0.1 * 32767);
+  }
+  return encode(new Uint8Array(samples.buffer));
+}
+
+// Builders for scripted live steps.
+export const fakeLive = {
+  heard: (text: string, delayMs?: number): FakeLiveStep => ({ delayMs, message: liveMessage({ serverContent: { inputTranscription: { text } } }) }),
+  said: (text: string, delayMs?: number): FakeLiveStep => ({ delayMs, message: liveMessage({ serverContent: { outputTranscription: { text } } }) }),
+  audio: (durationMs: number = 600, delayMs?: number): FakeLiveStep => ({
+    delayMs,
+    message: liveMessage({ serverContent: { modelTurn: { role: 'model', parts: [{ inlineData: { mimeType: `audio/pcm;rate=${SAMPLE_RATE}`, data: createToneChunk(durationMs) } }] } } }),
+  }),
+  toolCall: (name: string, args: Record<string, unknown>, delayMs?: number): FakeLiveStep => ({
+    delayMs,
+    message: liveMessage({ toolCall: { functionCalls: [{ id: `fake-${name}-${Date.now()}`, name, args }] } }),
+  }),
+  turnComplete: (delayMs?: number): FakeLiveStep => ({ delayMs, message: liveMessage({ serverContent: { turnComplete: true } }) }),
+};
+
+export const DEFAULT_FAKE_SCRIPT: FakeScript = {
+  liveTurns: [
+    [
+      fakeLive.heard('Why is the sky blue?'),
+      fakeLive.said('Great question! Sunlight is made of lots of colours mixed together. '),
+      fakeLive.audio(),
+      fakeLive.said('The air scatters the blue light the most, so blue is what we see all around us.'),
+      fakeLive.audio(),
+      fakeLive.turnComplete(),
+    ],
+    [
+      fakeLive.heard('Can you draw me a rainbow?'),
+      fakeLive.toolCall('generateImage', { prompt: 'a rainbow over a green hill', style: 'cartoon' }),
+    ],
+    [
+      fakeLive.heard('What do bees eat?'),
+      fakeLive.said('Bees drink sweet nectar from flowers and eat pollen too. Then they turn the nectar into honey!'),
+      fakeLive.audio(),
+      fakeLive.turnComplete(),
+    ],
+  ],
+  afterToolResponse: [
+    fakeLive.said("I'm drawing a rainbow for you now. Can you name all of its colours?"),
+    fakeLive.audio(),
+    fakeLive.turnComplete(),
+  ],
+  transcriptions: ['Once upon a time there was a little dragon', 'who was scared of the dark', 'until she found a friendly firefly.'],
+  replies: [
+    { text: 'Great question! Sunlight is made of lots of colours mixed together. The air scatters the blue light the most, so blue is what we see all around us.' },
+    { functionCalls: [{ id: 'fake-generateImage', name: 'generateImage', args: { prompt: 'a rainbow over a green hill', style: 'cartoon' } }] },
+    { text: "I'm drawing a rainbow for you now. Can you name all of its colours?" },
+  ],
+  json: [],
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getDeclaredTools = (tools: Tool[] = []) => new Set(tools.flatMap(tool => tool.functionDeclarations ?? []).map(fn => fn.name));
+
+// Scripted tool calls are skipped for requests that didn't declare that tool,
+// so the same script works for every mode.
+const usesOnlyDeclaredTools = (calls: (FunctionCall | undefined)[], tools?: Tool[]) => {
+  const declared = getDeclaredTools(tools);
+  return calls.every(call => !call?.name || declared.has(call.name));
+};
+
+// A plausible value for any response schema: objects get every property, lists
+// get three items, enums their first value and numbers zero.
+export function buildSampleFromSchema(schema: Schema, name: string = 'value'): unknown {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, property]) => [key, buildSampleFromSchema(property, key)]));
+    case Type.ARRAY:
+      return [1, 2, 3].map(i => buildSampleFromSchema(schema.items ?? { type: Type.STRING }, `${name} ${i}`));
+    case Type.BOOLEAN:
+      return true;
+    case Type.INTEGER:
+    case Type.NUMBER:
+      return 0;
+    default:
+      return schema.enum?.[0] ?? `Sample ${name}`;
+  }
+}
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+class FakeLiveSession implements LiveAudioSession {
+  private timers = new Set<number>();
+  private audioChunks = 0;
+  private turnIndex = 0;
+  private closed = false;
+
+  private turnsPlayed = 0;
+
+  // A resumed session carries on from the turn its handle was issued after.
+  constructor(private script: FakeScript, private options: LiveSessionOptions) {
+    const resumedAt = options.resumptionHandle?.startsWith(HANDLE_PREFIX) ? Number(options.resumptionHandle.slice(HANDLE_PREFIX.length)) : 0;
+    this.turnIndex = Number.isInteger(resumedAt) ? resumedAt : 0;
+    this.schedule([], () => options.callbacks.onopen?.());
+  }
+
+  // With manual activity the child's turn ends on activityEnd, otherwise after enough audio.
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    if (this.options.manualActivity) {
+      if (params.activityEnd) this.playTurn();
+      return;
+    }
+    if (++this.audioChunks < AUDIO_CHUNKS_PER_TURN) return;
+    this.audioChunks = 0;
+    this.playTurn();
+  }
+
+  // Text from the app (a redirect, a wind-down note) ends the child's turn like speech would.
+  sendClientContent() {
+    this.audioChunks = 0;
+    this.playTurn();
+  }
+
+  sendToolResponse() {
+    this.schedule(this.script.afterToolResponse, () => this.sendResumptionHandle());
+  }
+
+  close() {
+    this.end(new CloseEvent('close', { code: 1000, wasClean: true }));
+  }
+
+  private end(event: CloseEvent) {
+    if (this.closed) return;
+    this.closed = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.options.callbacks.onclose?.(event);
+  }
+
+  private playTurn() {
+    this.schedule(this.nextTurn(), () => {
+      this.sendResumptionHandle();
+      const dropAfter = this.script.dropAfterTurns;
+      if (dropAfter && ++this.turnsPlayed % dropAfter === 0) {
+        this.end(new CloseEvent('close', { code: 1006, reason: 'Fake connection drop', wasClean: false }));
+      }
+    });
+  }
+
+  private sendResumptionHandle() {
+    this.options.callbacks.onmessage(liveMessage({ sessionResumptionUpdate: { newHandle: `${HANDLE_PREFIX}${this.turnIndex}`, resumable: true } }));
+  }
+
+  private nextTurn(): FakeLiveStep[] {
+    if (!this.options.voiceName) {
+      const phrases = this.script.transcriptions;
+      if (phrases.length === 0) return [];
+      const phrase = phrases[this.turnIndex++ % phrases.length];
+      return [fakeLive.heard(`${this.turnIndex > 1 ? ' ' : ''}${phrase}`)];
+    }
+    const turns = this.script.liveTurns.filter(turn => usesOnlyDeclaredTools(turn.flatMap(step => step.message.toolCall?.functionCalls ?? []), getInstructionTools(this.options.instruction)));
+    if (turns.length === 0) return [];
+    return turns[this.turnIndex++ % turns.length];
+  }
+
+  private schedule(steps: FakeLiveStep[], onDone?: () => void) {
+    let delay = 0;
+    for (const step of steps) {
+      delay += step.delayMs ?? STEP_DELAY_MS;
+      this.later(delay, () => this.options.callbacks.onmessage(step.message));
+    }
+    if (onDone) this.later(delay, onDone);
+  }
+
+  private later(delayMs: number, run: () => void) {
+    const timer = window.setTimeout(() => {
+      this.timers.delete(timer);
+      if (!this.closed) run();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+}
+
+export function createFakeProvider(script: FakeScript = DEFAULT_FAKE_SCRIPT): AiProvider {
+  let replyIndex = 0;
+  const json = [...script.json];
+
+  const nextReply = (tools?: Tool[], textOnly: boolean = false): FakeReply => {
+    const replies = script.replies.filter(reply => textOnly ? !reply.functionCalls?.length : usesOnlyDeclaredTools(reply.functionCalls ?? [], tools));
+    return replies.length > 0 ? replies[replyIndex++ % replies.length] : { text: '' };
+  };
+
+  return {
+    connectLive: async (options) => new FakeLiveSession(script, options),
+
+    generateText: async () => {
+      await wait(STEP_DELAY_MS);
+      return nextReply(undefined, true).text ?? '';
+    },
+
+    streamText: async function* ({ instruction }) {
+      const reply = nextReply(getInstructionTools(instruction));
+      const words = reply.text ? reply.text.split(/(?<=\s)/) : [];
+      for (let i = 0; i < words.length; i += STREAM_CHUNK_WORDS) {
+        await wait(STEP_DELAY_MS / 3);
+        const parts: Part[] = [{ text: words.slice(i, i + STREAM_CHUNK_WORDS).join('') }];
+        yield Object.assign(new GenerateContentResponse(), { candidates: [{ content: { role: 'model', parts } }] });
+      }
+      if (reply.functionCalls?.length) {
+        const parts: Part[] = reply.functionCalls.map(functionCall => ({ functionCall }));
+        yield Object.assign(new GenerateContentResponse(), { candidates: [{ content: { role: 'model', parts } }] });
+      }
+    },
+
+    generateJson: async ({ schema }) => {
+      await wait(STEP_DELAY_MS);
+      return JSON.stringify(json.length > 0 ? json.shift() : buildSampleFromSchema(schema));
+    },
+
+    // Roughly as long as reading the text aloud would take.
+    generateSpeech: async (text) => {
+      await wait(STEP_DELAY_MS);
+      const words = text.split(/\s+/).filter(Boolean).length;
+      return createToneChunk(Math.min(4000, Math.max(500, words * 150)), 330);
+    },
+
+    generateImage: async (prompt) => {
+      await wait(STEP_DELAY_MS);
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="512" height="512" fill="#f3e8ff"/><text x="256" y="256" font-family="sans-serif" font-size="20" text-anchor="middle" fill="#6b21a8">${escapeXml(prompt.slice(0, 40))}</text></svg>`;
+      return `data:image/svg+xml;base64,${encode(new TextEncoder().encode(svg))}`;
+    },
+  };
+}
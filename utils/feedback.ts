@@ -0,0 +1,146 @@
+import { AppMode, FeedbackPreference, FeedbackPreferenceId, SessionRecord } from '../types';
+import { profileKey } from './profiles';
+import { getItem, setItem } from './storage';
+
+export const FEEDBACK_PREFERENCES_KEY = 'askie-kids-feedback-preferences';
+
+export interface FeedbackCount {
+  up: number;
+  down: number;
+}
+
+export interface FeedbackBreakdown {
+  byMode: ({ mode: AppMode } & FeedbackCount)[];
+  byBuddy: ({ buddyId: string } & FeedbackCount)[];
+}
+
+export interface RatedAnswer {
+  text: string;
+  feedback: 'up' | 'down';
+}
+
+interface FeedbackPreferencesState {
+  preferences: FeedbackPreference[];
+  dismissed: FeedbackPreferenceId[]; // Turned off by a parent; not detected again
+}
+
+export const FEEDBACK_PREFERENCES: Record<FeedbackPreferenceId, { label: string; instruction: string }> = {
+  'shorter-answers': {
+    label: 'Prefers shorter answers',
+    instruction: 'Keep answers short, two or three sentences at most, and ask if the child wants to hear more.',
+  },
+  'simpler-words': {
+    label: 'Finds some answers too hard',
+    instruction: 'Use simple, everyday words and short sentences, and explain any harder word straight away.',
+  },
+};
+
+// A preference is only picked up once the child has disliked a few answers,
+// so a single bad day doesn't change how the buddy talks.
+const MIN_DISLIKES = 3;
+const MIN_LIKES_FOR_BASELINE = 3;
+// Used when too few answers were liked to compare against.
+const DEFAULT_BASELINE_WORDS = 50;
+const DEFAULT_BASELINE_LONG_WORDS = 0.15;
+const TOO_LONG_RATIO = 1.5;
+const TOO_HARD_RATIO = 1.3;
+
+export function getFeedbackBreakdown(sessions: SessionRecord[]): FeedbackBreakdown {
+  const byMode = new Map<AppMode, FeedbackCount>();
+  const byBuddy = new Map<string, FeedbackCount>();
+  const add = <K>(counts: Map<K, FeedbackCount>, key: K, feedback: 'up' | 'down') => {
+    const count = counts.get(key) ?? { up: 0, down: 0 };
+    counts.set(key, { ...count, [feedback]: count[feedback] + 1 });
+  };
+
+  for (const session of sessions) {
+    for (const message of session.messages) {
+      if (!message.feedback) continue;
+      add(byMode, session.mode, message.feedback);
+      if (session.buddyId) add(byBuddy, session.buddyId, message.feedback);
+    }
+  }
+
+  const byTotal = (a: FeedbackCount, b: FeedbackCount) => (b.up + b.down) - (a.up + a.down);
+  return {
+    byMode: [...byMode.entries()].map(([mode, count]) => ({ mode, ...count })).sort(byTotal),
+    byBuddy: [...byBuddy.entries()].map(([buddyId, count]) => ({ buddyId, ...count })).sort(byTotal),
+  };
+}
+
+// Rated buddy answers, leaving out any that were replaced by a moderation notice.
+export function getRatedAnswers(sessions: SessionRecord[]): RatedAnswer[] {
+  return sessions.flatMap(session => session.messages)
+    .filter(message => message.speaker === 'ai' && message.feedback && !message.moderation && message.text)
+    .map(message => ({ text: message.text, feedback: message.feedback as 'up' | 'down' }));
+}
+
+const getWords = (text: string) => text.split(/\s+/).map(word => word.replace(/[^a-z]/gi, '')).filter(Boolean);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// The share of words with seven or more letters, a rough stand-in for how hard an answer is to read.
+const getLongWordShare = (text: string) => {
+  const words = getWords(text);
+  return words.length > 0 ? words.filter(word => word.length >= 7).length / words.length : 0;
+};
+
+// Compares the answers a child disliked with the ones they liked to find what keeps
+// putting them off. Returns the preferences it finds, strongest signal first.
+export function detectFeedbackPreferences(answers: RatedAnswer[]): FeedbackPreferenceId[] {
+  const disliked = answers.filter(answer => answer.feedback === 'down');
+  if (disliked.length < MIN_DISLIKES) return [];
+  const liked = answers.filter(answer => answer.feedback === 'up');
+  const hasBaseline = liked.length >= MIN_LIKES_FOR_BASELINE;
+
+  const dislikedWords = median(disliked.map(answer => getWords(answer.text).length));
+  const baselineWords = hasBaseline ? median(liked.map(answer => getWords(answer.text).length)) : DEFAULT_BASELINE_WORDS;
+  const dislikedLongWords = median(disliked.map(answer => getLongWordShare(answer.text)));
+  const baselineLongWords = hasBaseline ? median(liked.map(answer => getLongWordShare(answer.text))) : DEFAULT_BASELINE_LONG_WORDS;
+
+  const signals: { id: FeedbackPreferenceId; strength: number }[] = [
+    { id: 'shorter-answers', strength: dislikedWords / Math.max(1, baselineWords) / TOO_LONG_RATIO },
+    { id: 'simpler-words', strength: dislikedLongWords / Math.max(0.01, baselineLongWords) / TOO_HARD_RATIO },
+  ];
+  return signals.filter(signal => signal.strength >= 1).sort((a, b) => b.strength - a.strength).map(signal => signal.id);
+}
+
+function loadState(profileId?: string): FeedbackPreferencesState {
+  const state = getItem<Partial<FeedbackPreferencesState>>(profileKey(FEEDBACK_PREFERENCES_KEY, profileId));
+  return {
+    preferences: Array.isArray(state?.preferences) ? state.preferences.filter(p => p.id in FEEDBACK_PREFERENCES) : [],
+    dismissed: Array.isArray(state?.dismissed) ? state.dismissed : [],
+  };
+}
+
+export function loadFeedbackPreferences(profileId?: string): FeedbackPreference[] {
+  return loadState(profileId).preferences;
+}
+
+// Preferences stick once found, so they survive older sessions being deleted
+// from the history. Only a parent can remove them.
+export function updateFeedbackPreferences(history: SessionRecord[], now: number = Date.now()) {
+  const state = loadState();
+  const known = new Set([...state.preferences.map(p => p.id), ...state.dismissed]);
+  const found = detectFeedbackPreferences(getRatedAnswers(history)).filter(id => !known.has(id));
+  if (found.length === 0) return;
+  setItem(profileKey(FEEDBACK_PREFERENCES_KEY), { ...state, preferences: [...state.preferences, ...found.map(id => ({ id, detectedAt: now }))] });
+}
+
+export function dismissFeedbackPreference(id: FeedbackPreferenceId) {
+  const state = loadState();
+  setItem(profileKey(FEEDBACK_PREFERENCES_KEY), {
+    preferences: state.preferences.filter(p => p.id !== id),
+    dismissed: [...state.dismissed.filter(d => d !== id), id],
+  });
+}
+
+// Sent to the buddy, not shown to the child, when an answer gets a thumbs down.
+export function buildReexplainRequest(answer: string): string {
+  const excerpt = answer.length > 300 ? `${answer.slice(0, 300)}...` : answer;
+  return `(Note from the app, not the child: the child gave a thumbs down to your answer "${excerpt}". Kindly explain it again in a shorter, simpler way, then check that it makes sense.)`;
+}
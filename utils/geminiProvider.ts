@@ -0,0 +1,72 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import { AiProvider, TextRequest } from './aiProvider';
+import { getInstructionTools } from './modeTools';
+import { buildInstruction } from './prompts';
+
+export const TEXT_MODEL = 'gemini-2.5-flash';
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+export const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+export const IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+const speechConfig = (voiceName: string) => ({ voiceConfig: { prebuiltVoiceConfig: { voiceName } } });
+
+const textConfig = ({ instruction }: TextRequest) => (
+  instruction ? { systemInstruction: buildInstruction(instruction), tools: getInstructionTools(instruction) } : {}
+);
+
+export function createGeminiProvider(apiKey: string): AiProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    connectLive: ({ instruction, voiceName, manualActivity, resumptionHandle, callbacks }) => ai.live.connect({
+      model: LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        inputAudioTranscription: {},
+        ...(voiceName ? { outputAudioTranscription: {}, speechConfig: speechConfig(voiceName) } : {}),
+        tools: getInstructionTools(instruction),
+        systemInstruction: buildInstruction(instruction),
+        sessionResumption: { handle: resumptionHandle },
+        ...(manualActivity ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+      },
+      callbacks,
+    }),
+
+    generateText: async (request) => {
+      const res = await ai.models.generateContent({ model: TEXT_MODEL, contents: request.contents, config: textConfig(request) });
+      return res.text ?? '';
+    },
+
+    streamText: async function* (request) {
+      yield* await ai.models.generateContentStream({ model: TEXT_MODEL, contents: request.contents, config: textConfig(request) });
+    },
+
+    generateJson: async ({ contents, schema }) => {
+      const res = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents,
+        config: { responseMimeType: 'application/json', responseSchema: schema },
+      });
+      return res.text ?? '';
+    },
+
+    generateSpeech: async (text, voiceName) => {
+      const res = await ai.models.generateContent({
+        model: SPEECH_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: { responseModalities: [Modality.AUDIO], speechConfig: speechConfig(voiceName) },
+      });
+      return res.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data ?? null;
+    },
+
+    generateImage: async (prompt) => {
+      const res = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: { parts: [{ text: prompt }] },
+        config: { responseModalities: [Modality.IMAGE] },
+      });
+      const image = res.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+      return image ? `data:${image.mimeType};base64,${image.data}` : null;
+    },
+  };
+}
@@ -0,0 +1,254 @@
+import { AppMode, BrainAttempt, Message, SessionRecord } from '../types';
+import { recordProgress } from './progress';
+import { recordChallengeActivity } from './challenges';
+import { profileKey } from './profiles';
+import { loadSettings } from './settings';
+import { generateSessionSummary } from './summaries';
+import { getAiProvider } from './aiProvider';
+import { mergeSessions } from './historyTransfer';
+import { getSessionMinutes } from './analytics';
+import { updateFeedbackPreferences } from './feedback';
+import { getItem, setItem, getKeys, isBlobRef, storeDataUrl, deleteBlobs, blobRefToDataUrl } from './storage';
+import { HISTORY_VERSION, getEnvelopeVersion, parseStoredHistory, wrapEnvelope } from './schema';
+import { quarantineRecords } from './quarantine';
+
+export const HISTORY_KEY = 'askie-kids-history';
+
+type HistoryListener = () => void;
+
+const listeners = new Set<HistoryListener>();
+const summariesInFlight = new Set<number>();
+
+// Lets open views refresh when a background summary lands.
+export function subscribeToHistory(listener: HistoryListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// Older histories are migrated and unreadable sessions quarantined the first
+// time they're read, and the cleaned-up history is saved straight back. History
+// from a newer version of the app is only read, never downgraded.
+function readHistory(storageKey: string): SessionRecord[] {
+  const { sessions, corrupt, needsRewrite } = parseStoredHistory(getItem(storageKey));
+  if (needsRewrite) {
+    quarantineRecords(storageKey, corrupt);
+    setItem(storageKey, wrapEnvelope(sessions, HISTORY_VERSION));
+  }
+  return sessions;
+}
+
+// Saving over history from a newer version would lose whatever this version
+// doesn't understand, so the original is quarantined whole first.
+function writeHistory(storageKey: string, history: SessionRecord[]) {
+  const stored = getItem(storageKey);
+  const storedVersion = getEnvelopeVersion(stored);
+  if (storedVersion > HISTORY_VERSION) {
+    quarantineRecords(storageKey, [{ record: stored, reason: `history was saved by a newer version of the app (version ${storedVersion})` }]);
+  }
+  setItem(storageKey, wrapEnvelope(history, HISTORY_VERSION));
+  listeners.forEach(listener => listener());
+}
+
+export function loadHistory(): SessionRecord[] {
+  return readHistory(profileKey(HISTORY_KEY));
+}
+
+const getBlobRefs = (sessions: SessionRecord[]) => sessions.flatMap(session => session.messages.map(m => m.imageUrl)).filter(isBlobRef);
+
+// Keeps the newest sessions up to the profile's history size and frees the
+// images that belonged to the ones that fall off the end.
+function trimHistory(history: SessionRecord[]): SessionRecord[] {
+  const limit = loadSettings().historyLimit;
+  deleteBlobs(getBlobRefs(history.slice(limit)));
+  return history.slice(0, limit);
+}
+
+// Applies a newly chosen history size straight away, freeing space for the parent.
+export function applyHistoryLimit() {
+  const storageKey = profileKey(HISTORY_KEY);
+  const history = readHistory(storageKey);
+  const kept = trimHistory(history);
+  if (kept.length < history.length) writeHistory(storageKey, kept);
+}
+
+// Takes the storage key rather than reading the active profile, so a summary that
+// finishes after the child switches profiles still lands on the right history.
+function updateSessionInHistory(sessionId: number, changes: Partial<SessionRecord>, storageKey: string) {
+  const history = readHistory(storageKey);
+  if (!history.some(session => session.id === sessionId)) return;
+  writeHistory(storageKey, history.map(session => session.id === sessionId ? { ...session, ...changes } : session));
+}
+
+// Images arrive as data URLs (generated pictures, homework photos). Once the session
+// is saved they are moved into the blob store so the history records stay small.
+async function moveSessionImagesToBlobStore(session: SessionRecord, storageKey: string) {
+  if (!session.messages.some(message => message.imageUrl?.startsWith('data:'))) return;
+
+  const stored = await Promise.all(session.messages
+    .filter((message): message is Message & { imageUrl: string } => !!message.imageUrl?.startsWith('data:'))
+    .map(async ({ id, imageUrl }) => ({ id, dataUrl: imageUrl, ref: await storeDataUrl(imageUrl) })));
+
+  // The session may have changed while the images were stored (a resumed chat
+  // appending to it, say), so only the pictures themselves are swapped in the
+  // latest copy. Pictures that are gone by now are taken back out of the store.
+  const current = readHistory(storageKey).find(s => s.id === session.id);
+  const swapped = new Set<string>();
+  if (current) {
+    const messages = current.messages.map(message => {
+      const image = stored.find(image => image.id === message.id && image.dataUrl === message.imageUrl && !swapped.has(image.ref));
+      if (!image) return message;
+      swapped.add(image.ref);
+      return { ...message, imageUrl: image.ref };
+    });
+    updateSessionInHistory(session.id, { messages }, storageKey);
+  }
+  deleteBlobs(stored.map(image => image.ref).filter(ref => !swapped.has(ref)));
+}
+
+// Used once after upgrading, for histories that were saved with inline images.
+export async function moveHistoryImagesToBlobStore() {
+  for (const storageKey of getKeys(HISTORY_KEY)) {
+    for (const session of readHistory(storageKey)) {
+      await moveSessionImagesToBlobStore(session, storageKey);
+    }
+  }
+}
+
+export function deleteHistoryImages(profileId: string) {
+  deleteBlobs(getBlobRefs(readHistory(profileKey(HISTORY_KEY, profileId))));
+}
+
+// Swaps blob references back to data URLs, for exports that must stand on their own.
+export async function resolveSessionImages(sessions: SessionRecord[]): Promise<SessionRecord[]> {
+  return Promise.all(sessions.map(async session => ({
+    ...session,
+    messages: await Promise.all(session.messages.map(async message => (
+      isBlobRef(message.imageUrl) ? { ...message, imageUrl: (await blobRefToDataUrl(message.imageUrl)) ?? undefined } : message
+    ))),
+  })));
+}
+
+export async function summarizeSession(sessionId: number, storageKey: string = profileKey(HISTORY_KEY)) {
+  if (summariesInFlight.has(sessionId)) return;
+
+  const session = readHistory(storageKey).find(s => s.id === sessionId);
+  if (!session) return;
+
+  summariesInFlight.add(sessionId);
+  updateSessionInHistory(sessionId, { summaryStatus: 'pending' }, storageKey);
+  try {
+    const summary = await generateSessionSummary(getAiProvider(), session);
+    updateSessionInHistory(sessionId, { summary, summaryStatus: undefined }, storageKey);
+  } catch (error) {
+    console.error('Session summary error:', error);
+    updateSessionInHistory(sessionId, { summaryStatus: 'failed' }, storageKey);
+  } finally {
+    summariesInFlight.delete(sessionId);
+  }
+}
+
+// Picks up summaries that were interrupted, e.g. because the app was closed mid-request.
+export function summarizePendingSessions() {
+  loadHistory()
+    .filter(session => session.summaryStatus === 'pending' && !summariesInFlight.has(session.id))
+    .forEach(session => { summarizeSession(session.id); });
+}
+
+// Merges imported sessions into the active profile's history, skipping any that already exist.
+export function importSessions(sessions: SessionRecord[]): { added: number; skipped: number; dropped: number; limit: number } {
+  const storageKey = profileKey(HISTORY_KEY);
+  const existing = readHistory(storageKey);
+  const { merged, added, skipped } = mergeSessions(existing, sessions);
+  const kept = trimHistory(merged);
+  writeHistory(storageKey, kept);
+
+  const existingIds = new Set(existing.map(session => session.id));
+  kept.filter(session => !existingIds.has(session.id)).forEach(session => moveSessionImagesToBlobStore(session, storageKey));
+  return { added, skipped, dropped: merged.length - kept.length, limit: loadSettings().historyLimit };
+}
+
+export interface SaveSessionOptions {
+  buddyId?: string;
+  attempts?: BrainAttempt[];
+  resumedSessionId?: number; // Appends to this session instead of saving a new one
+}
+
+const RESUMABLE_MODES: AppMode[] = ['homework', 'free-chat', 'learning', 'read-and-learn'];
+const RESUME_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Recent conversations the child can pick up again, newest first.
+export function getResumableSessions(history: SessionRecord[], limit = 3, now: number = Date.now()): SessionRecord[] {
+  return history
+    .filter(session => RESUMABLE_MODES.includes(session.mode)
+      && now - session.timestamp < RESUME_WINDOW_MS
+      && session.messages.some(m => m.speaker === 'user'))
+    .slice(0, limit);
+}
+
+function recordSessionActivity(mode: AppMode, userMessages: number, minutes: number, resumed: boolean) {
+  recordProgress({ type: 'session', messages: userMessages, resumed });
+  recordChallengeActivity({ mode, sessions: resumed ? 0 : 1, messages: userMessages, minutes });
+}
+
+export function saveSessionToHistory(conversation: Message[], mode: AppMode, startedAt: number, options: SaveSessionOptions = {}) {
+  if (!conversation || conversation.length === 0) return;
+  const messages = conversation.map(({ audioChunks, ...message }) => message);
+
+  const storageKey = profileKey(HISTORY_KEY);
+  const endedAt = Date.now();
+  const history = readHistory(storageKey);
+
+  // A resumed session goes back to the top of the history with the new messages
+  // added. If it has been deleted in the meantime, it is saved as a new one.
+  const resumed = options.resumedSessionId !== undefined ? history.find(session => session.id === options.resumedSessionId) : undefined;
+  if (resumed) {
+    const previousIds = new Set(resumed.messages.map(m => m.id));
+    const newUserMessages = messages.filter(m => m.speaker === 'user' && !previousIds.has(m.id)).length;
+    if (!messages.some(m => !previousIds.has(m.id))) return;
+
+    const minutes = (endedAt - startedAt) / 60000;
+    const updated: SessionRecord = {
+      ...resumed,
+      timestamp: endedAt,
+      endedAt,
+      activeMinutes: getSessionMinutes(resumed) + minutes,
+      messages,
+      ...(newUserMessages > 0 ? { summaryStatus: 'pending' as const } : {}),
+    };
+    const updatedHistory = trimHistory([updated, ...history.filter(session => session.id !== resumed.id)]);
+    writeHistory(storageKey, updatedHistory);
+    moveSessionImagesToBlobStore(updated, storageKey);
+    updateFeedbackPreferences(updatedHistory);
+
+    if (newUserMessages > 0) {
+      recordSessionActivity(mode, newUserMessages, minutes, true);
+      summarizeSession(updated.id, storageKey);
+    }
+    return;
+  }
+
+  // Only sessions where the child actually said or typed something count towards progress or get summarised.
+  const userMessages = messages.filter(m => m.speaker === 'user').length;
+
+  const newSession: SessionRecord = {
+    id: endedAt,
+    mode,
+    timestamp: endedAt,
+    startedAt,
+    endedAt,
+    ...(options.buddyId ? { buddyId: options.buddyId } : {}),
+    messages,
+    ...(options.attempts && options.attempts.length > 0 ? { attempts: options.attempts } : {}),
+    ...(userMessages > 0 ? { summaryStatus: 'pending' as const } : {}),
+  };
+
+  const updatedHistory = trimHistory([newSession, ...history]);
+  writeHistory(storageKey, updatedHistory);
+  moveSessionImagesToBlobStore(newSession, storageKey);
+  updateFeedbackPreferences(updatedHistory);
+
+  if (userMessages > 0) {
+    recordSessionActivity(mode, userMessages, (endedAt - startedAt) / 60000, false);
+    summarizeSession(newSession.id, storageKey);
+  }
+}
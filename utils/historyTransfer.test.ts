@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecord } from '../types';
+import { EXPORT_FORMAT, HistoryImportError, buildJsonExport, parseHistoryImport } from './historyTransfer';
+import { BLOB_REF_PREFIX } from './storage';
+
+const session = (id: number, imageUrl?: string, extra: Partial<SessionRecord> = {}): SessionRecord => ({
+  id,
+  mode: 'free-chat',
+  timestamp: 1700000000000 + id,
+  messages: [{ id: 1, speaker: 'user', text: 'Look at my drawing', ...(imageUrl ? { imageUrl } : {}) }],
+  ...extra,
+});
+
+const backup = (sessions: unknown[], extra: object = {}) => JSON.stringify({ format: EXPORT_FORMAT, version: 1, historyVersion: 1, sessions, ...extra });
+
+describe('parseHistoryImport', () => {
+  it('reads back its own export', () => {
+    const exported = buildJsonExport([session(1)], 'Sam');
+    expect(parseHistoryImport(exported)).toEqual({ sessions: [session(1)], invalid: 0 });
+  });
+
+  it('keeps inline pictures and blob references', () => {
+    const { sessions, invalid } = parseHistoryImport(backup([
+      session(1, 'data:image/png;base64,iVBORw0KGgo='),
+      session(2, 'data:image/jpeg;base64,/9j/4AAQ'),
+      session(3, `${BLOB_REF_PREFIX}abc`),
+    ]));
+    expect(sessions.map(s => s.id)).toEqual([1, 2, 3]);
+    expect(invalid).toBe(0);
+  });
+
+  it.each([
+    'https://example.com/cat.png',
+    'http://example.com/cat.png',
+    'javascript:alert(1)',
+    'data:text/html;base64,PHNjcmlwdD4=',
+    'data:image/svg+xml;base64,PHN2Zz4=',
+  ])('skips a session whose picture is %s', (imageUrl) => {
+    expect(parseHistoryImport(backup([session(1), session(2, imageUrl)]))).toMatchObject({ sessions: [session(1)], invalid: 1 });
+  });
+
+  it('marks summaries that were still being written as failed', () => {
+    const { sessions } = parseHistoryImport(backup([session(1, undefined, { summaryStatus: 'pending' })]));
+    expect(sessions[0].summaryStatus).toBe('failed');
+  });
+
+  it('migrates backups made before the history version was recorded', () => {
+    const old = { ...session(1), messages: [{ id: 1, speaker: 'ai', text: 'Drawing...', isGeneratingImage: true }] };
+    const { sessions } = parseHistoryImport(backup([old], { historyVersion: undefined }));
+    expect(sessions[0].messages[0]).not.toHaveProperty('isGeneratingImage');
+  });
+
+  it.each([
+    ['not json', "That file isn't valid JSON."],
+    ['null', "That file isn't a conversation history export."],
+    ['[]', "That file isn't a conversation history export."],
+    [JSON.stringify({ format: 'something-else', version: 1, sessions: [] }), "That file isn't a conversation history export."],
+    [JSON.stringify({ format: EXPORT_FORMAT, sessions: [] }), 'That file was exported by a newer version of the app.'],
+    [JSON.stringify({ format: EXPORT_FORMAT, version: 99, sessions: [] }), 'That file was exported by a newer version of the app.'],
+  ])('turns away %s', (json, message) => {
+    expect(() => parseHistoryImport(json)).toThrow(new HistoryImportError(message));
+  });
+});
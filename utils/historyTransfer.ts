@@ -0,0 +1,148 @@
+import { Message, SessionRecord } from '../types';
+import { HISTORY_MIGRATIONS, HISTORY_VERSION, isSessionRecord, migrateEnvelope, wrapEnvelope } from './schema';
+import { isBlobRef } from './storage';
+
+export const EXPORT_FORMAT = 'askie-kids-history';
+export const EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'html' | 'markdown';
+
+export interface HistoryExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  historyVersion?: number; // Schema version of `sessions`; missing in backups made before it existed
+  exportedAt: string;
+  profileName: string;
+  sessions: SessionRecord[];
+}
+
+export class HistoryImportError extends Error {}
+
+// Display names live with the UI, so the transcript builders are handed them.
+export interface ExportLabels {
+  getModeTitle: (mode: SessionRecord['mode']) => string;
+  getBuddyName: (buddyId?: string) => string;
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const speakerName = (message: Message, session: SessionRecord, labels: ExportLabels) => message.speaker === 'user' ? 'Child' : labels.getBuddyName(session.buddyId);
+
+export function buildJsonExport(sessions: SessionRecord[], profileName: string): string {
+  const data: HistoryExport = { format: EXPORT_FORMAT, version: EXPORT_VERSION, historyVersion: HISTORY_VERSION, exportedAt: new Date().toISOString(), profileName, sessions };
+  return JSON.stringify(data, null, 2);
+}
+
+// Images are left out of Markdown; the JSON export keeps them.
+export function buildMarkdownExport(sessions: SessionRecord[], profileName: string, labels: ExportLabels): string {
+  const sections = sessions.map(session => {
+    const lines = [`## ${labels.getModeTitle(session.mode)} — ${new Date(session.startedAt ?? session.timestamp).toLocaleString()}`, ''];
+    if (session.summary) lines.push(`> ${session.summary.text}`, '');
+    for (const message of session.messages) {
+      lines.push(`**${speakerName(message, session, labels)}:** ${message.text}${message.imageUrl ? ' _(picture)_' : ''}`, '');
+    }
+    return lines.join('\n');
+  });
+  return [`# ${profileName}'s conversations`, '', ...sections].join('\n');
+}
+
+export function buildHtmlExport(sessions: SessionRecord[], profileName: string, labels: ExportLabels): string {
+  const sections = sessions.map(session => `
+    <section>
+      <h2>${escapeHtml(labels.getModeTitle(session.mode))}</h2>
+      <p class="meta">${escapeHtml(new Date(session.startedAt ?? session.timestamp).toLocaleString())}</p>
+      ${session.summary ? `<p class="summary">${escapeHtml(session.summary.text)}</p>` : ''}
+      ${session.messages.map(message => `
+        <div class="message ${message.speaker}">
+          <strong>${escapeHtml(speakerName(message, session, labels))}:</strong> ${escapeHtml(message.text)}
+          ${message.imageUrl ? `<img src="${escapeHtml(message.imageUrl)}" alt="">` : ''}
+        </div>`).join('')}
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(profileName)}'s conversations</title>
+  <style>
+    body { font-family: sans-serif; max-width: 48rem; margin: 2rem auto; color: #1e293b; }
+    section { margin-bottom: 2rem; page-break-inside: avoid; }
+    .meta { color: #64748b; font-size: 0.875rem; }
+    .summary { background: #f5f3ff; padding: 0.75rem; border-radius: 0.5rem; }
+    .message { margin: 0.5rem 0; }
+    .message.user strong { color: #7c3aed; }
+    img { display: block; max-width: 16rem; margin-top: 0.5rem; border-radius: 0.5rem; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(profileName)}'s conversations</h1>${sections}
+</body>
+</html>`;
+}
+
+// Images in a backup are inline pictures, or blob references that just show as
+// missing when the backup came from another device. Links to anywhere else would
+// have the app load them, so they aren't accepted.
+const isSafeImageUrl = (url: string) => /^data:image\/(?:png|jpeg|gif|webp);base64,/.test(url) || isBlobRef(url);
+
+const validateSession = (value: unknown): value is SessionRecord => (
+  isSessionRecord(value) && value.messages.every(message => message.imageUrl === undefined || isSafeImageUrl(message.imageUrl))
+);
+
+// Throws a HistoryImportError for files that aren't a history export at all;
+// individual malformed sessions are skipped and counted.
+export function parseHistoryImport(json: string): { sessions: SessionRecord[]; invalid: number } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new HistoryImportError("That file isn't valid JSON.");
+  }
+  if (!data || typeof data !== 'object' || !('format' in data) || data.format !== EXPORT_FORMAT || !('sessions' in data) || !Array.isArray(data.sessions)) {
+    throw new HistoryImportError("That file isn't a conversation history export.");
+  }
+  if (!('version' in data) || typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new HistoryImportError('That file was exported by a newer version of the app.');
+  }
+  const historyVersion = 'historyVersion' in data && typeof data.historyVersion === 'number' && Number.isInteger(data.historyVersion) ? data.historyVersion : 0;
+
+  // Backups from older versions go through the same migrations as stored history.
+  const { data: migrated } = migrateEnvelope(wrapEnvelope(data.sessions, historyVersion), HISTORY_MIGRATIONS);
+  const records = Array.isArray(migrated) ? migrated : [];
+
+  // In-progress summaries from the exporting device would never finish here.
+  const sessions = records.filter(validateSession).map(session => (
+    session.summaryStatus === 'pending' ? { ...session, summaryStatus: 'failed' as const } : session
+  ));
+  return { sessions, invalid: data.sessions.length - sessions.length };
+}
+
+export function mergeSessions(existing: SessionRecord[], incoming: SessionRecord[]): { merged: SessionRecord[]; added: number; skipped: number } {
+  const ids = new Set(existing.map(session => session.id));
+  const added: SessionRecord[] = [];
+  for (const session of incoming) {
+    if (ids.has(session.id)) continue;
+    ids.add(session.id);
+    added.push(session);
+  }
+  const merged = [...existing, ...added].sort((a, b) => b.timestamp - a.timestamp);
+  return { merged, added: added.length, skipped: incoming.length - added.length };
+}
+
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+
+export function downloadFile(filename: string, content: BlobPart, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Browsers read the file from the URL some time after the click, and a large
+  // export can take a while to start, so it's only revoked well afterwards.
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+}
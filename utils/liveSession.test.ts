@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { ConversationStatus } from '../types';
+import { LiveStatusEvent, MAX_RECONNECT_ATTEMPTS, PendingInput, getInputsToReplay, getNextStatus, getReconnectDelay, isSessionActive } from './liveSession';
+
+const { IDLE, PROCESSING, LISTENING, THINKING, SPEAKING, RECONNECTING, ERROR } = ConversationStatus;
+
+const run = (events: LiveStatusEvent[], from: ConversationStatus = IDLE) => events.reduce(getNextStatus, from);
+
+describe('getNextStatus', () => {
+  it('follows a conversation from start to stop', () => {
+    const steps: [LiveStatusEvent, ConversationStatus][] = [
+      ['start', PROCESSING],
+      ['opened', LISTENING],
+      ['child-paused', THINKING],
+      ['buddy-spoke', SPEAKING],
+      ['buddy-spoke', SPEAKING],
+      ['turn-complete', LISTENING],
+      ['buddy-spoke', SPEAKING],
+      ['interrupted', LISTENING],
+      ['stopped', IDLE],
+    ];
+    steps.reduce((status, [event, expected]) => {
+      const next = getNextStatus(status, event);
+      expect(next, `after "${event}"`).toBe(expected);
+      return next;
+    }, IDLE);
+  });
+
+  it.each([LISTENING, THINKING, SPEAKING, PROCESSING])('reconnects after a drop while %s', (status) => {
+    expect(getNextStatus(status, 'dropped')).toBe(RECONNECTING);
+    expect(run(['dropped', 'reconnected'], status)).toBe(LISTENING);
+  });
+
+  it('gives up from reconnecting', () => {
+    expect(run(['dropped', 'failed'], LISTENING)).toBe(ERROR);
+  });
+
+  it('can start again after an error', () => {
+    expect(getNextStatus(ERROR, 'start')).toBe(PROCESSING);
+  });
+
+  it.each<[ConversationStatus, LiveStatusEvent]>([
+    [IDLE, 'buddy-spoke'],
+    [IDLE, 'turn-complete'],
+    [IDLE, 'dropped'],
+    [IDLE, 'reconnected'],
+    [ERROR, 'opened'],
+    [ERROR, 'dropped'],
+    [PROCESSING, 'buddy-spoke'],
+    [RECONNECTING, 'buddy-spoke'],
+    [LISTENING, 'start'],
+    [SPEAKING, 'child-paused'],
+    [LISTENING, 'interrupted'],
+  ])('leaves %s alone on "%s"', (status, event) => {
+    expect(getNextStatus(status, event)).toBe(status);
+  });
+
+  it('can always be stopped once started', () => {
+    for (const status of [PROCESSING, LISTENING, THINKING, SPEAKING, RECONNECTING, ERROR]) {
+      expect(getNextStatus(status, 'stopped')).toBe(IDLE);
+    }
+  });
+});
+
+describe('isSessionActive', () => {
+  it('counts every status except idle and error', () => {
+    expect([IDLE, PROCESSING, LISTENING, THINKING, SPEAKING, RECONNECTING, ERROR].filter(isSessionActive))
+      .toEqual([PROCESSING, LISTENING, THINKING, SPEAKING, RECONNECTING]);
+  });
+});
+
+describe('getReconnectDelay', () => {
+  it('doubles with each attempt', () => {
+    expect([0, 1, 2, 3, 4].map(attempt => getReconnectDelay(attempt, 0))).toEqual([500, 1000, 2000, 4000, 8000]);
+  });
+
+  it('stops growing at 8 seconds', () => {
+    expect(getReconnectDelay(10, 0)).toBe(8000);
+    expect(getReconnectDelay(100, 0)).toBe(8000);
+  });
+
+  it('adds up to a quarter on top as jitter', () => {
+    expect(getReconnectDelay(1, 0.5)).toBe(1125);
+    expect(getReconnectDelay(1, 0.999)).toBeLessThanOrEqual(1250);
+    expect(getReconnectDelay(10, 0.999)).toBeLessThanOrEqual(10000);
+  });
+
+  it('waits well under a minute in total before giving up', () => {
+    const total = Array.from({ length: MAX_RECONNECT_ATTEMPTS }, (_, attempt) => getReconnectDelay(attempt, 1)).reduce((a, b) => a + b, 0);
+    expect(total).toBeLessThan(60000);
+  });
+});
+
+describe('getInputsToReplay', () => {
+  const pending: PendingInput[] = [
+    { type: 'clientContent', params: { turns: 'Here is my drawing', turnComplete: true } },
+    { type: 'toolResponse', params: { functionResponses: [{ id: 'call-1', name: 'generateImage', response: { result: 'ok' } }] } },
+    { type: 'media', params: { media: { data: 'aW1hZ2U=', mimeType: 'image/jpeg' } } },
+  ];
+
+  it('replays everything to a resumed session', () => {
+    expect(getInputsToReplay(pending, true)).toEqual(pending);
+  });
+
+  it('leaves out tool responses for a new session', () => {
+    expect(getInputsToReplay(pending, false).map(input => input.type)).toEqual(['clientContent', 'media']);
+  });
+});
@@ -0,0 +1,69 @@
+import { LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters } from '@google/genai';
+import { ConversationStatus } from '../types';
+
+// The parts of a live session that don't need React: how its status moves, how
+// long to wait before reconnecting, and what has to be sent again afterwards.
+
+export type LiveStatusEvent =
+  | 'start'         // Asking for the microphone and connecting
+  | 'opened'
+  | 'child-paused'  // The child seems to have finished talking
+  | 'buddy-spoke'
+  | 'turn-complete'
+  | 'interrupted'
+  | 'dropped'       // The connection closed without being asked to
+  | 'reconnected'
+  | 'failed'
+  | 'stopped';
+
+const { IDLE, PROCESSING, LISTENING, THINKING, SPEAKING, RECONNECTING, ERROR } = ConversationStatus;
+const CONNECTED = [LISTENING, THINKING, SPEAKING];
+
+// For each event, the statuses it applies in and where it leads. An event that
+// doesn't apply leaves the status as it is, e.g. a late transcription chunk
+// can't pull a stopped session back to LISTENING.
+const TRANSITIONS: Record<LiveStatusEvent, [from: ConversationStatus[], to: ConversationStatus]> = {
+  'start': [[IDLE, ERROR], PROCESSING],
+  'opened': [[PROCESSING], LISTENING],
+  'child-paused': [[LISTENING], THINKING],
+  'buddy-spoke': [[LISTENING, THINKING], SPEAKING],
+  'turn-complete': [[THINKING, SPEAKING], LISTENING],
+  'interrupted': [[SPEAKING], LISTENING],
+  'dropped': [[PROCESSING, ...CONNECTED], RECONNECTING],
+  'reconnected': [[RECONNECTING], LISTENING],
+  'failed': [[PROCESSING, RECONNECTING, ...CONNECTED], ERROR],
+  'stopped': [[PROCESSING, RECONNECTING, ERROR, ...CONNECTED], IDLE],
+};
+
+export function getNextStatus(status: ConversationStatus, event: LiveStatusEvent): ConversationStatus {
+  const [from, to] = TRANSITIONS[event];
+  return from.includes(status) ? to : status;
+}
+
+export const isSessionActive = (status: ConversationStatus) => status !== IDLE && status !== ERROR;
+
+export const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+
+// Exponential backoff with up to 25% jitter, so devices that dropped together
+// don't all reconnect at the same moment. `attempt` counts from 0.
+export function getReconnectDelay(attempt: number, random: number = Math.random()): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(delay * (1 + random * 0.25));
+}
+
+// Input the app sent that a dropped session may have lost. A resumption handle
+// covers everything sent before it arrived, so only input sent since the last
+// handle is replayed. Microphone audio is never kept: the child can just say it again.
+export type PendingInput =
+  | { type: 'clientContent'; params: LiveSendClientContentParameters }
+  | { type: 'toolResponse'; params: LiveSendToolResponseParameters }
+  | { type: 'media'; params: LiveSendRealtimeInputParameters };
+
+// What to send again once a dropped session is back. A tool response only makes
+// sense to the session that asked for it, so it's dropped unless that session
+// was resumed.
+export function getInputsToReplay(pending: PendingInput[], resumed: boolean): PendingInput[] {
+  return resumed ? pending : pending.filter(input => input.type !== 'toolResponse');
+}
@@ -0,0 +1,132 @@
+import { Blob } from '@google/genai';
+import { createResampler, floatToPcm16, pcmToBlob } from './audio';
+
+// Microphone capture for live sessions. An AudioWorklet cuts the audio into
+// chunks, resamples them to 16kHz, converts them to 16-bit PCM and measures the
+// level on the audio thread, so the main thread only has to encode the chunks
+// and send them on.
+//
+// Some browsers ignore the sample rate asked for and run the context at the
+// hardware rate instead. The worklet then cuts chunks of the same length in
+// time, so each one still comes out at about 4096 samples.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 256ms at 16kHz, the same chunk size the old ScriptProcessorNode used.
+export const CAPTURE_CHUNK_SAMPLES = 4096;
+const CHUNK_SECONDS = CAPTURE_CHUNK_SAMPLES / CAPTURE_SAMPLE_RATE;
+const LEVEL_INTERVAL_SECONDS = 1 / 8;
+// Level changes smaller than this aren't worth a re-render.
+const LEVEL_STEP = 0.02;
+
+export interface MicCaptureOptions {
+  onChunk: (chunk: Blob, level: number) => void; // level is the chunk's RMS, 0 to 1
+  onLevel?: (level: number) => void; // 0 to 1, a few times a second
+}
+
+export interface MicCapture {
+  stop: () => void;
+}
+
+type WorkletMessage = { type: 'chunk'; pcm: ArrayBuffer; rms: number } | { type: 'level'; level: number };
+
+// Runs in the AudioWorkletGlobalScope, so it's loaded from a string rather than
+// bundled. The resampler and PCM conversion are copied in from ./audio, which is
+// why both have to stay free of anything outside their own bodies. Builds that
+// keep function names wrap them in a `__name` helper, so a stand-in is defined.
+const WORKLET_SOURCE = `
+const __name = (fn) => fn;
+const createResampler = ${createResampler.toString()};
+const floatToPcm16 = ${floatToPcm16.toString()};
+
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    // sampleRate is the context's actual rate, a global in the worklet scope.
+    this.resampler = createResampler(sampleRate, ${CAPTURE_SAMPLE_RATE});
+    this.levelIntervalSamples = Math.round(sampleRate * ${LEVEL_INTERVAL_SECONDS});
+    this.chunk = new Float32Array(Math.round(sampleRate * ${CHUNK_SECONDS}));
+    this.filled = 0;
+    this.chunkSumOfSquares = 0;
+    this.sumOfSquares = 0;
+    this.levelSamples = 0;
+    this.lastLevel = -1;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    for (let i = 0; i < input.length; i++) {
+      const sample = Math.max(-1, Math.min(1, input[i]));
+      this.chunk[this.filled++] = sample;
+      this.sumOfSquares += sample * sample;
+      this.chunkSumOfSquares += sample * sample;
+
+      if (this.filled === this.chunk.length) {
+        const rms = Math.sqrt(this.chunkSumOfSquares / this.filled);
+        const pcm = floatToPcm16(this.resampler.process(this.chunk));
+        this.port.postMessage({ type: 'chunk', pcm: pcm.buffer, rms }, [pcm.buffer]);
+        this.filled = 0;
+        this.chunkSumOfSquares = 0;
+      }
+    }
+
+    this.levelSamples += input.length;
+    if (this.levelSamples >= this.levelIntervalSamples) {
+      const level = Math.min(1, Math.sqrt(this.sumOfSquares / this.levelSamples) * 5);
+      if (Math.abs(level - this.lastLevel) >= ${LEVEL_STEP}) {
+        this.port.postMessage({ type: 'level', level });
+        this.lastLevel = level;
+      }
+      this.sumOfSquares = 0;
+      this.levelSamples = 0;
+    }
+    return true;
+  }
+}
+
+registerProcessor('mic-capture', MicCaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+
+const getWorkletUrl = () => {
+  workletUrl = workletUrl ?? URL.createObjectURL(new window.Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  return workletUrl;
+};
+
+// Asks for the microphone and starts sending chunks straight away. Throws if
+// permission is refused or the browser has no AudioWorklet support.
+export async function startMicCapture({ onChunk, onLevel }: MicCaptureOptions): Promise<MicCapture> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: CAPTURE_SAMPLE_RATE });
+  let stopped = false;
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    stream.getTracks().forEach(track => track.stop());
+    if (context.state !== 'closed') context.close();
+  };
+
+  try {
+    await context.audioWorklet.addModule(getWorkletUrl());
+    const node = new AudioWorkletNode(context, 'mic-capture', { numberOfInputs: 1, numberOfOutputs: 1, channelCount: 1 });
+    node.port.onmessage = (event: MessageEvent<WorkletMessage>) => {
+      if (stopped) return;
+      if (event.data.type === 'level') {
+        onLevel?.(event.data.level);
+        return;
+      }
+      onChunk(pcmToBlob(new Int16Array(event.data.pcm), CAPTURE_SAMPLE_RATE), event.data.rms);
+    };
+    // The node writes nothing to its output, but it has to be connected to be run.
+    context.createMediaStreamSource(stream).connect(node);
+    node.connect(context.destination);
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  return { stop };
+}
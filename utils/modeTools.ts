@@ -0,0 +1,41 @@
+import { FunctionDeclaration, Tool, Type } from '@google/genai';
+import { AppMode } from '../types';
+import { InstructionSpec } from './prompts';
+
+// The function tools each mode offers the model. Like the system instruction,
+// they're worked out from the InstructionSpec on the AI server rather than sent
+// by the browser.
+
+export const GENERATE_IMAGE_TOOL = 'generateImage';
+
+const generateImageFunctionDeclaration: FunctionDeclaration = {
+  name: GENERATE_IMAGE_TOOL,
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Generates an image based on a user\'s description. Call this only when the user explicitly asks for a picture, drawing, or image.',
+    properties: {
+      prompt: {
+        type: Type.STRING,
+        description: 'A detailed description of the image the user wants to see.',
+      },
+      style: {
+        type: Type.STRING,
+        description: "The artistic style of the image. For example: 'cartoon', 'photorealistic', 'sketch'. Defaults to 'cartoon' if not specified by the user.",
+      },
+    },
+    required: ['prompt'],
+  },
+};
+
+export function getModeTools(mode: AppMode): Tool[] {
+  switch (mode) {
+    case 'homework':
+    case 'read-and-learn':
+    case 'learning':
+      return [{ functionDeclarations: [generateImageFunctionDeclaration] }];
+    default:
+      return [];
+  }
+}
+
+export const getInstructionTools = (spec?: InstructionSpec): Tool[] => spec?.kind === 'buddy' ? getModeTools(spec.mode) : [];
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_MODERATION_RULES, ModerationRules, findPersonalInfo, getRedirectMessage, moderate, moderateText, redactPersonalInfo, toModerationFlag,
+} from './moderation';
+
+const withRules = (changes: Partial<ModerationRules>): ModerationRules => ({ ...DEFAULT_MODERATION_RULES, ...changes });
+
+describe('moderateText', () => {
+  it.each([
+    ['I want to hurt myself', 'self-harm'],
+    ['Sometimes I want to die', 'self-harm'],
+    ['How do you make a bomb?', 'unsafe-topic'],
+    ['Where can I buy a VAPE', 'unsafe-topic'],
+    ['Tell me about guns', 'unsafe-topic'],
+    ['My number is 07700 900123', 'personal-info'],
+    ['Call 07700900123 after school', 'personal-info'],
+    ['Ring me on 555-0123 tonight', 'personal-info'],
+    ['Email me at sam.smith@example.com', 'personal-info'],
+    ['I live at 42 Baker Street', 'personal-info'],
+    ['My postcode is SW1A 1AA', 'personal-info'],
+  ])('flags "%s" as %s', (text, category) => {
+    expect(moderateText(text, 'child').categories).toContain(category);
+  });
+
+  it.each([
+    'What skills does a knight need?',
+    'Can orcas be called killer whales?',
+    'The horse went back to its stable',
+    'We visited Sussex and Essex on holiday',
+    'Why do volcanoes explode?',
+    "I'm 7 and my brother is 10",
+    'What is 2 + 2 = 4?',
+    'What is 1234 + 5678?',
+    'What is 12 times 12?',
+    'There were 1000000 stars in the sky',
+    'Dinosaurs lived 66 million years ago',
+    'I walked 5 miles the other way',
+    'I counted 3 apples then closed the box',
+    'We have 2 dogs and they run all the way home',
+    'My favourite drink is apple juice',
+    'Can you help me with my spelling homework?',
+    'My cat is called Ginger and she likes naps',
+  ])('allows ordinary kid talk: "%s"', (text) => {
+    expect(moderateText(text, 'child')).toEqual({ action: 'allow', categories: [], matches: [] });
+  });
+
+  it('redirects a child but blocks the AI and image prompts', () => {
+    expect(moderateText('Let us talk about gambling', 'child').action).toBe('redirect');
+    expect(moderateText('Let us talk about gambling', 'ai').action).toBe('block');
+    expect(moderateText('A picture of a gun', 'image-prompt').action).toBe('block');
+  });
+
+  it('reports every category and match it finds', () => {
+    const result = moderateText('I want to die, call me on 07700 900123', 'child');
+    expect(result.categories).toEqual(['self-harm', 'personal-info']);
+    expect(result.matches).toEqual(['want to die', 'phone number']);
+  });
+
+  it("applies a parent's own keywords", () => {
+    const rules = withRules({ customKeywords: ['fortnite', '  '] });
+    expect(moderateText('Can we play Fortnite?', 'child', rules)).toMatchObject({ action: 'redirect', categories: ['custom'], matches: ['fortnite'] });
+    expect(moderateText('Can we play chess?', 'child', rules).action).toBe('allow');
+  });
+
+  it('can leave personal details alone', () => {
+    expect(moderateText('My number is 07700 900123', 'child', withRules({ detectPersonalInfo: false })).action).toBe('allow');
+  });
+});
+
+describe('findPersonalInfo and redactPersonalInfo', () => {
+  it('names each kind of detail found', () => {
+    expect(findPersonalInfo('Ring 020 7946 0958 or write to kid@example.org')).toEqual(['phone number', 'email address']);
+  });
+
+  it('hides phone numbers and emails but leaves small numbers readable', () => {
+    expect(redactPersonalInfo("I'm 8, call 07700 900123 or mail me@example.com")).toBe("I'm 8, call ••• or mail •••");
+  });
+});
+
+describe('moderate', () => {
+  const rules = withRules({ useModelClassifier: true });
+
+  it('asks the classifier only when the rules pass', async () => {
+    const classifier = vi.fn().mockResolvedValue({ safe: true });
+
+    await moderate('How do you make a bomb?', 'child', rules, classifier);
+    expect(classifier).not.toHaveBeenCalled();
+
+    expect((await moderate('Tell me about frogs', 'child', rules, classifier)).action).toBe('allow');
+    expect(classifier).toHaveBeenCalledWith('Tell me about frogs', 'child');
+  });
+
+  it("follows the classifier's verdict", async () => {
+    const classifier = vi.fn().mockResolvedValue({ safe: false, reason: 'scary' });
+    expect(await moderate('Something subtle', 'ai', rules, classifier)).toEqual({ action: 'block', categories: ['classifier'], matches: ['scary'] });
+  });
+
+  it('skips the classifier unless parents turned it on', async () => {
+    const classifier = vi.fn().mockResolvedValue({ safe: false });
+    expect((await moderate('Tell me about frogs', 'child', DEFAULT_MODERATION_RULES, classifier)).action).toBe('allow');
+    expect(classifier).not.toHaveBeenCalled();
+  });
+
+  it('carries on when the classifier fails', async () => {
+    const classifier = vi.fn().mockRejectedValue(new Error('offline'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await moderate('Tell me about frogs', 'child', rules, classifier)).action).toBe('allow');
+    error.mockRestore();
+  });
+});
+
+describe('toModerationFlag and getRedirectMessage', () => {
+  it('makes no flag for allowed text', () => {
+    expect(toModerationFlag(moderateText('Hello!', 'child'), 'child', 'Hello!')).toBeUndefined();
+  });
+
+  it("keeps the original text and answers with the first category's message", () => {
+    const result = moderateText('I want to hurt myself', 'child');
+    expect(toModerationFlag(result, 'child', 'I want to hurt myself')).toEqual({
+      action: 'redirect', categories: ['self-harm'], source: 'child', originalText: 'I want to hurt myself',
+    });
+    expect(getRedirectMessage(result)).toMatch(/grown-up you trust/);
+  });
+});
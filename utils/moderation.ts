@@ -0,0 +1,164 @@
+import { Type } from '@google/genai';
+import { ModerationAction, ModerationCategory, ModerationFlag } from '../types';
+import { AiProvider } from './aiProvider';
+import { getItem, setItem } from './storage';
+
+export const MODERATION_KEY = 'askie-kids-moderation';
+
+export type ModerationSource = ModerationFlag['source'];
+
+export interface ModerationRules {
+  blockedKeywords: string[];
+  selfHarmKeywords: string[];
+  customKeywords: string[]; // Added by parents in Settings
+  detectPersonalInfo: boolean;
+  useModelClassifier: boolean;
+}
+
+export interface ModerationResult {
+  action: ModerationAction;
+  categories: ModerationCategory[];
+  matches: string[];
+}
+
+// A model-based check, injected so rule-based detection can be tested without a network.
+export type ModerationClassifier = (text: string, source: ModerationSource) => Promise<{ safe: boolean; reason?: string }>;
+
+export const DEFAULT_MODERATION_RULES: ModerationRules = {
+  blockedKeywords: [
+    'kill', 'murder', 'gun', 'guns', 'stab', 'gore', 'bomb',
+    'sex', 'sexy', 'naked', 'porn', 'drugs', 'cocaine', 'heroin', 'beer', 'vodka', 'cigarette', 'vape',
+    'gamble', 'gambling', 'casino',
+  ],
+  selfHarmKeywords: ['kill myself', 'hurt myself', 'want to die', 'suicide', 'cut myself', 'self harm'],
+  customKeywords: [],
+  detectPersonalInfo: true,
+  useModelClassifier: false,
+};
+
+// `minDigits` stops short digit runs ("I'm 7", "2 + 2 = 4") counting as phone numbers,
+// and `minUnbrokenDigits` does the same for big numbers written without spaces
+// ("1000000 stars"). Street names must be capitalised, so "5 miles the other way" isn't an address.
+export const PERSONAL_INFO_PATTERNS: { name: string; pattern: RegExp; minDigits?: number; minUnbrokenDigits?: number }[] = [
+  { name: 'phone number', pattern: /(?:\+?\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d{3,4}[\s.-]?\d{3,4}(?:[\s.-]?\d{2,4})?/g, minDigits: 7, minUnbrokenDigits: 10 },
+  { name: 'email address', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { name: 'street address', pattern: /\b\d{1,5}\s+(?:[A-Z][a-z]+\s){1,3}(?:[Ss]treet|St|[Rr]oad|Rd|[Aa]venue|Ave|[Ll]ane|Ln|[Dd]rive|Dr|[Cc]lose|[Cc]ourt|Ct|[Ww]ay|[Bb]oulevard|Blvd|[Pp]lace|Pl)\b/g },
+  { name: 'postcode', pattern: /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/g },
+];
+
+// Replies the buddy gives instead of engaging with a flagged turn.
+export const REDIRECT_MESSAGES: Record<ModerationCategory, string> = {
+  'personal-info': "Let's keep things like phone numbers, emails and addresses private, even with me! What else would you like to talk about?",
+  'self-harm': "It sounds like you might be having a really hard time. Please tell a grown-up you trust, like a parent or teacher, how you're feeling. They care about you and can help.",
+  'unsafe-topic': "That's not something I can talk about. How about we explore something fun instead, like space or animals?",
+  'custom': "Let's talk about something else! What are you curious about today?",
+  'classifier': "Let's talk about something else! What are you curious about today?",
+};
+
+export const IMAGE_BLOCKED_MESSAGE = "I can't draw that one. Let's think of something else to draw!";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function findKeywords(text: string, keywords: string[]): string[] {
+  return keywords.filter(keyword => keyword.trim() && new RegExp(`\\b${escapeRegExp(keyword.trim())}\\b`, 'i').test(text));
+}
+
+const hasEnoughDigits = (match: string, minDigits = 0, minUnbrokenDigits = 0) => {
+  const digits = match.replace(/\D/g, '').length;
+  return digits >= minDigits && (/\D/.test(match) || digits >= minUnbrokenDigits);
+};
+
+export function findPersonalInfo(text: string): string[] {
+  return PERSONAL_INFO_PATTERNS
+    .filter(({ pattern, minDigits, minUnbrokenDigits }) => (text.match(pattern) ?? []).some(match => hasEnoughDigits(match, minDigits, minUnbrokenDigits)))
+    .map(({ name }) => name);
+}
+
+// Hides personal details from the child-facing transcript; parents still see the original.
+export function redactPersonalInfo(text: string): string {
+  return PERSONAL_INFO_PATTERNS.reduce(
+    (redacted, { pattern, minDigits, minUnbrokenDigits }) => redacted.replace(pattern, match => hasEnoughDigits(match, minDigits, minUnbrokenDigits) ? '•••' : match),
+    text,
+  );
+}
+
+// Rule-based moderation. Children sharing personal details or mentioning self-harm
+// are redirected; anything unsafe from the AI, or in an image prompt, is blocked.
+export function moderateText(text: string, source: ModerationSource, rules: ModerationRules = DEFAULT_MODERATION_RULES): ModerationResult {
+  const categories: ModerationCategory[] = [];
+  const matches: string[] = [];
+
+  const selfHarm = findKeywords(text, rules.selfHarmKeywords);
+  if (selfHarm.length > 0) { categories.push('self-harm'); matches.push(...selfHarm); }
+
+  const blocked = findKeywords(text, rules.blockedKeywords);
+  if (blocked.length > 0) { categories.push('unsafe-topic'); matches.push(...blocked); }
+
+  const custom = findKeywords(text, rules.customKeywords);
+  if (custom.length > 0) { categories.push('custom'); matches.push(...custom); }
+
+  if (rules.detectPersonalInfo) {
+    const personalInfo = findPersonalInfo(text);
+    if (personalInfo.length > 0) { categories.push('personal-info'); matches.push(...personalInfo); }
+  }
+
+  if (categories.length === 0) return { action: 'allow', categories, matches };
+  const action: ModerationAction = source === 'child' ? 'redirect' : 'block';
+  return { action, categories, matches };
+}
+
+export async function moderate(
+  text: string,
+  source: ModerationSource,
+  rules: ModerationRules = DEFAULT_MODERATION_RULES,
+  classifier?: ModerationClassifier,
+): Promise<ModerationResult> {
+  const result = moderateText(text, source, rules);
+  if (result.action !== 'allow' || !rules.useModelClassifier || !classifier) return result;
+
+  try {
+    const verdict = await classifier(text, source);
+    if (!verdict.safe) {
+      return { action: source === 'child' ? 'redirect' : 'block', categories: ['classifier'], matches: verdict.reason ? [verdict.reason] : [] };
+    }
+  } catch (error) {
+    // The rules already passed; a classifier outage shouldn't stop the conversation.
+    console.error('Moderation classifier error:', error);
+  }
+  return result;
+}
+
+export function toModerationFlag(result: ModerationResult, source: ModerationSource, originalText: string): ModerationFlag | undefined {
+  if (result.action === 'allow') return undefined;
+  return { action: result.action, categories: result.categories, source, originalText };
+}
+
+export function getRedirectMessage({ categories }: { categories: ModerationCategory[] }): string {
+  return REDIRECT_MESSAGES[categories[0] ?? 'custom'];
+}
+
+export function createModelClassifier(ai: AiProvider): ModerationClassifier {
+  return async (text, source) => {
+    const json = await ai.generateJson({
+      contents: `You are a child-safety reviewer for an app used by children aged 4 to 14. Decide whether the following ${source === 'child' ? "message from a child" : source === 'ai' ? 'reply from the AI buddy' : 'image description'} is safe and appropriate. Mark it unsafe if it contains violence, sexual content, self-harm, drugs, hate, personal information, or anything a careful parent would not want their child to see.\n\nText: "${text}"`,
+      schema: { type: Type.OBJECT, properties: { safe: { type: Type.BOOLEAN }, reason: { type: Type.STRING } }, required: ['safe'] },
+    });
+    const data = JSON.parse(json || '{}');
+    return { safe: data.safe !== false, reason: data.reason };
+  };
+}
+
+export function loadModerationRules(): ModerationRules {
+  const settings = getItem<Partial<ModerationRules>>(MODERATION_KEY);
+  if (!settings) return DEFAULT_MODERATION_RULES;
+  return {
+    ...DEFAULT_MODERATION_RULES,
+    customKeywords: Array.isArray(settings.customKeywords) ? settings.customKeywords : [],
+    useModelClassifier: !!settings.useModelClassifier,
+  };
+}
+
+// Only the parent-editable parts are stored; the built-in lists always come from the code.
+export function saveModerationSettings(settings: Pick<ModerationRules, 'customKeywords' | 'useModelClassifier'>) {
+  setItem(MODERATION_KEY, settings);
+}
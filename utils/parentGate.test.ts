@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { LOCKOUT_MS, MAX_LOCKOUT_MS, getLockoutDuration } from './parentGate';
+
+describe('getLockoutDuration', () => {
+  it('doubles with each lockout', () => {
+    expect([0, 1, 2, 3].map(getLockoutDuration)).toEqual([LOCKOUT_MS, LOCKOUT_MS * 2, LOCKOUT_MS * 4, LOCKOUT_MS * 8]);
+  });
+
+  it('stops growing at a day', () => {
+    expect(getLockoutDuration(9)).toBe(MAX_LOCKOUT_MS);
+    expect(getLockoutDuration(100)).toBe(MAX_LOCKOUT_MS);
+  });
+});
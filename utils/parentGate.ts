@@ -0,0 +1,155 @@
+import { encode } from './audio';
+import { getItem, setItem } from './storage';
+
+export const PARENT_GATE_KEY = 'askie-kids-parent-gate';
+
+export const PIN_LENGTH = 4;
+export const MAX_FAILED_ATTEMPTS = 5;
+// The first lockout lasts five minutes, and each one after it twice as long as
+// the last, up to a day. Only the right PIN or answer starts them over.
+export const LOCKOUT_MS = 5 * 60 * 1000;
+export const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+// A forgotten PIN can only be reset this long after the reset was asked for.
+// Questions alone can be looked up or worked out on a calculator, but a child
+// can't wait a day without a parent noticing the notice on the PIN screen.
+export const RESET_DELAY_MS = 24 * 60 * 60 * 1000;
+const PBKDF2_ITERATIONS = 100000;
+
+export interface ParentGateState {
+  pinHash: string | null;
+  salt: string | null;
+  failedAttempts: number;
+  lockedUntil: number | null;
+  lockouts: number;
+  mathFallbackEnabled: boolean;
+  resetRequestedAt: number | null;
+}
+
+export const INITIAL_GATE_STATE: ParentGateState = {
+  pinHash: null,
+  salt: null,
+  failedAttempts: 0,
+  lockedUntil: null,
+  lockouts: 0,
+  mathFallbackEnabled: false,
+  resetRequestedAt: null,
+};
+
+export type PinCheckResult = 'ok' | 'wrong' | 'locked';
+
+export function loadGateState(): ParentGateState {
+  return { ...INITIAL_GATE_STATE, ...getItem<Partial<ParentGateState>>(PARENT_GATE_KEY) };
+}
+
+function saveGateState(state: ParentGateState) {
+  setItem(PARENT_GATE_KEY, state);
+}
+
+export function hasPin(state: ParentGateState = loadGateState()): boolean {
+  return !!state.pinHash && !!state.salt;
+}
+
+export function isValidPin(pin: string): boolean {
+  return new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin);
+}
+
+export function getLockoutRemainingMs(state: ParentGateState, now: number = Date.now()): number {
+  return state.lockedUntil && state.lockedUntil > now ? state.lockedUntil - now : 0;
+}
+
+export function getLockoutDuration(lockouts: number): number {
+  return Math.min(LOCKOUT_MS * 2 ** lockouts, MAX_LOCKOUT_MS);
+}
+
+// PINs are only four digits, so they are stretched with PBKDF2 and a per-device
+// salt rather than stored or hashed directly.
+export async function hashPin(pin: string, salt: string): Promise<string> {
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    keyMaterial,
+    256,
+  );
+  return encode(new Uint8Array(bits));
+}
+
+export async function setPin(pin: string): Promise<void> {
+  if (!isValidPin(pin)) throw new Error(`The PIN must be ${PIN_LENGTH} digits.`);
+  const salt = encode(crypto.getRandomValues(new Uint8Array(16)));
+  const pinHash = await hashPin(pin, salt);
+  saveGateState({ ...loadGateState(), pinHash, salt, failedAttempts: 0, lockedUntil: null, lockouts: 0, resetRequestedAt: null });
+}
+
+// Wrong PINs and wrong answers to the math questions share one count, so
+// switching between them doesn't buy extra tries.
+function recordFailedAttempt(state: ParentGateState, now: number): PinCheckResult {
+  const failedAttempts = state.failedAttempts + 1;
+  if (failedAttempts < MAX_FAILED_ATTEMPTS) {
+    saveGateState({ ...state, failedAttempts, lockedUntil: null });
+    return 'wrong';
+  }
+  saveGateState({ ...state, failedAttempts: 0, lockedUntil: now + getLockoutDuration(state.lockouts), lockouts: state.lockouts + 1 });
+  return 'locked';
+}
+
+// The right PIN also calls off a pending reset: whoever asked for it was either
+// the parent, who has remembered it, or someone who shouldn't have.
+export async function verifyPin(pin: string, now: number = Date.now()): Promise<PinCheckResult> {
+  const state = loadGateState();
+  if (getLockoutRemainingMs(state, now) > 0) return 'locked';
+  if (!state.pinHash || !state.salt) return 'wrong';
+
+  if (await hashPin(pin, state.salt) === state.pinHash) {
+    saveGateState({ ...state, failedAttempts: 0, lockedUntil: null, lockouts: 0, resetRequestedAt: null });
+    return 'ok';
+  }
+  return recordFailedAttempt(state, now);
+}
+
+export function checkMathAnswer(challenge: MathChallenge, answer: number, now: number = Date.now()): PinCheckResult {
+  const state = loadGateState();
+  if (getLockoutRemainingMs(state, now) > 0) return 'locked';
+  if (answer !== challenge.answer) return recordFailedAttempt(state, now);
+  saveGateState({ ...state, failedAttempts: 0, lockedUntil: null, lockouts: 0 });
+  return 'ok';
+}
+
+export function requestPinReset(now: number = Date.now()) {
+  saveGateState({ ...loadGateState(), resetRequestedAt: now });
+}
+
+export function cancelPinReset() {
+  saveGateState({ ...loadGateState(), resetRequestedAt: null });
+}
+
+// Null when no reset has been asked for; 0 once the wait is over.
+export function getResetRemainingMs(state: ParentGateState, now: number = Date.now()): number | null {
+  if (state.resetRequestedAt === null) return null;
+  return Math.max(0, state.resetRequestedAt + RESET_DELAY_MS - now);
+}
+
+// Only clears the PIN once a reset has been asked for and its wait is over.
+export function clearPin(now: number = Date.now()): boolean {
+  const state = loadGateState();
+  if (getResetRemainingMs(state, now) !== 0) return false;
+  saveGateState({ ...state, pinHash: null, salt: null, failedAttempts: 0, lockedUntil: null, lockouts: 0, resetRequestedAt: null });
+  return true;
+}
+
+export function setMathFallbackEnabled(enabled: boolean) {
+  saveGateState({ ...loadGateState(), mathFallbackEnabled: enabled });
+}
+
+export interface MathChallenge {
+  question: string;
+  answer: number;
+}
+
+// A multiplication most adults can do in their head but young children can't.
+// The harder variant guards resetting the PIN.
+export function createMathChallenge(hard: boolean = false, random: () => number = Math.random): MathChallenge {
+  const pick = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const a = hard ? pick(13, 29) : pick(12, 19);
+  const b = hard ? pick(13, 29) : pick(6, 9);
+  return { question: `What is ${a} × ${b}?`, answer: a * b };
+}
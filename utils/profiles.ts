@@ -0,0 +1,90 @@
+import { ChildProfile } from '../types';
+import { getItem, setItem, removeItem } from './storage';
+
+export const PROFILES_KEY = 'askie-kids-profiles';
+
+export const PROFILE_AVATARS = ['🦁', '🐼', '🦊', '🐸', '🐙', '🦄', '🐢', '🚀', '🌈', '⚽'];
+
+interface ProfilesStore {
+  activeProfileId: string | null;
+  profiles: ChildProfile[];
+}
+
+function readStore(): ProfilesStore {
+  return getItem<ProfilesStore>(PROFILES_KEY) ?? { activeProfileId: null, profiles: [] };
+}
+
+function writeStore(store: ProfilesStore) {
+  setItem(PROFILES_KEY, store);
+}
+
+export function loadProfiles(): ChildProfile[] {
+  return readStore().profiles;
+}
+
+export function getActiveProfileId(): string | null {
+  return readStore().activeProfileId;
+}
+
+export function getActiveProfile(): ChildProfile | null {
+  const store = readStore();
+  return store.profiles.find(p => p.id === store.activeProfileId) ?? null;
+}
+
+export function setActiveProfile(profileId: string) {
+  const store = readStore();
+  if (store.profiles.some(p => p.id === profileId)) writeStore({ ...store, activeProfileId: profileId });
+}
+
+// Storage key for data that belongs to the active child, e.g. "askie-kids-history:p-123".
+export function profileKey(baseKey: string, profileId: string | null = getActiveProfileId()): string {
+  return profileId ? `${baseKey}:${profileId}` : baseKey;
+}
+
+export function getProfileAge(profile: ChildProfile, now: Date = new Date()): number | null {
+  return profile.birthYear ? now.getFullYear() - profile.birthYear : null;
+}
+
+export function createProfile(details: Omit<ChildProfile, 'id' | 'createdAt'>): ChildProfile {
+  const profile: ChildProfile = { ...details, id: `p-${Date.now()}`, createdAt: Date.now() };
+  const store = readStore();
+  writeStore({ activeProfileId: store.activeProfileId ?? profile.id, profiles: [...store.profiles, profile] });
+  return profile;
+}
+
+export function updateProfile(profileId: string, changes: Partial<Omit<ChildProfile, 'id' | 'createdAt'>>) {
+  const store = readStore();
+  writeStore({ ...store, profiles: store.profiles.map(p => p.id === profileId ? { ...p, ...changes } : p) });
+}
+
+// Removes a profile and everything stored under its scoped keys. The last
+// remaining profile can't be deleted.
+export function deleteProfile(profileId: string, scopedKeys: string[]) {
+  const store = readStore();
+  if (store.profiles.length <= 1) return;
+  const profiles = store.profiles.filter(p => p.id !== profileId);
+  writeStore({ activeProfileId: store.activeProfileId === profileId ? profiles[0].id : store.activeProfileId, profiles });
+  scopedKeys.forEach(key => removeItem(profileKey(key, profileId)));
+}
+
+// On first run, creates a default profile and moves the data that used to live
+// under the global keys into it, so nothing a family already has is lost.
+export function ensureProfiles(scopedKeys: string[], defaultBuddyId: string): ChildProfile {
+  const existing = getActiveProfile();
+  if (existing) return existing;
+
+  const store = readStore();
+  if (store.profiles.length > 0) {
+    writeStore({ ...store, activeProfileId: store.profiles[0].id });
+    return store.profiles[0];
+  }
+
+  const profile = createProfile({ name: 'Champion', avatar: PROFILE_AVATARS[0], buddyId: defaultBuddyId });
+  for (const key of scopedKeys) {
+    const legacyValue = getItem(key);
+    if (legacyValue === null) continue;
+    setItem(profileKey(key, profile.id), legacyValue);
+    removeItem(key);
+  }
+  return profile;
+}
@@ -0,0 +1,111 @@
+import { ProgressState } from '../types';
+import { profileKey } from './profiles';
+import { getItem, setItem } from './storage';
+
+export const PROGRESS_KEY = 'askie-kids-progress';
+
+export type ProgressEvent =
+  | { type: 'session'; messages: number; resumed?: boolean } // A resumed session only earns XP for its new messages
+  | { type: 'story' }
+  | { type: 'challenge' };
+
+export const XP_REWARDS = {
+  session: 20,
+  message: 2,
+  story: 30,
+  challenge: 50,
+};
+
+// Total XP needed to reach each level. Level 1 starts at 0 XP.
+export const LEVEL_THRESHOLDS = [0, 100, 250, 400, 600, 850, 1150, 1500, 1900, 2400, 3000];
+
+export const INITIAL_PROGRESS: ProgressState = {
+  xp: 0,
+  currentStreak: 0,
+  longestStreak: 0,
+  lastActiveDay: null,
+  sessionsCompleted: 0,
+  messagesSent: 0,
+  storiesCreated: 0,
+  challengesCompleted: 0,
+};
+
+// Returns the calendar day in the device's local timezone, so a streak day
+// starts and ends at the child's midnight rather than at UTC midnight.
+export function toLocalDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Whole calendar days between two day keys. Computed in UTC so DST changes
+// (23 or 25 hour days) don't skew the result.
+export function daysBetween(fromKey: string, toKey: string): number {
+  const [fy, fm, fd] = fromKey.split('-').map(Number);
+  const [ty, tm, td] = toKey.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000);
+}
+
+export function getXpForEvent(event: ProgressEvent): number {
+  switch (event.type) {
+    case 'session': return (event.resumed ? 0 : XP_REWARDS.session) + event.messages * XP_REWARDS.message;
+    case 'story': return XP_REWARDS.story;
+    case 'challenge': return XP_REWARDS.challenge;
+  }
+}
+
+export function getLevelInfo(xp: number) {
+  let level = 1;
+  while (level < LEVEL_THRESHOLDS.length && xp >= LEVEL_THRESHOLDS[level]) level++;
+
+  const levelStartXp = LEVEL_THRESHOLDS[level - 1];
+  // Past the last threshold, every further level costs the same as the last step.
+  const lastStep = LEVEL_THRESHOLDS[LEVEL_THRESHOLDS.length - 1] - LEVEL_THRESHOLDS[LEVEL_THRESHOLDS.length - 2];
+  if (level === LEVEL_THRESHOLDS.length) {
+    const extraLevels = Math.floor((xp - levelStartXp) / lastStep);
+    const start = levelStartXp + extraLevels * lastStep;
+    return { level: level + extraLevels, xpIntoLevel: xp - start, xpForLevel: lastStep };
+  }
+  return { level, xpIntoLevel: xp - levelStartXp, xpForLevel: LEVEL_THRESHOLDS[level] - levelStartXp };
+}
+
+// The stored streak only updates when the child is active, so a streak whose
+// last day is before yesterday has already been broken.
+export function getActiveStreak(progress: ProgressState, now: Date = new Date()): number {
+  if (!progress.lastActiveDay) return 0;
+  return daysBetween(progress.lastActiveDay, toLocalDayKey(now)) <= 1 ? progress.currentStreak : 0;
+}
+
+export function applyProgressEvent(progress: ProgressState, event: ProgressEvent, now: Date = new Date()): ProgressState {
+  const today = toLocalDayKey(now);
+  let currentStreak = progress.currentStreak;
+  if (!progress.lastActiveDay) {
+    currentStreak = 1;
+  } else {
+    const gap = daysBetween(progress.lastActiveDay, today);
+    if (gap === 1) currentStreak += 1;
+    else if (gap > 1 || gap < 0) currentStreak = 1; // A clock moved backwards also restarts the streak
+  }
+
+  return {
+    ...progress,
+    xp: progress.xp + getXpForEvent(event),
+    currentStreak,
+    longestStreak: Math.max(progress.longestStreak, currentStreak),
+    lastActiveDay: today,
+    sessionsCompleted: progress.sessionsCompleted + (event.type === 'session' && !event.resumed ? 1 : 0),
+    messagesSent: progress.messagesSent + (event.type === 'session' ? event.messages : 0),
+    storiesCreated: progress.storiesCreated + (event.type === 'story' ? 1 : 0),
+    challengesCompleted: progress.challengesCompleted + (event.type === 'challenge' ? 1 : 0),
+  };
+}
+
+export function loadProgress(): ProgressState {
+  return { ...INITIAL_PROGRESS, ...getItem<Partial<ProgressState>>(profileKey(PROGRESS_KEY)) };
+}
+
+export function recordProgress(event: ProgressEvent): ProgressState {
+  const updated = applyProgressEvent(loadProgress(), event);
+  setItem(profileKey(PROGRESS_KEY), updated);
+  return updated;
+}
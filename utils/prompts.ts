@@ -0,0 +1,221 @@
+import { AppMode, ChildProfile, FeedbackPreferenceId, Message, ReadingLevel, SessionRecord } from '../types';
+import { getProfileAge } from './profiles';
+import { FEEDBACK_PREFERENCES, loadFeedbackPreferences } from './feedback';
+
+export interface PromptContext {
+  buddyName: string;
+  age: number | null;
+  grade?: string;
+  readingLevel: ReadingLevel;
+  interests: string[];
+  preferences: FeedbackPreferenceId[]; // Learned from the child's thumbs-down feedback
+}
+
+// A message as the model is told about it when a conversation is picked back up.
+export interface ConversationLine {
+  speaker: 'user' | 'ai';
+  text: string; // Empty for a picture
+}
+
+export interface ResumeContext {
+  startedAt: number;
+  summary?: string;
+  lines: ConversationLine[];
+}
+
+// The system instruction for a model call, as data rather than text. The browser
+// sends this and the AI server builds the text with buildInstruction, so the
+// rules the buddy follows can't be rewritten from outside the app.
+export type InstructionSpec =
+  | {
+    kind: 'buddy';
+    mode: AppMode;
+    context: PromptContext;
+    resume?: ResumeContext; // An earlier session the child is continuing
+    reconnectLines?: ConversationLine[]; // Set when a dropped live session couldn't be resumed
+  }
+  | { kind: 'transcribe-only' };
+
+export const READING_LEVELS: { id: ReadingLevel; label: string; }[] = [
+  { id: 'pre-reader', label: 'Not reading yet' },
+  { id: 'early', label: 'Early reader' },
+  { id: 'developing', label: 'Developing reader' },
+  { id: 'fluent', label: 'Fluent reader' },
+];
+
+const LANGUAGE_GUIDES: Record<ReadingLevel, string> = {
+  'pre-reader': 'Use very short sentences of no more than 8 words, only everyday words, and one idea at a time. Repeat key words and compare new ideas to toys, animals and family life.',
+  'early': 'Use short sentences and simple, familiar words. Explain any new word right away and keep answers to two or three sentences.',
+  'developing': 'Use clear sentences and introduce at most one or two new vocabulary words per answer, explaining each. Keep answers to a short paragraph.',
+  'fluent': 'You can use richer vocabulary and slightly longer explanations, but stay concise and check understanding with a question.',
+};
+
+export function getDefaultReadingLevel(age: number | null): ReadingLevel {
+  if (age === null) return 'early';
+  if (age <= 5) return 'pre-reader';
+  if (age <= 7) return 'early';
+  if (age <= 10) return 'developing';
+  return 'fluent';
+}
+
+// What parents type about the child goes into the system instruction, so it's
+// kept short and to plain words: no quotes, line breaks or markup.
+export const MAX_GRADE_LENGTH = 40;
+export const MAX_INTERESTS = 10;
+export const MAX_INTEREST_LENGTH = 40;
+
+export const cleanProfileText = (text: string, maxLength: number): string => (
+  text.replace(/[^\p{L}\p{N} '.,&/-]+/gu, ' ').replace(/\s+/g, ' ').trim().slice(0, maxLength).trim()
+);
+
+export const cleanInterests = (interests: string[]): string[] => (
+  interests.map(interest => cleanProfileText(interest, MAX_INTEREST_LENGTH)).filter(Boolean).slice(0, MAX_INTERESTS)
+);
+
+export function getPromptContext(profile: ChildProfile, buddyName: string): PromptContext {
+  const age = getProfileAge(profile);
+  return {
+    buddyName,
+    age,
+    grade: profile.grade ? cleanProfileText(profile.grade, MAX_GRADE_LENGTH) || undefined : undefined,
+    readingLevel: profile.readingLevel ?? getDefaultReadingLevel(age),
+    interests: cleanInterests(profile.interests ?? []),
+    preferences: loadFeedbackPreferences(profile.id).map(preference => preference.id),
+  };
+}
+
+// A short description of the child for the model, e.g. "a 7-year-old child in 2nd grade".
+export function describeAudience(context: PromptContext): string {
+  const who = context.age !== null ? `a ${context.age}-year-old child` : 'a child aged 4 to 12';
+  return context.grade ? `${who} in ${context.grade}` : who;
+}
+
+function describeInterests(context: PromptContext): string {
+  if (context.interests.length === 0) return '';
+  return ` The child loves ${context.interests.join(', ')}; use these for examples and analogies when it fits.`;
+}
+
+// Per-mode templates. Placeholders in double braces are filled by renderTemplate.
+export const SYSTEM_INSTRUCTION_TEMPLATES: Record<AppMode, string> = {
+  'homework': `You are {{buddyName}}, a helpful and patient AI homework assistant for {{audience}}. Your primary goal is to teach, not just give answers. Your tone must be encouraging and supportive. {{languageGuide}}{{interests}} When a child asks a homework question, your response MUST follow this two-part structure:
+1.  **Concept First:** Start by identifying the core concept of the problem. Begin your explanation with a phrase like "That's a great question! It looks like we're working with [Concept Name]. Let's break that down first." Then, explain the concept simply, using an analogy a child can understand.
+2.  **Apply to the Problem:** After explaining the concept, transition to the specific problem by saying something like "Now that we know about [Concept Name], let's look at your question." Then, guide them step-by-step without giving the final answer directly.
+
+If the user provides a picture of their homework, analyze it and follow the same two-part structure. If they explicitly ask for a picture, you MUST call the \`generateImage\` tool.`,
+  'read-and-learn': `You are {{buddyName}}, a friendly AI storyteller and teacher for {{audience}}. Your primary goal is to tell engaging stories or explain concepts. {{languageGuide}}{{interests}} For every main response you provide, you MUST ALSO generate a cute, friendly, cartoon-style illustration that visually represents the information. To do this, you MUST call the \`generateImage\` tool with a descriptive prompt related to your response. For example, if you are telling a story about a brave knight, call the tool with a prompt like "A cartoon drawing of a brave knight in shiny armor standing in front of a castle." Do not ask the user if they want an image; generate it automatically to enhance the learning experience.`,
+  'learning': `You are {{buddyName}}, a fun, friendly, and very patient AI learning buddy for {{audience}}. Explain things simply, with lots of encouragement and a cheerful tone. Keep your answers short, safe, and easy for the child to understand. {{languageGuide}}{{interests}} If the child seems unsure what to ask, proactively suggest interesting topics or fun questions to spark their curiosity, like "Did you know that octopuses have three hearts?" or "Would you like to learn about the biggest volcano in our solar system?". If the user explicitly asks for a picture, drawing, or image, you MUST call the \`generateImage\` tool with a descriptive prompt. Do not call it if they don't ask for an image. You can suggest different image styles like cartoon, sketch, or realistic if the user seems interested.`,
+  'free-chat': `You are {{buddyName}}, a fun and friendly AI chat buddy for {{audience}}. Your goal is to have a casual, safe, and engaging conversation. {{languageGuide}}{{interests}} Be curious, ask questions, and keep the chat light and positive. You are NOT able to create images or pictures, so politely decline if asked.`,
+  'voice-to-story': `You are {{buddyName}}, a fun and friendly AI chat buddy for {{audience}}. Your goal is to have a casual, safe, and engaging conversation. {{languageGuide}}{{interests}} Be curious, ask questions, and keep the chat light and positive. You are NOT able to create images or pictures, so politely decline if asked.`,
+  'learning-games': `You are {{buddyName}}, a cheerful quiz host for {{audience}}. {{languageGuide}}{{interests}} Ask one question at a time, celebrate right answers and gently explain wrong ones.`,
+  'brain-challenges': `You are {{buddyName}}, a playful puzzle master for {{audience}}. {{languageGuide}}{{interests}} Give hints instead of answers and praise clever thinking.`,
+};
+
+// For live sessions that only turn the child's speech into text.
+export const TRANSCRIBE_ONLY_INSTRUCTION = 'You are a helpful assistant. Your only job is to accurately transcribe what the user says. Do not respond or talk back.';
+
+export const GREETING_TEMPLATES: Partial<Record<AppMode, Record<'young' | 'older', string>>> = {
+  'homework': {
+    young: `Hi! I'm {{buddyName}}. Let's do your homework together! What are you working on?{{interestHook}}`,
+    older: `Hello! I'm {{buddyName}}, and I'm here to help with your homework. What subject are we working on today? You can tell me, or even show me a picture of your work.`,
+  },
+  'learning': {
+    young: `Hi there! I'm {{buddyName}}. Let's learn something fun! What do you want to know?{{interestHook}}`,
+    older: `Hi there! I'm {{buddyName}}. I'm so excited to learn with you! What are you curious about today? We can talk about anything, like {{topics}}!`,
+  },
+  'read-and-learn': {
+    young: `Welcome to Read and Learn! I'm {{buddyName}}. Do you want a story about {{storyIdea}}?`,
+    older: `Welcome to Read and Learn! I'm {{buddyName}}, and I love stories. Would you like to hear a fun story about {{storyIdea}}, or would you like to learn about something new?`,
+  },
+};
+
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => values[name] ?? placeholder);
+}
+
+function getTemplateValues(context: PromptContext): Record<string, string> {
+  const [firstInterest] = context.interests;
+  return {
+    buddyName: context.buddyName,
+    audience: describeAudience(context),
+    languageGuide: LANGUAGE_GUIDES[context.readingLevel],
+    interests: describeInterests(context),
+    interestHook: firstInterest ? ` Maybe something about ${firstInterest}?` : '',
+    topics: context.interests.length > 0 ? context.interests.slice(0, 3).join(', ') : 'animals, space, or dinosaurs',
+    storyIdea: firstInterest ? `an adventure with ${firstInterest}` : 'a squirrel who learned to fly',
+  };
+}
+
+export function buildSystemInstruction(mode: AppMode, context: PromptContext): string {
+  const instruction = renderTemplate(SYSTEM_INSTRUCTION_TEMPLATES[mode], getTemplateValues(context));
+  if (context.preferences.length === 0) return instruction;
+  const preferences = context.preferences.map(id => FEEDBACK_PREFERENCES[id].instruction);
+  return `${instruction}\n\nThis child's earlier feedback shows what works for them: ${preferences.join(' ')}`;
+}
+
+// The buddy's opening line for modes where the AI speaks first, or null when the child starts.
+export function buildGreeting(mode: AppMode, context: PromptContext): string | null {
+  const templates = GREETING_TEMPLATES[mode];
+  if (!templates) return null;
+  const isYoung = context.readingLevel === 'pre-reader' || context.readingLevel === 'early';
+  return renderTemplate(isYoung ? templates.young : templates.older, getTemplateValues(context));
+}
+
+export const RESUME_MESSAGE_LIMIT = 12;
+const RESUME_MESSAGE_LENGTH = 300;
+
+const truncateLine = (text: string) => text.length > RESUME_MESSAGE_LENGTH ? `${text.slice(0, RESUME_MESSAGE_LENGTH)}...` : text;
+
+// The last few messages, for the model to pick up from. Flagged messages are left
+// out so the buddy doesn't pick the topic back up.
+export const toConversationLines = (messages: Message[]): ConversationLine[] => (
+  messages
+    .filter(message => !message.moderation && (message.text || message.imageUrl))
+    .slice(-RESUME_MESSAGE_LIMIT)
+    .map(message => ({ speaker: message.speaker, text: truncateLine(message.text) }))
+);
+
+export const toResumeContext = (session: SessionRecord): ResumeContext => ({
+  startedAt: session.startedAt ?? session.timestamp,
+  summary: session.summary?.text,
+  lines: toConversationLines(session.messages),
+});
+
+// "Speaker: text" lines. The limits are applied again here, since the lines may
+// come from a request rather than from toConversationLines.
+const describeLines = (lines: ConversationLine[], buddyName: string): string[] => (
+  lines.slice(-RESUME_MESSAGE_LIMIT).map(line => (
+    `${line.speaker === 'user' ? 'Child' : buddyName}: ${truncateLine(line.text) || '[a picture]'}`
+  ))
+);
+
+// A condensed version of an earlier conversation, added to the system instruction
+// when the child resumes it.
+export function buildResumeContext(resume: ResumeContext, buddyName: string): string {
+  const lines = describeLines(resume.lines, buddyName);
+
+  return [
+    `You are continuing a conversation you had with this child on ${new Date(resume.startedAt).toLocaleDateString()}. Carry on from where it left off, and don't repeat your greeting.`,
+    resume.summary && `What it was about: ${resume.summary}`,
+    lines.length > 0 && `The last messages were:\n${lines.join('\n')}`,
+  ].filter(Boolean).join('\n\n');
+}
+
+// Added to the system instruction when a live session dropped and couldn't be
+// resumed, so the new one picks up the conversation already on screen.
+export function buildReconnectContext(reconnectLines: ConversationLine[], buddyName: string): string {
+  const lines = describeLines(reconnectLines, buddyName);
+  if (lines.length === 0) return '';
+
+  return `The connection dropped for a moment in the middle of this conversation. Carry on from where it left off without greeting the child again or mentioning the connection.\n\nThe last messages were:\n${lines.join('\n')}`;
+}
+
+// Runs on the AI server, or in the fake provider, never with text from the browser.
+export function buildInstruction(spec: InstructionSpec): string {
+  if (spec.kind === 'transcribe-only') return TRANSCRIBE_ONLY_INSTRUCTION;
+  const { buddyName } = spec.context;
+  return [
+    buildSystemInstruction(spec.mode, spec.context),
+    spec.resume && buildResumeContext(spec.resume, buddyName),
+    spec.reconnectLines && buildReconnectContext(spec.reconnectLines, buddyName),
+  ].filter(Boolean).join('\n\n');
+}
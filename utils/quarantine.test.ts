@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { QuarantinedRecord } from '../types';
+import { INLINE_DATA_PLACEHOLDER, MAX_QUARANTINE_AGE_MS, MAX_QUARANTINED_RECORDS, limitQuarantine, stripInlineData } from './quarantine';
+
+const NOW = 1700000000000;
+
+const quarantined = (id: number, ageMs: number): QuarantinedRecord => ({
+  id: String(id),
+  storageKey: 'askie-kids-history:profile-1',
+  reason: 'session has no id',
+  record: { id },
+  quarantinedAt: NOW - ageMs,
+});
+
+describe('stripInlineData', () => {
+  it('replaces data URLs at any depth', () => {
+    const record = {
+      id: 1,
+      messages: [
+        { text: 'My drawing', imageUrl: 'data:image/png;base64,iVBORw0KGgo=' },
+        { text: 'A photo', imageUrl: 'data:image/jpeg;base64,/9j/4AAQ' },
+      ],
+      extra: ['data:audio/wav;base64,UklGRg==', 'askie-blob:abc'],
+    };
+    expect(stripInlineData(record)).toEqual({
+      id: 1,
+      messages: [
+        { text: 'My drawing', imageUrl: INLINE_DATA_PLACEHOLDER },
+        { text: 'A photo', imageUrl: INLINE_DATA_PLACEHOLDER },
+      ],
+      extra: [INLINE_DATA_PLACEHOLDER, 'askie-blob:abc'],
+    });
+  });
+
+  it('leaves other values as they are', () => {
+    expect(stripInlineData('data: not a URL')).toBe('data: not a URL');
+    expect(stripInlineData(42)).toBe(42);
+    expect(stripInlineData(null)).toBeNull();
+    expect(stripInlineData({ ok: true })).toEqual({ ok: true });
+  });
+});
+
+describe('limitQuarantine', () => {
+  it('drops records older than the maximum age', () => {
+    const kept = limitQuarantine([quarantined(1, 0), quarantined(2, MAX_QUARANTINE_AGE_MS), quarantined(3, MAX_QUARANTINE_AGE_MS - 1)], NOW);
+    expect(kept.map(record => record.id)).toEqual(['1', '3']);
+  });
+
+  it('keeps only the newest records', () => {
+    const records = Array.from({ length: MAX_QUARANTINED_RECORDS + 10 }, (_, i) => quarantined(i, i * 1000));
+    const kept = limitQuarantine([...records].reverse(), NOW);
+
+    expect(kept).toHaveLength(MAX_QUARANTINED_RECORDS);
+    expect(kept[0].id).toBe('0');
+    expect(kept[kept.length - 1].id).toBe(String(MAX_QUARANTINED_RECORDS - 1));
+  });
+});
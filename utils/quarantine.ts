@@ -0,0 +1,56 @@
+import { QuarantinedRecord } from '../types';
+import { CorruptRecord } from './schema';
+import { getItem, setItem } from './storage';
+
+// Records that failed validation are moved here instead of being thrown away,
+// so the rest of the data keeps working and the parent can still download them.
+export const QUARANTINE_KEY = 'askie-kids-quarantine';
+
+// Quarantine lives with the small records that are loaded at startup, so it's
+// kept short: only the newest records, for a month, without their pictures.
+export const MAX_QUARANTINED_RECORDS = 50;
+export const MAX_QUARANTINE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+export const INLINE_DATA_PLACEHOLDER = '[inline data removed]';
+
+const INLINE_DATA_PATTERN = /^data:[^,]*;base64,/;
+
+// Swaps data URLs anywhere in a record for a placeholder. A single picture can
+// be larger than everything else put together.
+export function stripInlineData(value: unknown): unknown {
+  if (typeof value === 'string') return INLINE_DATA_PATTERN.test(value) ? INLINE_DATA_PLACEHOLDER : value;
+  if (Array.isArray(value)) return value.map(stripInlineData);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, stripInlineData(field)]));
+  }
+  return value;
+}
+
+// Drops records older than a month, then all but the newest.
+export function limitQuarantine(records: QuarantinedRecord[], now: number = Date.now()): QuarantinedRecord[] {
+  return records
+    .filter(record => now - record.quarantinedAt < MAX_QUARANTINE_AGE_MS)
+    .sort((a, b) => b.quarantinedAt - a.quarantinedAt)
+    .slice(0, MAX_QUARANTINED_RECORDS);
+}
+
+export function loadQuarantine(): QuarantinedRecord[] {
+  const records = getItem<QuarantinedRecord[]>(QUARANTINE_KEY);
+  return Array.isArray(records) ? records : [];
+}
+
+export function quarantineRecords(storageKey: string, corrupt: CorruptRecord[]) {
+  if (corrupt.length === 0) return;
+  const now = Date.now();
+  const added: QuarantinedRecord[] = corrupt.map(({ record, reason }, i) => ({
+    id: `${now}-${i}`,
+    storageKey,
+    reason,
+    record: stripInlineData(record),
+    quarantinedAt: now,
+  }));
+  setItem(QUARANTINE_KEY, limitQuarantine([...added, ...loadQuarantine()], now));
+}
+
+export function discardQuarantined(ids: string[]) {
+  setItem(QUARANTINE_KEY, loadQuarantine().filter(record => !ids.includes(record.id)));
+}
@@ -0,0 +1,99 @@
+import { Type } from '@google/genai';
+import { QuizQuestion } from '../types';
+
+export const QUESTIONS_PER_GAME = 5;
+export const SECONDS_PER_QUESTION = 20;
+export const QUIZ_TOPICS = ['Animals', 'Space', 'Numbers', 'Words', 'Nature', 'Dinosaurs'];
+
+export const QUIZ_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ['multiple-choice', 'true-false'] },
+          question: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING } },
+          correctIndex: { type: Type.INTEGER },
+          explanation: { type: Type.STRING },
+        },
+        required: ['type', 'question', 'options', 'correctIndex', 'explanation'],
+      },
+    },
+  },
+  required: ['title', 'questions'],
+};
+
+export function buildQuizPrompt(topic: string, audience: string, count: number = QUESTIONS_PER_GAME): string {
+  return `You are a quiz host for a fun learning game for ${audience}. Create a quiz with ${count} questions about "${topic}". Mix "multiple-choice" questions (exactly 3 short options) and "true-false" questions (options exactly ["True", "False"]). Questions must be short, clear, positive and easy to read aloud. "correctIndex" is the zero-based index of the correct option. The "explanation" is one cheerful sentence that teaches the child why the answer is right. Also create a fun title for the quiz.`;
+}
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => !!value && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function parseQuestion(value: unknown): QuizQuestion | null {
+  if (!isObject(value)) return null;
+  const { type, question, options, correctIndex, explanation } = value;
+  const isTrueFalse = type === 'true-false';
+  const choices = isTrueFalse ? ['True', 'False'] : options;
+  if (!isString(question) || !question || !Array.isArray(choices) || choices.length < 2 || !choices.every(isString)) return null;
+  if (typeof correctIndex !== 'number' || !Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= choices.length) return null;
+  return {
+    type: isTrueFalse ? 'true-false' : 'multiple-choice',
+    question,
+    options: choices,
+    correctIndex,
+    explanation: isString(explanation) ? explanation : '',
+  };
+}
+
+// Drops malformed questions and normalises true/false options so the UI and
+// the spoken-answer matcher can rely on their shape.
+export function parseQuiz(json: string): { title: string; questions: QuizQuestion[] } {
+  const data: unknown = JSON.parse(json);
+  if (!isObject(data)) return { title: 'Quiz Time!', questions: [] };
+  const questions = (Array.isArray(data.questions) ? data.questions : [])
+    .map(parseQuestion)
+    .filter((question): question is QuizQuestion => question !== null);
+  return { title: isString(data.title) && data.title ? data.title : 'Quiz Time!', questions };
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const ORDINALS = ['first', 'second', 'third', 'fourth'];
+const LETTERS = ['a', 'b', 'c', 'd'];
+
+// Maps a child's spoken answer onto an option index. Accepts the option text
+// itself, a letter ("B", "answer b"), an ordinal ("the second one") and, for
+// true/false questions, yes/no. Returns null when the answer is ambiguous.
+export function matchSpokenAnswer(transcript: string, question: QuizQuestion): number | null {
+  const spoken = normalize(transcript);
+  if (!spoken) return null;
+  const words = spoken.split(' ');
+
+  if (question.type === 'true-false') {
+    const saysTrue = words.some(w => w === 'true' || w === 'yes' || w === 'right');
+    const saysFalse = words.some(w => w === 'false' || w === 'no' || w === 'wrong');
+    if (saysTrue !== saysFalse) return saysTrue ? 0 : 1;
+  }
+
+  const textMatches = question.options
+    .map((option, index) => ({ index, option: normalize(option) }))
+    .filter(({ option }) => option && ` ${spoken} `.includes(` ${option} `));
+  if (textMatches.length === 1) return textMatches[0].index;
+
+  const ordinalMatches = ORDINALS.slice(0, question.options.length).map((o, i) => words.includes(o) ? i : -1).filter(i => i >= 0);
+  if (ordinalMatches.length === 1) return ordinalMatches[0];
+
+  const letterMatch = spoken.match(/^(?:(?:answer|letter|option)\s)?([a-d])$/) ?? spoken.match(/\b(?:answer|letter|option)\s([a-d])\b/);
+  if (letterMatch) {
+    const index = LETTERS.indexOf(letterMatch[1]);
+    if (index < question.options.length) return index;
+  }
+  return null;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { Settings } from '../types';
+import {
+  HISTORY_MIGRATIONS, HISTORY_VERSION, Migration, getEnvelopeVersion, migrateEnvelope, parseStoredHistory, parseStoredSettings, wrapEnvelope,
+} from './schema';
+
+const message = (id: number, extra: object = {}) => ({ id, speaker: 'user', text: `Message ${id}`, ...extra });
+const session = (id: number, extra: object = {}) => ({ id, mode: 'free-chat', timestamp: 1700000000000 + id, messages: [message(1)], ...extra });
+
+const DEFAULT_SETTINGS: Settings = {
+  learningMode: 'voice',
+  historyLimit: 20,
+  reexplainOnDislike: true,
+  talkMode: 'auto',
+  vadSensitivity: 'medium',
+  pauseMs: 800,
+};
+
+describe('migrateEnvelope', () => {
+  const appendStep = (version: number): Migration => ({
+    version,
+    description: `Step ${version}`,
+    migrate: (data) => [...(data as number[]), version],
+  });
+
+  it('runs the migrations after the stored version in order, however they are listed', () => {
+    expect(migrateEnvelope(wrapEnvelope([1], 1), [appendStep(3), appendStep(2), appendStep(4)])).toEqual({ version: 4, data: [1, 2, 3, 4] });
+  });
+
+  it('treats data without an envelope as version 0', () => {
+    expect(migrateEnvelope([], [appendStep(1), appendStep(2)])).toEqual({ version: 2, data: [1, 2] });
+  });
+
+  it('leaves data from a newer version alone', () => {
+    expect(migrateEnvelope(wrapEnvelope(['future'], 9), [appendStep(1), appendStep(2)])).toEqual({ version: 9, data: ['future'] });
+  });
+});
+
+describe('getEnvelopeVersion', () => {
+  it('reads the version of an envelope, and 0 for anything else', () => {
+    expect(getEnvelopeVersion(wrapEnvelope([], 3))).toBe(3);
+    expect(getEnvelopeVersion([])).toBe(0);
+    expect(getEnvelopeVersion(null)).toBe(0);
+  });
+});
+
+describe('parseStoredHistory', () => {
+  it('has nothing to do when there is no history yet', () => {
+    expect(parseStoredHistory(null)).toEqual({ sessions: [], corrupt: [], needsRewrite: false, fromNewerVersion: false });
+  });
+
+  it('migrates a version 0 history and drops its image placeholders', () => {
+    const stored = [session(1, { messages: [message(1, { isGeneratingImage: true }), message(2)] })];
+    const { sessions, corrupt, needsRewrite } = parseStoredHistory(stored);
+
+    expect(sessions).toEqual([session(1, { messages: [message(1), message(2)] })]);
+    expect(corrupt).toEqual([]);
+    expect(needsRewrite).toBe(true);
+  });
+
+  it('runs every history migration for a version 0 history', () => {
+    expect(migrateEnvelope([], HISTORY_MIGRATIONS).version).toBe(HISTORY_VERSION);
+  });
+
+  it('has nothing to do for a current, valid history', () => {
+    const { sessions, needsRewrite } = parseStoredHistory(wrapEnvelope([session(1), session(2)], HISTORY_VERSION));
+
+    expect(sessions).toHaveLength(2);
+    expect(needsRewrite).toBe(false);
+  });
+
+  it('sets unreadable sessions aside and keeps the rest', () => {
+    const stored = wrapEnvelope([session(1), session(2, { mode: 'karaoke' }), 'not a session'], HISTORY_VERSION);
+    const { sessions, corrupt, needsRewrite } = parseStoredHistory(stored);
+
+    expect(sessions.map(s => s.id)).toEqual([1]);
+    expect(corrupt.map(c => c.reason)).toEqual(['session has an unknown mode "karaoke"', 'session is not an object']);
+    expect(needsRewrite).toBe(true);
+  });
+
+  it('sets aside a history that is not a list', () => {
+    const { sessions, corrupt, needsRewrite } = parseStoredHistory(wrapEnvelope({ sessions: [] }, HISTORY_VERSION));
+
+    expect(sessions).toEqual([]);
+    expect(corrupt).toHaveLength(1);
+    expect(needsRewrite).toBe(true);
+  });
+
+  it('reads a newer history without quarantining or rewriting it', () => {
+    const stored = wrapEnvelope([session(1), session(2, { mode: 'karaoke' })], HISTORY_VERSION + 1);
+    const { sessions, corrupt, needsRewrite, fromNewerVersion } = parseStoredHistory(stored);
+
+    expect(sessions.map(s => s.id)).toEqual([1]);
+    expect(corrupt).toEqual([]);
+    expect(needsRewrite).toBe(false);
+    expect(fromNewerVersion).toBe(true);
+  });
+});
+
+describe('parseStoredSettings', () => {
+  const parse = (value: unknown) => parseStoredSettings(value, DEFAULT_SETTINGS, [10, 20, 50], [500, 800, 1200]);
+
+  it('drops the buddy from version 0 settings and keeps the rest', () => {
+    const { settings, corrupt } = parse({ selectedBuddyId: 'owl', learningMode: 'text', historyLimit: 50 });
+
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, learningMode: 'text', historyLimit: 50 });
+    expect(settings).not.toHaveProperty('selectedBuddyId');
+    expect(corrupt).toBeNull();
+  });
+
+  it('falls back to the default for each value it does not recognise', () => {
+    const { settings } = parse(wrapEnvelope({ historyLimit: 7, vadSensitivity: 'extreme', pauseMs: 1200 }, 1));
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, pauseMs: 1200 });
+  });
+
+  it('reports settings that are not an object', () => {
+    const { settings, corrupt } = parse(wrapEnvelope('loud', 1));
+
+    expect(settings).toEqual(DEFAULT_SETTINGS);
+    expect(corrupt?.reason).toBe('settings are not an object');
+  });
+});
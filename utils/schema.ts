@@ -0,0 +1,217 @@
+import { AppMode, Message, SessionRecord, Settings, VadSensitivity } from '../types';
+
+// Everything the app persists for history and settings is wrapped in a
+// versioned envelope. Data saved before envelopes existed is treated as
+// version 0, and is brought up to date by running the migrations after its
+// version in order. Records are then checked against the current shape, so a
+// field added to `Message` or `SessionRecord` can't silently break old data.
+
+export interface Envelope<T> {
+  version: number;
+  data: T;
+}
+
+// Stored data can be anything by the time it's read back, so each migration
+// checks for the shape it expects and leaves anything else for validation.
+export interface Migration {
+  version: number; // The version this migration produces
+  description: string;
+  migrate: (data: unknown) => unknown;
+}
+
+export const isEnvelope = (value: unknown): value is Envelope<unknown> => (
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && Number.isInteger((value as Envelope<unknown>).version) && 'data' in value
+);
+
+export const wrapEnvelope = <T>(data: T, version: number): Envelope<T> => ({ version, data });
+
+export const getEnvelopeVersion = (value: unknown): number => isEnvelope(value) ? value.version : 0;
+
+// Returns the data at the newest version the migrations know about. Data written
+// by a newer version of the app is returned as it is, to be validated like any other.
+export function migrateEnvelope(value: unknown, migrations: Migration[]): Envelope<unknown> {
+  let { version, data } = isEnvelope(value) ? value : { version: 0, data: value };
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= version) continue;
+    data = migration.migrate(data);
+    version = migration.version;
+  }
+  return { version, data };
+}
+
+export const APP_MODES: AppMode[] = ['homework', 'free-chat', 'learning', 'voice-to-story', 'read-and-learn', 'learning-games', 'brain-challenges'];
+const MODERATION_SOURCES = ['child', 'ai', 'image-prompt'];
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => !!value && typeof value === 'object' && !Array.isArray(value);
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isOneOf = <T>(options: readonly T[], value: unknown): value is T => options.some(option => option === value);
+
+const omit = <T extends Fields, K extends string>(value: T, key: K): Omit<T, K> => {
+  const copy: Fields = { ...value };
+  delete copy[key];
+  return copy as Omit<T, K>;
+};
+
+// Each check returns what's wrong with a value, or null if it's fine. The reason
+// is kept with quarantined records so a corrupt entry can be looked into later.
+export function getMessageProblem(value: unknown): string | null {
+  if (!isObject(value)) return 'message is not an object';
+  if (!isNumber(value.id)) return 'message has no id';
+  if (value.speaker !== 'user' && value.speaker !== 'ai') return 'message has an unknown speaker';
+  if (!isString(value.text)) return 'message has no text';
+  if (!isOptional(value.imageUrl, isString)) return 'message image is not a URL';
+  if (!isOptional(value.feedback, f => f === null || f === 'up' || f === 'down')) return 'message feedback is invalid';
+  if (!isOptional(value.moderation, m => isObject(m)
+    && (m.action === 'redirect' || m.action === 'block')
+    && isStringArray(m.categories)
+    && isOneOf(MODERATION_SOURCES, m.source)
+    && isString(m.originalText))) return 'message moderation flag is invalid';
+  return null;
+}
+
+export function getSessionProblem(value: unknown): string | null {
+  if (!isObject(value)) return 'session is not an object';
+  if (!isNumber(value.id)) return 'session has no id';
+  if (!isOneOf(APP_MODES, value.mode)) return `session has an unknown mode "${String(value.mode)}"`;
+  if (!isNumber(value.timestamp)) return 'session has no timestamp';
+  if (!isOptional(value.startedAt, isNumber) || !isOptional(value.endedAt, isNumber) || !isOptional(value.activeMinutes, isNumber)) return 'session times are invalid';
+  if (!isOptional(value.buddyId, isString)) return 'session buddy is invalid';
+  if (!Array.isArray(value.messages)) return 'session has no messages';
+  for (const message of value.messages) {
+    const problem = getMessageProblem(message);
+    if (problem) return problem;
+  }
+  if (!isOptional(value.attempts, a => Array.isArray(a) && a.every(attempt => isObject(attempt) && isNumber(attempt.id) && isString(attempt.question) && typeof attempt.correct === 'boolean'))) {
+    return 'session brain challenge attempts are invalid';
+  }
+  if (!isOptional(value.summary, s => isObject(s) && isString(s.text) && isStringArray(s.tags) && isStringArray(s.notableMoments) && isNumber(s.generatedAt))) {
+    return 'session summary is invalid';
+  }
+  if (!isOptional(value.summaryStatus, s => s === 'pending' || s === 'failed')) return 'session summary status is invalid';
+  return null;
+}
+
+export const isMessage = (value: unknown): value is Message => getMessageProblem(value) === null;
+export const isSessionRecord = (value: unknown): value is SessionRecord => getSessionProblem(value) === null;
+
+export const HISTORY_VERSION = 1;
+
+// History as each version saved it, as far as the migrations need to know.
+// Version 0 is the bare list of sessions saved before envelopes.
+export interface MessageV0 extends Fields {
+  isGeneratingImage?: boolean; // Set while a picture was being drawn
+}
+export interface SessionV0 extends Fields {
+  messages: unknown[];
+}
+export type MessageV1 = Omit<MessageV0, 'isGeneratingImage'>;
+export interface SessionV1 extends Fields {
+  messages: unknown[];
+}
+
+const isSessionV0 = (value: unknown): value is SessionV0 => isObject(value) && Array.isArray(value.messages);
+const isMessageV0 = (value: unknown): value is MessageV0 => isObject(value);
+
+const dropImagePlaceholders = (session: SessionV0): SessionV1 => ({
+  ...session,
+  messages: session.messages.map(message => isMessageV0(message) ? omit(message, 'isGeneratingImage') satisfies MessageV1 : message),
+});
+
+export const HISTORY_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Drop image placeholders left behind when a session closed mid-generation',
+    migrate: (sessions) => Array.isArray(sessions)
+      ? sessions.map(session => isSessionV0(session) ? dropImagePlaceholders(session) : session)
+      : sessions,
+  },
+];
+
+export interface CorruptRecord {
+  record: unknown;
+  reason: string;
+}
+
+export interface StoredHistory {
+  sessions: SessionRecord[];
+  corrupt: CorruptRecord[];
+  needsRewrite: boolean;
+  fromNewerVersion: boolean;
+}
+
+// Splits stored history into the sessions that can be used and the ones that
+// can't, so one bad entry doesn't cost the parent the rest of the history.
+// History saved by a newer version of the app is read as far as this version
+// understands it, but is never marked for rewriting: what looks wrong here may
+// be fine there.
+export function parseStoredHistory(value: unknown): StoredHistory {
+  if (value === null || value === undefined) return { sessions: [], corrupt: [], needsRewrite: false, fromNewerVersion: false };
+
+  const { version, data } = migrateEnvelope(value, HISTORY_MIGRATIONS);
+  const fromNewerVersion = version > HISTORY_VERSION;
+  if (!Array.isArray(data)) {
+    const corrupt = [{ record: data, reason: 'history is not a list of sessions' }];
+    return fromNewerVersion
+      ? { sessions: [], corrupt: [], needsRewrite: false, fromNewerVersion }
+      : { sessions: [], corrupt, needsRewrite: true, fromNewerVersion };
+  }
+
+  const sessions: SessionRecord[] = [];
+  const corrupt: CorruptRecord[] = [];
+  for (const record of data) {
+    const problem = getSessionProblem(record);
+    if (problem) corrupt.push({ record, reason: problem });
+    else sessions.push(record);
+  }
+  if (fromNewerVersion) return { sessions, corrupt: [], needsRewrite: false, fromNewerVersion };
+  const wasMigrated = getEnvelopeVersion(value) < version;
+  return { sessions, corrupt, needsRewrite: wasMigrated || corrupt.length > 0, fromNewerVersion };
+}
+
+export const SETTINGS_VERSION = 1;
+
+const VAD_SENSITIVITIES: VadSensitivity[] = ['low', 'medium', 'high'];
+
+// Settings before profiles kept the chosen buddy; it now lives on the profile.
+export interface SettingsV0 extends Fields {
+  selectedBuddyId?: string;
+}
+export type SettingsV1 = Omit<SettingsV0, 'selectedBuddyId'>;
+
+const isSettingsV0 = (value: unknown): value is SettingsV0 => isObject(value);
+
+export const SETTINGS_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'The buddy moved from settings onto the child profile',
+    migrate: (settings) => isSettingsV0(settings) ? omit(settings, 'selectedBuddyId') satisfies SettingsV1 : settings,
+  },
+];
+
+// Unknown or missing settings fall back to their defaults one by one; only a
+// value that isn't a settings object at all counts as corrupt.
+export function parseStoredSettings(value: unknown, defaults: Settings, historyLimitOptions: number[], pauseLengthOptions: number[]): { settings: Settings; corrupt: CorruptRecord | null } {
+  if (value === null || value === undefined) return { settings: defaults, corrupt: null };
+
+  const { data } = migrateEnvelope(value, SETTINGS_MIGRATIONS);
+  if (!isObject(data)) {
+    return { settings: defaults, corrupt: { record: data, reason: 'settings are not an object' } };
+  }
+  return {
+    settings: {
+      learningMode: data.learningMode === 'text' || data.learningMode === 'voice' ? data.learningMode : defaults.learningMode,
+      historyLimit: isOneOf(historyLimitOptions, data.historyLimit) ? data.historyLimit : defaults.historyLimit,
+      reexplainOnDislike: typeof data.reexplainOnDislike === 'boolean' ? data.reexplainOnDislike : defaults.reexplainOnDislike,
+      talkMode: data.talkMode === 'auto' || data.talkMode === 'hold' ? data.talkMode : defaults.talkMode,
+      vadSensitivity: isOneOf(VAD_SENSITIVITIES, data.vadSensitivity) ? data.vadSensitivity : defaults.vadSensitivity,
+      pauseMs: isOneOf(pauseLengthOptions, data.pauseMs) ? data.pauseMs : defaults.pauseMs,
+    },
+    corrupt: null,
+  };
+}
@@ -0,0 +1,140 @@
+import { AppMode, ScreenTimeRules, ScreenTimeUsage, TimeWindow } from '../types';
+import { profileKey } from './profiles';
+import { toLocalDayKey } from './progress';
+import { getItem, setItem } from './storage';
+
+export const SCREEN_TIME_KEY = 'askie-kids-screen-time';
+export const USAGE_KEY = 'askie-kids-usage';
+
+export const WIND_DOWN_MINUTES = 5;
+export const MINUTE_LIMIT_OPTIONS = [15, 30, 45, 60, 90, 120, 180];
+
+export type ScreenTimeBlockReason = 'daily-limit' | 'mode-limit' | 'outside-hours';
+
+export interface ScreenTimeStatus {
+  allowed: boolean;
+  reason: ScreenTimeBlockReason | null;
+  minutesLeft: number | null; // null when nothing limits the current session
+  nextAllowedAt: Date | null; // When a blocked mode can be used again
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isValidTime = (time: string) => TIME_PATTERN.test(time);
+
+const parseTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const minuteOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+
+// Windows are start-inclusive and end-exclusive. A window whose end is before its
+// start runs past midnight, e.g. 20:00–07:00.
+export function isWithinWindow(date: Date, window: TimeWindow): boolean {
+  const now = minuteOfDay(date);
+  const start = parseTime(window.start);
+  const end = parseTime(window.end);
+  if (start === end) return true;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+export function isWithinAllowedHours(date: Date, windows: TimeWindow[]): boolean {
+  return windows.length === 0 || windows.some(window => isWithinWindow(date, window));
+}
+
+// Minutes until the allowed hours end, counting from inside a window. Null if
+// there are no allowed hours set, or a window covers the whole day.
+export function getMinutesUntilWindowEnds(date: Date, windows: TimeWindow[]): number | null {
+  const now = minuteOfDay(date);
+  const remaining = windows
+    .filter(window => window.start !== window.end && isWithinWindow(date, window))
+    .map(window => (parseTime(window.end) - now + 1440) % 1440);
+  return remaining.length > 0 ? Math.max(...remaining) : null;
+}
+
+// The first moment at or after `from` that falls inside the allowed hours.
+export function getNextAllowedTime(from: Date, windows: TimeWindow[]): Date {
+  if (isWithinAllowedHours(from, windows)) return from;
+  const now = minuteOfDay(from);
+  const wait = Math.min(...windows.map(window => (parseTime(window.start) - now + 1440) % 1440));
+  const next = new Date(from.getTime() + wait * 60000);
+  next.setSeconds(0, 0);
+  return next;
+}
+
+const startOfNextDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+export function getUsedMinutes(usage: ScreenTimeUsage, mode?: AppMode): number {
+  if (mode) return usage.minutesByMode[mode] ?? 0;
+  return Object.values(usage.minutesByMode).reduce((total, minutes) => total + (minutes ?? 0), 0);
+}
+
+// Works out whether a mode can be used right now and for how much longer.
+// `usage` must already be for the day of `now`.
+export function getScreenTimeStatus(rules: ScreenTimeRules, usage: ScreenTimeUsage, mode: AppMode, now: Date = new Date()): ScreenTimeStatus {
+  if (!isWithinAllowedHours(now, rules.allowedWindows)) {
+    return { allowed: false, reason: 'outside-hours', minutesLeft: 0, nextAllowedAt: getNextAllowedTime(now, rules.allowedWindows) };
+  }
+
+  const modeLimit = rules.modeMinutes[mode];
+  const budgets: { reason: ScreenTimeBlockReason; minutesLeft: number }[] = [];
+  if (rules.dailyMinutes !== null) budgets.push({ reason: 'daily-limit', minutesLeft: rules.dailyMinutes - getUsedMinutes(usage) });
+  if (modeLimit !== undefined) budgets.push({ reason: 'mode-limit', minutesLeft: modeLimit - getUsedMinutes(usage, mode) });
+
+  const spent = budgets.find(budget => budget.minutesLeft <= 0);
+  if (spent) {
+    // Budgets reset at midnight, but the next day may not start inside the allowed hours.
+    return { allowed: false, reason: spent.reason, minutesLeft: 0, nextAllowedAt: getNextAllowedTime(startOfNextDay(now), rules.allowedWindows) };
+  }
+
+  const limits = [...budgets.map(budget => budget.minutesLeft), getMinutesUntilWindowEnds(now, rules.allowedWindows)].filter((m): m is number => m !== null);
+  return { allowed: true, reason: null, minutesLeft: limits.length > 0 ? Math.min(...limits) : null, nextAllowedAt: null };
+}
+
+export const isWindingDown = (status: ScreenTimeStatus) => status.allowed && status.minutesLeft !== null && status.minutesLeft <= WIND_DOWN_MINUTES;
+
+export function getWindDownMessage(minutesLeft: number): string {
+  const minutes = Math.max(1, Math.ceil(minutesLeft));
+  return `We only have about ${minutes} more ${minutes === 1 ? 'minute' : 'minutes'} together today, so let's start wrapping up!`;
+}
+
+export function addUsage(usage: ScreenTimeUsage, mode: AppMode, minutes: number, now: Date = new Date()): ScreenTimeUsage {
+  const day = toLocalDayKey(now);
+  const minutesByMode = usage.day === day ? usage.minutesByMode : {};
+  return { day, minutesByMode: { ...minutesByMode, [mode]: (minutesByMode[mode] ?? 0) + minutes } };
+}
+
+export function loadScreenTimeRules(): ScreenTimeRules {
+  const rules = getItem<Partial<ScreenTimeRules>>(profileKey(SCREEN_TIME_KEY));
+  return {
+    dailyMinutes: typeof rules?.dailyMinutes === 'number' ? rules.dailyMinutes : null,
+    modeMinutes: rules?.modeMinutes && typeof rules.modeMinutes === 'object' ? rules.modeMinutes : {},
+    allowedWindows: Array.isArray(rules?.allowedWindows)
+      ? rules.allowedWindows.filter(window => isValidTime(window?.start) && isValidTime(window?.end))
+      : [],
+  };
+}
+
+export function saveScreenTimeRules(rules: ScreenTimeRules) {
+  setItem(profileKey(SCREEN_TIME_KEY), rules);
+}
+
+// Usage from a previous day is dropped rather than carried over.
+export function loadUsage(now: Date = new Date()): ScreenTimeUsage {
+  const day = toLocalDayKey(now);
+  const saved = getItem<ScreenTimeUsage>(profileKey(USAGE_KEY));
+  return saved && saved.day === day ? saved : { day, minutesByMode: {} };
+}
+
+// Called while an activity is open rather than once it closes, so time already
+// spent is kept even if the page is reloaded or closed mid-session.
+export function recordUsage(mode: AppMode, minutes: number, now: Date = new Date()): ScreenTimeUsage {
+  const updated = addUsage(loadUsage(now), mode, minutes, now);
+  setItem(profileKey(USAGE_KEY), updated);
+  return updated;
+}
+
+export function loadScreenTimeStatus(mode: AppMode, now: Date = new Date()): ScreenTimeStatus {
+  return getScreenTimeStatus(loadScreenTimeRules(), loadUsage(now), mode, now);
+}
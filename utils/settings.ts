@@ -0,0 +1,40 @@
+import { Settings } from '../types';
+import { profileKey } from './profiles';
+import { getItem, setItem } from './storage';
+import { SETTINGS_VERSION, parseStoredSettings, wrapEnvelope } from './schema';
+import { quarantineRecords } from './quarantine';
+import { PAUSE_LENGTH_OPTIONS } from './vad';
+
+export const SETTINGS_KEY = 'askie-kids-settings';
+
+export const HISTORY_LIMIT_OPTIONS = [20, 50, 100, 250];
+
+export const DEFAULT_SETTINGS: Settings = {
+  learningMode: 'voice',
+  historyLimit: 50,
+  reexplainOnDislike: true,
+  talkMode: 'auto',
+  vadSensitivity: 'medium',
+  pauseMs: 2000,
+};
+
+export function loadSettings(): Settings {
+  const storageKey = profileKey(SETTINGS_KEY);
+  const { settings, corrupt } = parseStoredSettings(getItem(storageKey), DEFAULT_SETTINGS, HISTORY_LIMIT_OPTIONS, PAUSE_LENGTH_OPTIONS);
+  if (corrupt) {
+    quarantineRecords(storageKey, [corrupt]);
+    saveSettings(settings);
+  }
+  return settings;
+}
+
+export function saveSettings(settings: Settings) {
+  setItem(profileKey(SETTINGS_KEY), wrapEnvelope(settings, SETTINGS_VERSION));
+}
+
+// Before profiles existed the chosen buddy was stored in the global settings
+// entry. Used once to seed the default profile.
+export function loadLegacyBuddyId(): string | null {
+  const settings = getItem<{ selectedBuddyId?: unknown }>(SETTINGS_KEY);
+  return typeof settings?.selectedBuddyId === 'string' ? settings.selectedBuddyId : null;
+}
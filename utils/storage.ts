@@ -0,0 +1,254 @@
+// Persistent storage backed by IndexedDB.
+//
+// Small values (settings, progress, history records) live in a key-value store
+// that is read into memory once at startup by `initStorage`, so the rest of the
+// app can keep reading them synchronously. Writes update memory immediately and
+// are persisted in the background. Images and audio are kept out of those
+// records in a separate blob store and referenced by `askie-blob:` URLs.
+
+const DB_NAME = 'askie-kids';
+const DB_VERSION = 1;
+const KV_STORE = 'kv';
+const BLOB_STORE = 'blobs';
+const LEGACY_KEY_PREFIX = 'askie-kids-';
+
+export const BLOB_REF_PREFIX = 'askie-blob:';
+
+export type StorageErrorKind = 'quota' | 'unavailable' | 'write-failed';
+
+export interface StorageError {
+  kind: StorageErrorKind;
+  message: string;
+}
+
+type StorageErrorListener = (error: StorageError | null) => void;
+
+let db: IDBDatabase | null = null;
+const cache = new Map<string, unknown>();
+// Writes that didn't reach the database. `undefined` marks a failed delete.
+const failedWrites = new Map<string, unknown>();
+const errorListeners = new Set<StorageErrorListener>();
+let storageError: StorageError | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(KV_STORE)) database.createObjectStore(KV_STORE);
+      if (!database.objectStoreNames.contains(BLOB_STORE)) database.createObjectStore(BLOB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+function toStorageError(error: unknown): StorageError {
+  if (isQuotaError(error)) {
+    return { kind: 'quota', message: "This device is out of storage space, so recent changes haven't been saved yet." };
+  }
+  return { kind: 'write-failed', message: "Some changes couldn't be saved to this device." };
+}
+
+function setStorageError(error: StorageError | null) {
+  storageError = error;
+  errorListeners.forEach(listener => listener(error));
+}
+
+export function getStorageError(): StorageError | null {
+  return storageError;
+}
+
+export function subscribeToStorageErrors(listener: StorageErrorListener): () => void {
+  errorListeners.add(listener);
+  return () => { errorListeners.delete(listener); };
+}
+
+async function persist(key: string, value: unknown) {
+  if (!db) {
+    failedWrites.set(key, value);
+    return;
+  }
+  try {
+    const transaction = db.transaction(KV_STORE, 'readwrite');
+    const store = transaction.objectStore(KV_STORE);
+    if (value === undefined) store.delete(key);
+    else store.put(value, key);
+    await transactionDone(transaction);
+
+    // Only clear the failure if nothing newer for this key has failed since.
+    if (failedWrites.get(key) === value) failedWrites.delete(key);
+    if (failedWrites.size === 0 && storageError?.kind !== 'unavailable') setStorageError(null);
+  } catch (error) {
+    console.error(`Failed to save "${key}" to IndexedDB:`, error);
+    failedWrites.set(key, value);
+    setStorageError(toStorageError(error));
+  }
+}
+
+// Values are copied in and out so callers can't mutate the cache by accident,
+// matching the old JSON round trip through localStorage.
+export function getItem<T>(key: string): T | null {
+  return cache.has(key) ? structuredClone(cache.get(key) as T) : null;
+}
+
+export function setItem(key: string, value: unknown) {
+  cache.set(key, structuredClone(value));
+  persist(key, value);
+}
+
+export function removeItem(key: string) {
+  cache.delete(key);
+  persist(key, undefined);
+}
+
+export function getKeys(prefix: string): string[] {
+  return [...cache.keys()].filter(key => key.startsWith(prefix));
+}
+
+// Tries the writes that failed again, e.g. after the parent has freed up space.
+export async function retryFailedWrites() {
+  await Promise.all([...failedWrites.entries()].map(([key, value]) => persist(key, value)));
+}
+
+export const isBlobRef = (url: string | undefined): url is string => !!url?.startsWith(BLOB_REF_PREFIX);
+
+export async function putBlob(blob: Blob): Promise<string> {
+  if (!db) throw new Error('Storage is not available.');
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  const transaction = db.transaction(BLOB_STORE, 'readwrite');
+  transaction.objectStore(BLOB_STORE).put(blob, id);
+  await transactionDone(transaction);
+  return `${BLOB_REF_PREFIX}${id}`;
+}
+
+export async function getBlob(ref: string): Promise<Blob | null> {
+  if (!db || !isBlobRef(ref)) return null;
+  const blob = await requestToPromise(db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE).get(ref.slice(BLOB_REF_PREFIX.length)));
+  return blob instanceof Blob ? blob : null;
+}
+
+export async function deleteBlobs(refs: string[]) {
+  if (!db || refs.length === 0) return;
+  try {
+    const transaction = db.transaction(BLOB_STORE, 'readwrite');
+    refs.filter(isBlobRef).forEach(ref => transaction.objectStore(BLOB_STORE).delete(ref.slice(BLOB_REF_PREFIX.length)));
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error('Failed to delete blobs:', error);
+  }
+}
+
+// Moves a data URL into the blob store. If that fails (no IndexedDB, or full),
+// the data URL is returned unchanged so nothing is lost from the current session.
+export async function storeDataUrl(dataUrl: string): Promise<string> {
+  if (!dataUrl.startsWith('data:')) return dataUrl;
+  try {
+    const blob = await (await fetch(dataUrl)).blob();
+    return await putBlob(blob);
+  } catch (error) {
+    console.error('Failed to move data into the blob store:', error);
+    if (isQuotaError(error)) setStorageError(toStorageError(error));
+    return dataUrl;
+  }
+}
+
+export async function blobRefToDataUrl(ref: string): Promise<string | null> {
+  const blob = await getBlob(ref);
+  if (!blob) return null;
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function readLegacyValue(key: string): unknown {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function getLegacyKeys(): string[] {
+  try {
+    return Object.keys(localStorage).filter(key => key.startsWith(LEGACY_KEY_PREFIX));
+  } catch {
+    return [];
+  }
+}
+
+// Copies everything the app used to keep in localStorage into IndexedDB, and only
+// removes the localStorage copy once the database has confirmed the write.
+async function migrateFromLocalStorage(database: IDBDatabase) {
+  const keys = getLegacyKeys().filter(key => !cache.has(key));
+  if (keys.length === 0) return;
+
+  const values = keys.map(key => [key, readLegacyValue(key)] as const).filter(([, value]) => value !== undefined);
+  const transaction = database.transaction(KV_STORE, 'readwrite');
+  values.forEach(([key, value]) => transaction.objectStore(KV_STORE).put(value, key));
+  await transactionDone(transaction);
+
+  values.forEach(([key, value]) => {
+    cache.set(key, value);
+    localStorage.removeItem(key);
+  });
+}
+
+// Must finish before the app renders. If IndexedDB can't be used, the app runs
+// from whatever is still in localStorage and tells the parent nothing will be saved.
+export async function initStorage() {
+  try {
+    const database = await openDatabase();
+    const transaction = database.transaction(KV_STORE, 'readonly');
+    const store = transaction.objectStore(KV_STORE);
+    const [keys, values] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]);
+    keys.forEach((key, i) => cache.set(String(key), values[i]));
+    db = database;
+  } catch (error) {
+    console.error('Could not open IndexedDB:', error);
+    getLegacyKeys().forEach(key => {
+      if (!cache.has(key)) cache.set(key, readLegacyValue(key));
+    });
+    setStorageError({ kind: 'unavailable', message: "This browser won't let the app save anything, so today's activity will be lost when the page is closed." });
+    return;
+  }
+
+  try {
+    await migrateFromLocalStorage(db);
+  } catch (error) {
+    // Keep using the localStorage copies; the migration is tried again next time.
+    console.error('Could not migrate data from localStorage:', error);
+    getLegacyKeys().forEach(key => {
+      if (!cache.has(key)) cache.set(key, readLegacyValue(key));
+    });
+    setStorageError(toStorageError(error));
+  }
+}
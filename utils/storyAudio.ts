@@ -0,0 +1,66 @@
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, WavMetadata, bytesToPcm16, createResampler, decode, encodeWav, floatToPcm16, pcm16ToFloat } from './audio';
+import { CAPTURE_CHUNK_SAMPLES, CAPTURE_SAMPLE_RATE } from './micCapture';
+
+// Builds the downloadable file for an audio tale: the story the buddy reads,
+// optionally with a spoken intro and ending and the child's own telling of it,
+// joined into one WAV with short pauses in between.
+
+export const DEFAULT_STORY_TITLE = 'Audio Story';
+// The child's recording is only kept in memory, for the download, and only this much of it.
+const MAX_RECORDING_SECONDS = 5 * 60;
+export const MAX_RECORDING_CHUNKS = Math.ceil(MAX_RECORDING_SECONDS * CAPTURE_SAMPLE_RATE / CAPTURE_CHUNK_SAMPLES);
+const PAUSE_MS = 700;
+
+export interface StoryAudioParts {
+  story: string; // base64 24kHz PCM, as the speech model returns it
+  intro?: string | null;
+  outro?: string | null;
+  recordingIntro?: string | null; // Spoken just before the child's recording
+  recording?: string[]; // base64 16kHz PCM microphone chunks
+}
+
+// Audio scripts usually open with their title, marked as a heading, in bold or
+// after "Title:". Anything else is the story itself, so the default is used.
+export function getScriptTitle(script: string): string {
+  const firstLine = script.split('\n').map(line => line.trim()).find(Boolean) ?? '';
+  const marked = firstLine.match(/^(?:#+\s*|\*\*|title:\s*)(.+?)\**$/i);
+  const title = marked?.[1].replace(/^title:\s*/i, '').replace(/\*+/g, '').trim();
+  return title && title.length <= 80 ? title : DEFAULT_STORY_TITLE;
+}
+
+export const getStoryFilename = (title: string): string => (
+  `${title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'audio-story'}.wav`
+);
+
+const joinPcm = (sections: Int16Array[]): Int16Array => {
+  const pcm = new Int16Array(sections.reduce((total, section) => total + section.length, 0));
+  sections.reduce((offset, section) => {
+    pcm.set(section, offset);
+    return offset + section.length;
+  }, 0);
+  return pcm;
+};
+
+const silence = (ms: number) => new Int16Array(Math.round(OUTPUT_SAMPLE_RATE * ms / 1000));
+
+const decodeSpeech = (base64?: string | null): Int16Array | null => base64 ? bytesToPcm16(decode(base64)) : null;
+
+// The chunks go through one resampler, so the joins between them stay smooth.
+const decodeRecording = (chunks: string[]): Int16Array => {
+  const resampler = createResampler(INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE);
+  return joinPcm(chunks.map(chunk => floatToPcm16(resampler.process(pcm16ToFloat(bytesToPcm16(decode(chunk)))))));
+};
+
+export function buildStoryWav(parts: StoryAudioParts, metadata: WavMetadata): Uint8Array {
+  const hasRecording = !!parts.recording?.length;
+  const sections = [
+    decodeSpeech(parts.intro),
+    decodeSpeech(parts.story),
+    hasRecording ? decodeSpeech(parts.recordingIntro) : null,
+    hasRecording ? decodeRecording(parts.recording!) : null,
+    decodeSpeech(parts.outro),
+  ].filter((section): section is Int16Array => !!section && section.length > 0);
+
+  const withPauses = sections.flatMap((section, i) => i === 0 ? [section] : [silence(PAUSE_MS), section]);
+  return encodeWav(joinPcm(withPauses), OUTPUT_SAMPLE_RATE, 1, metadata);
+}
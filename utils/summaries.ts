@@ -0,0 +1,54 @@
+import { Type } from '@google/genai';
+import { SessionRecord, SessionSummary } from '../types';
+import { AiProvider } from './aiProvider';
+
+export const MAX_SUMMARY_TAGS = 5;
+const MAX_TRANSCRIPT_CHARS = 12000;
+
+export const SUMMARY_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    notableMoments: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['summary', 'tags', 'notableMoments'],
+};
+
+// Keeps the end of long sessions, which is usually where the learning landed.
+export function buildTranscript(session: SessionRecord): string {
+  const lines = session.messages
+    .filter(message => message.text)
+    .map(message => `${message.speaker === 'user' ? 'Child' : 'Buddy'}${message.moderation ? ' [flagged by safety filter]' : ''}: ${message.text}`);
+  const transcript = lines.join('\n');
+  return transcript.length > MAX_TRANSCRIPT_CHARS ? transcript.slice(-MAX_TRANSCRIPT_CHARS) : transcript;
+}
+
+export function buildSummaryPrompt(session: SessionRecord): string {
+  const attempts = session.attempts?.length
+    ? `\n\nPuzzle results: ${session.attempts.filter(a => a.correct).length} of ${session.attempts.length} correct.`
+    : '';
+  return `You are writing a note for a parent about their child's session with an AI learning buddy in the "${session.mode}" activity. Write a "summary" of two or three short sentences saying what the child explored or practised and how it went. Give up to ${MAX_SUMMARY_TAGS} "tags": short lowercase topic or school subject names such as "fractions", "dinosaurs" or "spelling". List "notableMoments": up to three one-sentence highlights a parent would want to know about, such as a breakthrough, a struggle, a great question, or anything flagged by the safety filter. Use an empty list if nothing stands out.\n\nTranscript:\n${buildTranscript(session)}${attempts}`;
+}
+
+export function parseSummary(json: string, generatedAt: number = Date.now()): SessionSummary {
+  const data = JSON.parse(json);
+  if (!data.summary) throw new Error('The summary was empty.');
+  const tags: string[] = (Array.isArray(data.tags) ? data.tags : [])
+    .map((tag: unknown) => String(tag).trim().toLowerCase())
+    .filter(Boolean);
+  return {
+    text: String(data.summary).trim(),
+    tags: [...new Set(tags)].slice(0, MAX_SUMMARY_TAGS),
+    notableMoments: (Array.isArray(data.notableMoments) ? data.notableMoments : []).map(String).filter(Boolean).slice(0, 3),
+    generatedAt,
+  };
+}
+
+export async function generateSessionSummary(ai: AiProvider, session: SessionRecord): Promise<SessionSummary> {
+  return parseSummary(await ai.generateJson({ contents: buildSummaryPrompt(session), schema: SUMMARY_RESPONSE_SCHEMA }));
+}
+
+export function getAllTags(history: SessionRecord[]): string[] {
+  return [...new Set(history.flatMap(session => session.summary?.tags ?? []))].sort();
+}
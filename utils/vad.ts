@@ -0,0 +1,62 @@
+import { VadSensitivity } from '../types';
+
+// Voice activity detection on the microphone chunks, so the child's turn ends
+// after a pause of their own choosing rather than the model's. Works on each
+// chunk's RMS level, which the capture worklet measures anyway.
+
+// The quietest RMS level that still counts as talking. Higher sensitivity hears
+// softer voices, but also more of the room.
+export const VAD_THRESHOLDS: Record<VadSensitivity, number> = {
+  low: 0.03,
+  medium: 0.015,
+  high: 0.007,
+};
+
+export const PAUSE_LENGTH_OPTIONS = [1000, 2000, 3000, 4000];
+
+export interface VadOptions {
+  threshold: number;
+  pauseMs: number; // Silence needed before talking counts as finished
+}
+
+export type VadEvent = 'speech-start' | 'speech-end';
+
+export interface VoiceActivityDetector {
+  // Returns an event when this chunk starts or ends the child's talking.
+  process(level: number, durationMs: number): VadEvent | null;
+  reset(): void;
+  isSpeaking(): boolean;
+}
+
+// Once talking has started, a slightly quieter voice keeps it going, so a
+// trailing-off sentence isn't cut in half.
+const HOLD_RATIO = 0.7;
+
+export function createVoiceActivityDetector({ threshold, pauseMs }: VadOptions): VoiceActivityDetector {
+  let speaking = false;
+  let silenceMs = 0;
+
+  return {
+    process: (level, durationMs) => {
+      if (!speaking) {
+        if (level < threshold) return null;
+        speaking = true;
+        silenceMs = 0;
+        return 'speech-start';
+      }
+      if (level >= threshold * HOLD_RATIO) {
+        silenceMs = 0;
+        return null;
+      }
+      silenceMs += durationMs;
+      if (silenceMs < pauseMs) return null;
+      speaking = false;
+      return 'speech-end';
+    },
+    reset: () => {
+      speaking = false;
+      silenceMs = 0;
+    },
+    isSpeaking: () => speaking,
+  };
+}
@@ -4,15 +4,26 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays on the AI server (server/index.ts); the browser only ever talks to /api.
+    const aiServerProxy = {
+      '/api': {
+        target: `http://localhost:${env.AI_SERVER_PORT || 3001}`,
+        ws: true,
+        xfwd: true,
+      },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: aiServerProxy,
+      },
+      preview: {
+        proxy: aiServerProxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
       },
       resolve: {
         alias: {